@@ -0,0 +1,38 @@
+import { join } from 'node:path';
+import type { Plugin } from 'vite';
+import { createContactHandler, createContactStore } from './contact';
+import { delay } from './http';
+import { createOrderHandler, createOrderStatusStore } from './orders';
+import { createProductHandler, createProductStore } from './products';
+
+// Local mock backend, served by the Vite dev server under /api
+export function mockApi(): Plugin {
+  return {
+    name: 'mock-api',
+    configureServer(server) {
+      // Catalog edits and uploads outlive dev server restarts; the folder is git-ignored
+      const dataDir = join(server.config.root, 'mock/.data');
+      const handleProducts = createProductHandler(
+        createProductStore(join(dataDir, 'products.json')),
+        join(dataDir, 'images')
+      );
+      server.middlewares.use('/api/products', async (req, res, next) => {
+        await delay();
+        handleProducts(req, res, next).catch(next);
+      });
+
+      const contactStore = createContactStore(join(dataDir, 'contact-messages.json'));
+      const handleContact = createContactHandler(contactStore);
+      server.middlewares.use('/api/contact', async (req, res, next) => {
+        await delay();
+        handleContact(req, res, next).catch(next);
+      });
+
+      const handleOrders = createOrderHandler(createOrderStatusStore(join(dataDir, 'order-status.json')));
+      server.middlewares.use('/api/orders', async (req, res, next) => {
+        await delay();
+        handleOrders(req, res, next).catch(next);
+      });
+    },
+  };
+}
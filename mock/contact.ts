@@ -0,0 +1,146 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  MIN_FILL_TIME_MS,
+  RATE_LIMIT_MAX_MESSAGES,
+  RATE_LIMIT_WINDOW_MS,
+  contactSchema,
+  type ContactMessage,
+  type ContactRejection,
+  type ContactSubmission,
+} from '../src/lib/contact';
+import { validateForm } from '../src/lib/validation';
+import { createFileStore, type FileStore } from './fileStore';
+import { isStaffRequest, readBody, sendJSON } from './http';
+
+// A form left open overnight has to be reloaded
+const FORM_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Tokens only need to outlive the dev server process, so a fresh secret per start is fine
+const tokenSecret = randomBytes(32);
+
+const sign = (issuedAt: string) => createHmac('sha256', tokenSecret).update(issuedAt).digest('base64url');
+
+function issueFormToken(now = Date.now()) {
+  const issuedAt = String(now);
+  return `${issuedAt}.${sign(issuedAt)}`;
+}
+
+// When the token was issued, or null if it is forged, mangled or too old
+function verifyFormToken(token: unknown, now: number) {
+  if (typeof token !== 'string') return null;
+  const [issuedAt, signature = ''] = token.split('.');
+  const expected = Buffer.from(sign(issuedAt));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const issued = Number(issuedAt);
+  return now - issued > FORM_TOKEN_MAX_AGE_MS ? null : issued;
+}
+
+export function createContactStore(file: string) {
+  return createFileStore<ContactMessage[]>(file, () => []);
+}
+
+type ContactStore = FileStore<ContactMessage[]>;
+
+type SubmitOutcome = { limited: true; retryAfterSeconds: number } | { limited: false; message: ContactMessage };
+
+const reject = (res: ServerResponse, status: number, body: ContactRejection) => sendJSON(res, status, body);
+
+async function submit(req: IncomingMessage, res: ServerResponse, store: ContactStore) {
+  const now = Date.now();
+  const body = ((await readBody(req).catch(() => undefined)) ?? {}) as Partial<ContactSubmission>;
+  const submission = {
+    name: String(body.name ?? '').trim(),
+    email: String(body.email ?? '').trim().toLowerCase(),
+    message: String(body.message ?? '').trim(),
+    website: String(body.website ?? ''),
+  };
+
+  // Bots get the same answer as people so they have no reason to try again
+  if (submission.website) return sendJSON(res, 201, { id: randomUUID() });
+
+  const startedAt = verifyFormToken(body.formToken, now);
+  if (startedAt === null) return reject(res, 400, { reason: 'expired' });
+  if (now - startedAt < MIN_FILL_TIME_MS) return reject(res, 400, { reason: 'too-fast' });
+
+  const errors = validateForm(contactSchema, submission);
+  if (Object.keys(errors).length > 0) return reject(res, 400, { reason: 'invalid', errors });
+
+  const outcome = await store.update<SubmitOutcome>((messages) => {
+    const recent = messages
+      .filter((message) => message.email === submission.email)
+      .map((message) => Date.parse(message.createdAt))
+      .filter((sentAt) => now - sentAt < RATE_LIMIT_WINDOW_MS)
+      .sort((a, b) => a - b);
+
+    if (recent.length >= RATE_LIMIT_MAX_MESSAGES) {
+      const retryAfterSeconds = Math.ceil((recent[0] + RATE_LIMIT_WINDOW_MS - now) / 1000);
+      return { data: messages, result: { limited: true, retryAfterSeconds } };
+    }
+
+    const message: ContactMessage = {
+      id: randomUUID(),
+      name: submission.name,
+      email: submission.email,
+      message: submission.message,
+      createdAt: new Date(now).toISOString(),
+      resolvedAt: null,
+    };
+    return { data: [...messages, message], result: { limited: false, message } };
+  });
+
+  if (outcome.limited) {
+    res.setHeader('Retry-After', String(outcome.retryAfterSeconds));
+    return reject(res, 429, { reason: 'rate-limited', retryAfterSeconds: outcome.retryAfterSeconds });
+  }
+  sendJSON(res, 201, { id: outcome.message.id });
+}
+
+async function setResolved(req: IncomingMessage, res: ServerResponse, store: ContactStore, id: string) {
+  const body = (await readBody(req).catch(() => undefined)) as { resolved?: unknown } | undefined;
+  if (typeof body?.resolved !== 'boolean') {
+    return sendJSON(res, 400, { message: 'Expected { resolved: boolean }' });
+  }
+  const resolved = body.resolved;
+
+  const updated = await store.update((messages) => {
+    const message = messages.find((message) => message.id === id);
+    if (!message) return { data: messages, result: undefined };
+
+    const next = { ...message, resolvedAt: resolved ? new Date().toISOString() : null };
+    return { data: messages.map((message) => (message.id === id ? next : message)), result: next };
+  });
+
+  if (!updated) return sendJSON(res, 404, { message: 'Message not found' });
+  sendJSON(res, 200, updated);
+}
+
+// Routes under /api/contact:
+//   GET   /token          start filling in the form
+//   POST  /               send a message
+//   GET   /messages       staff inbox, newest first
+//   PATCH /messages/:id   { resolved } marks a message handled or reopens it
+export function createContactHandler(store: ContactStore) {
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const path = req.url?.split('?')[0].replace(/\/$/, '') ?? '';
+
+    if (req.method === 'GET' && path === '/token') return sendJSON(res, 200, { formToken: issueFormToken() });
+    if (req.method === 'POST' && path === '') return submit(req, res, store);
+
+    const inbox = path.match(/^\/messages(?:\/([^/]+))?$/);
+    if (!inbox) return next();
+
+    if (!isStaffRequest(req)) return sendJSON(res, 403, { message: 'Staff only' });
+
+    const [, id] = inbox;
+    if (req.method === 'GET' && !id) {
+      const messages = await store.load();
+      return sendJSON(res, 200, [...messages].reverse());
+    }
+    if (req.method === 'PATCH' && id) return setResolved(req, res, store, decodeURIComponent(id));
+
+    next();
+  };
+}
@@ -0,0 +1,31 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// A JSON file that survives dev server restarts. Updates run one at a time
+// so two quick requests can't overwrite each other's changes.
+export function createFileStore<T>(file: string, initial: () => T) {
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<T> => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as T;
+    } catch {
+      return initial();
+    }
+  };
+
+  const update = <R>(change: (data: T) => { data: T; result: R }) => {
+    const run = pending.then(async () => {
+      const { data, result } = change(await load());
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, JSON.stringify(data, null, 2));
+      return result;
+    });
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  return { load, update };
+}
+
+export type FileStore<T> = ReturnType<typeof createFileStore<T>>;
@@ -0,0 +1,55 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { isStaffEmail } from '../src/lib/staff';
+
+export function sendJSON(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+export function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Raw request bytes, e.g. an uploaded image. Rejects once `limit` bytes
+// have arrived rather than buffering whatever the client sends.
+export function readRaw(req: IncomingMessage, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new RangeError(`Request body is larger than ${limit} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// The mock can't see the browser's session, so it trusts the header; a real
+// backend would check the signed-in account instead
+export function isStaffRequest(req: IncomingMessage) {
+  const staffEmail = req.headers['x-staff-email'];
+  return typeof staffEmail === 'string' && isStaffEmail(staffEmail);
+}
+
+// Simulated network latency so loading states are visible in development
+export function delay(ms = 300) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
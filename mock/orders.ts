@@ -0,0 +1,114 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { extendsHistory, isValidHistory, type OrderStatusUpdate, type StatusChange } from '../src/lib/orderStatus';
+import { createFileStore, type FileStore } from './fileStore';
+import { isStaffRequest, readBody, sendJSON } from './http';
+
+// Orders themselves live in the browser; the server only keeps each one's
+// latest status history so it can be pushed to, or polled by, the customer
+export function createOrderStatusStore(file: string) {
+  return createFileStore<Record<string, StatusChange[]>>(file, () => ({}));
+}
+
+type OrderStatusStore = FileStore<Record<string, StatusChange[]>>;
+
+type PublishOutcome = { conflict: true } | { conflict: false; update: OrderStatusUpdate };
+
+// Keeps idle connections from being closed by proxies and tells us when a
+// browser has gone away without saying so
+const HEARTBEAT_MS = 15_000;
+
+// A customer follows their own handful of orders, never the whole shop
+const MAX_WATCHED_ORDERS = 50;
+
+function watchedIds(req: IncomingMessage) {
+  const ids = new URL(req.url ?? '', 'http://localhost').searchParams.get('ids') ?? '';
+  return ids.split(',').filter(Boolean).slice(0, MAX_WATCHED_ORDERS);
+}
+
+function snapshots(statuses: Record<string, StatusChange[]>, ids: string[]): OrderStatusUpdate[] {
+  return ids.flatMap((orderId) => (statuses[orderId] ? [{ orderId, history: statuses[orderId] }] : []));
+}
+
+const sendEvent = (res: ServerResponse, update: OrderStatusUpdate) =>
+  res.write(`event: status\ndata: ${JSON.stringify(update)}\n\n`);
+
+// Open event streams and the orders each one is following
+function createSubscribers() {
+  const subscribers = new Map<ServerResponse, Set<string>>();
+
+  return {
+    add: (res: ServerResponse, ids: string[]) => subscribers.set(res, new Set(ids)),
+    remove: (res: ServerResponse) => subscribers.delete(res),
+    broadcast: (update: OrderStatusUpdate) => {
+      for (const [res, ids] of subscribers) {
+        if (ids.has(update.orderId)) sendEvent(res, update);
+      }
+    },
+  };
+}
+
+type Subscribers = ReturnType<typeof createSubscribers>;
+
+async function stream(req: IncomingMessage, res: ServerResponse, store: OrderStatusStore, subscribers: Subscribers) {
+  const ids = watchedIds(req);
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  // Replay where each order is now, so a reconnect catches up on anything missed
+  for (const update of snapshots(await store.load(), ids)) sendEvent(res, update);
+  subscribers.add(res, ids);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    subscribers.remove(res);
+  });
+}
+
+async function publish(req: IncomingMessage, res: ServerResponse, store: OrderStatusStore, subscribers: Subscribers, orderId: string) {
+  const body = (await readBody(req).catch(() => undefined)) as { history?: unknown } | undefined;
+  const history = body?.history;
+  // The server never sees the order, so it can't tell pickups from deliveries
+  // and accepts either hand-over step
+  if (!isValidHistory(history, null)) {
+    return sendJSON(res, 400, { message: 'Expected { history } made of legal status changes' });
+  }
+
+  const outcome = await store.update<PublishOutcome>((statuses) => {
+    const current = statuses[orderId] ?? [];
+    if (!extendsHistory(current, history)) return { data: statuses, result: { conflict: true } };
+    return { data: { ...statuses, [orderId]: history }, result: { conflict: false, update: { orderId, history } } };
+  });
+
+  if (outcome.conflict) return sendJSON(res, 409, { message: 'The order has already moved on' });
+  subscribers.broadcast(outcome.update);
+  sendJSON(res, 200, outcome.update);
+}
+
+// Routes under /api/orders:
+//   GET /events?ids=a,b     server-sent "status" events for those orders
+//   GET /status?ids=a,b     the same, polled
+//   PUT /:id/status         { history } staff publish an order's progress
+export function createOrderHandler(store: OrderStatusStore) {
+  const subscribers = createSubscribers();
+
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const path = req.url?.split('?')[0].replace(/\/$/, '') ?? '';
+
+    if (req.method === 'GET' && path === '/events') return stream(req, res, store, subscribers);
+    if (req.method === 'GET' && path === '/status') {
+      return sendJSON(res, 200, snapshots(await store.load(), watchedIds(req)));
+    }
+
+    const status = path.match(/^\/([^/]+)\/status$/);
+    if (req.method === 'PUT' && status) {
+      if (!isStaffRequest(req)) return sendJSON(res, 403, { message: 'Staff only' });
+      return publish(req, res, store, subscribers, decodeURIComponent(status[1]));
+    }
+
+    next();
+  };
+}
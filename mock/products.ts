@@ -0,0 +1,202 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { products, type Product } from '../src/data/products';
+import type { Money } from '../src/lib/money';
+import { isAllergen, isDietaryTag, withDietaryInfo } from '../src/lib/dietary';
+import type { TranslatableProblem } from '../src/lib/errors';
+import { MAX_IMAGE_BYTES, applyOrder, productProblem, type ImageSlot } from '../src/lib/productRules';
+import { createFileStore, type FileStore } from './fileStore';
+import { isStaffRequest, readBody, readRaw, sendJSON } from './http';
+
+const IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// The bundled catalog is the starting point; once staff change anything the
+// edited copy on disk takes over. Copies saved before ingredients were
+// recorded are filled in as they're read.
+export function createProductStore(file: string) {
+  const store = createFileStore<Product[]>(file, () => products);
+  const upgrade = (catalog: Product[]) => catalog.map((product) => withDietaryInfo(product, products));
+  return {
+    load: async () => upgrade(await store.load()),
+    update: <R>(change: (catalog: Product[]) => { data: Product[]; result: R }) =>
+      store.update((catalog) => change(upgrade(catalog))),
+  } satisfies FileStore<Product[]>;
+}
+
+type ProductStore = FileStore<Product[]>;
+
+type SaveOutcome = { problem: TranslatableProblem } | { saved: Product };
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+// Coerced field by field so a malformed body fails validation instead of throwing
+function fromBody(body: unknown): Product {
+  const value = (body ?? {}) as Partial<Record<keyof Product, unknown>>;
+  const image = (value.image ?? {}) as Partial<Record<ImageSlot, unknown>>;
+  const slot = (name: ImageSlot) => String(image[name] ?? '');
+  const list = (field: unknown) => (Array.isArray(field) ? field : []);
+  return {
+    id: Number(value.id),
+    name: String(value.name ?? '').trim(),
+    price: Number(value.price) as Money,
+    category: String(value.category ?? '').trim(),
+    image: { desktop: slot('desktop'), tablet: slot('tablet'), mobile: slot('mobile'), thumbnail: slot('thumbnail') },
+    stock: Number(value.stock),
+    ingredients: list(value.ingredients).map((ingredient) => String(ingredient).trim()),
+    // Missing means not listed yet, never "none"
+    allergens: Array.isArray(value.allergens) ? value.allergens.filter(isAllergen) : null,
+    dietary: list(value.dietary).filter(isDietaryTag),
+    archived: value.archived === true,
+  };
+}
+
+const save =
+  (store: ProductStore, isNew: boolean, routeId?: number): Handler =>
+  async (req, res) => {
+    const product = fromBody(await readBody(req).catch(() => undefined));
+    if (routeId !== undefined && product.id !== routeId) {
+      return sendJSON(res, 400, { key: 'admin.product.problem.idChanged', message: 'Product ids cannot be changed' });
+    }
+
+    const outcome = await store.update<SaveOutcome>((catalog) => {
+      const problem = productProblem(product, catalog, isNew);
+      if (problem) return { data: catalog, result: { problem } };
+
+      return {
+        data: isNew ? [...catalog, product] : catalog.map((existing) => (existing.id === product.id ? product : existing)),
+        result: { saved: product },
+      };
+    });
+
+    // Problems carry their catalog key so the admin UI can word them per language
+    if ('problem' in outcome) {
+      const status = outcome.problem.key === 'admin.product.problem.idTaken' ? 409 : 400;
+      return sendJSON(res, status, outcome.problem);
+    }
+    sendJSON(res, isNew ? 201 : 200, outcome.saved);
+  };
+
+const setArchived =
+  (store: ProductStore, id: number): Handler =>
+  async (req, res) => {
+    const body = (await readBody(req).catch(() => undefined)) as { archived?: unknown } | undefined;
+    if (typeof body?.archived !== 'boolean') {
+      return sendJSON(res, 400, { message: 'Expected { archived: boolean }' });
+    }
+    const archived = body.archived;
+
+    const updated = await store.update((catalog) => {
+      const product = catalog.find((product) => product.id === id);
+      if (!product) return { data: catalog, result: undefined };
+
+      const next = { ...product, archived };
+      return { data: catalog.map((product) => (product.id === id ? next : product)), result: next };
+    });
+
+    if (!updated) return sendJSON(res, 404, { message: 'Product not found' });
+    sendJSON(res, 200, updated);
+  };
+
+const reorder =
+  (store: ProductStore): Handler =>
+  async (req, res) => {
+    const body = (await readBody(req).catch(() => undefined)) as { ids?: unknown } | undefined;
+    const ids = body?.ids;
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'number')) {
+      return sendJSON(res, 400, { message: 'Expected { ids: number[] }' });
+    }
+
+    const problem = await store.update((catalog) => {
+      try {
+        return { data: applyOrder(catalog, ids), result: null };
+      } catch (error) {
+        return { data: catalog, result: (error as Error).message };
+      }
+    });
+
+    if (problem) return sendJSON(res, 400, { message: problem });
+    res.statusCode = 204;
+    res.end();
+  };
+
+const uploadImage =
+  (imageDir: string): Handler =>
+  async (req, res) => {
+    const extension = IMAGE_TYPES[req.headers['content-type'] ?? ''];
+    if (!extension) return sendJSON(res, 415, { message: 'Upload a JPEG, PNG, WebP or GIF image' });
+
+    const data = await readRaw(req, MAX_IMAGE_BYTES).catch(() => null);
+    if (!data) return sendJSON(res, 413, { message: 'Images can be at most 5 MB' });
+
+    const name = `${randomUUID()}.${extension}`;
+    await mkdir(imageDir, { recursive: true });
+    await writeFile(join(imageDir, name), data);
+    sendJSON(res, 201, { url: `/api/products/images/${name}` });
+  };
+
+const serveImage =
+  (imageDir: string, name: string): Handler =>
+  async (_req, res) => {
+    const type = Object.keys(IMAGE_TYPES).find((type) => name.endsWith(`.${IMAGE_TYPES[type]}`));
+    // Names are generated by the upload route; anything else is a probe
+    if (!type || !/^[\w-]+\.\w+$/.test(name)) return sendJSON(res, 404, { message: 'Image not found' });
+
+    const data = await readFile(join(imageDir, name)).catch(() => null);
+    if (!data) return sendJSON(res, 404, { message: 'Image not found' });
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', type);
+    res.end(data);
+  };
+
+// Routes under /api/products:
+//   GET   /?archived=include   the catalog in storefront order; archived products only on request
+//   GET   /:id
+//   GET   /images/:name        an uploaded image
+// Staff only:
+//   POST  /                    create
+//   PUT   /:id                 replace
+//   PATCH /:id                 { archived }
+//   PUT   /order               { ids } sets the storefront order
+//   POST  /images              upload, with the image as the raw body
+export function createProductHandler(store: ProductStore, imageDir: string) {
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const [path, query = ''] = (req.url ?? '').split('?');
+    const route = path.replace(/^\/|\/$/g, '');
+    const image = route.match(/^images\/(.+)$/);
+
+    if (req.method === 'GET') {
+      if (image) return serveImage(imageDir, image[1])(req, res);
+
+      const catalog = await store.load();
+      if (!route) {
+        const includeArchived = new URLSearchParams(query).get('archived') === 'include';
+        return sendJSON(res, 200, includeArchived ? catalog : catalog.filter((product) => !product.archived));
+      }
+
+      const product = catalog.find((product) => String(product.id) === route);
+      if (!product) return sendJSON(res, 404, { message: 'Product not found' });
+      return sendJSON(res, 200, product);
+    }
+
+    if (!isStaffRequest(req)) {
+      return ['POST', 'PUT', 'PATCH'].includes(req.method ?? '') ? sendJSON(res, 403, { message: 'Staff only' }) : next();
+    }
+
+    const id = /^\d+$/.test(route) ? Number(route) : undefined;
+    if (req.method === 'POST' && !route) return save(store, true)(req, res);
+    if (req.method === 'POST' && route === 'images') return uploadImage(imageDir)(req, res);
+    if (req.method === 'PUT' && route === 'order') return reorder(store)(req, res);
+    if (req.method === 'PUT' && id !== undefined) return save(store, false, id)(req, res);
+    if (req.method === 'PATCH' && id !== undefined) return setArchived(store, id)(req, res);
+
+    next();
+  };
+}
@@ -1,28 +1,95 @@
 import { BrowserRouter } from "react-router-dom";
 import { Route, Routes } from "react-router-dom";
+import { AuthProvider } from "./context/AuthContext";
 import { CartProvider } from "./context/CartContext";
+import { OrdersProvider } from "./context/OrdersContext";
+import { ReviewsProvider } from "./context/ReviewsContext";
+import { LanguageProvider } from "./context/LanguageContext";
+import { ToastProvider } from "./context/ToastContext";
+import { WishlistProvider } from "./context/WishlistContext";
 import Home from "./pages/Home";
+import ProductDetail from "./pages/ProductDetail";
+import Checkout from "./pages/Checkout";
+import Wishlist from "./pages/Wishlist";
 import About from "./pages/About";
 import Contact from "./pages/Contact";
 import NotFound from "./pages/NotFound";
+import Login from "./pages/Login";
+import Register from "./pages/Register";
+import ForgotPassword from "./pages/ForgotPassword";
+import Dashboard from "./pages/Dashboard";
+import Profile from "./pages/Profile";
+import Orders from "./pages/Orders";
+import OrderDetail from "./pages/OrderDetail";
+import OrderTracking from "./pages/OrderTracking";
+import Terms from "./pages/Terms";
+import Privacy from "./pages/Privacy";
+import StaffInbox from "./pages/StaffInbox";
+import AdminProducts from "./pages/AdminProducts";
+import AdminProductEditor from "./pages/AdminProductEditor";
+import AdminOrders from "./pages/AdminOrders";
+import AdminReviews from "./pages/AdminReviews";
 import NavigationBar from "./shared/components/Navigationbar";
+import RequireAuth from "./shared/components/RequireAuth";
+import RequireStaff from "./shared/components/RequireStaff";
+import Toaster from "./shared/components/Toaster";
 
 function App() {
   return (
-    <BrowserRouter>
-      <CartProvider>
-        <div className="min-h-screen bg-orange-50">
-          <NavigationBar />
+    <LanguageProvider>
+      <ToastProvider>
+        <BrowserRouter>
+          <AuthProvider>
+            <CartProvider>
+              <WishlistProvider>
+                <OrdersProvider>
+                  <ReviewsProvider>
+                    <div className="min-h-screen bg-orange-50">
+                      <NavigationBar />
 
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="/about" element={<About />} />
-            <Route path="/contact" element={<Contact />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </div>
-      </CartProvider>
-    </BrowserRouter>
+                      <Routes>
+                        <Route path="/" element={<Home />} />
+                        <Route path="/products/:id" element={<ProductDetail />} />
+                        <Route path="/checkout" element={<Checkout />} />
+                        <Route path="/wishlist" element={<Wishlist />} />
+                        <Route path="/about" element={<About />} />
+                        <Route path="/contact" element={<Contact />} />
+                        <Route path="/login" element={<Login />} />
+                        <Route path="/register" element={<Register />} />
+                        <Route path="/forgot-password" element={<ForgotPassword />} />
+                        <Route path="/terms" element={<Terms />} />
+                        <Route path="/privacy" element={<Privacy />} />
+
+                        <Route element={<RequireAuth />}>
+                          <Route path="/dashboard" element={<Dashboard />} />
+                          <Route path="/profile" element={<Profile />} />
+                          <Route path="/orders" element={<Orders />} />
+                          <Route path="/orders/:id" element={<OrderDetail />} />
+                          <Route path="/orders/:id/track" element={<OrderTracking />} />
+
+                          <Route element={<RequireStaff />}>
+                            <Route path="/admin/inbox" element={<StaffInbox />} />
+                            <Route path="/admin/orders" element={<AdminOrders />} />
+                            <Route path="/admin/reviews" element={<AdminReviews />} />
+                            <Route path="/admin/products" element={<AdminProducts />} />
+                            <Route path="/admin/products/new" element={<AdminProductEditor />} />
+                            <Route path="/admin/products/:id/edit" element={<AdminProductEditor />} />
+                          </Route>
+                        </Route>
+
+                        <Route path="*" element={<NotFound />} />
+                      </Routes>
+
+                      <Toaster />
+                    </div>
+                  </ReviewsProvider>
+                </OrdersProvider>
+              </WishlistProvider>
+            </CartProvider>
+          </AuthProvider>
+        </BrowserRouter>
+      </ToastProvider>
+    </LanguageProvider>
   );
 }
 
@@ -0,0 +1,60 @@
+import { useState, type ReactNode } from 'react';
+import { AuthContext, type LoginOptions } from './auth';
+import { createUser, findUserById, verifyCredentials, type NewUser, type User } from '../services/userStore';
+import { readJSON, removeKey, storageKey, writeJSON } from '../lib/storage';
+
+const SESSION_KEY = storageKey('session');
+
+// "Remember me" sessions live in localStorage, the rest end with the browser tab
+function restoreSession() {
+  const userId =
+    readJSON<string | null>(SESSION_KEY, null, sessionStorage) ??
+    readJSON<string | null>(SESSION_KEY, null);
+  return userId ? findUserById(userId) : null;
+}
+
+function saveSession(userId: string, remember: boolean) {
+  writeJSON(SESSION_KEY, userId, remember ? localStorage : sessionStorage);
+}
+
+function clearSession() {
+  removeKey(SESSION_KEY);
+  removeKey(SESSION_KEY, sessionStorage);
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(restoreSession);
+
+  const login = async (email: string, password: string, { remember = true }: LoginOptions = {}) => {
+    const authenticated = await verifyCredentials(email, password);
+    clearSession();
+    saveSession(authenticated.id, remember);
+    setUser(authenticated);
+    return authenticated;
+  };
+
+  const register = async (details: NewUser) => {
+    const created = await createUser(details);
+    clearSession();
+    saveSession(created.id, true);
+    setUser(created);
+    return created;
+  };
+
+  const logout = () => {
+    clearSession();
+    setUser(null);
+  };
+
+  return (
+    <AuthContext.Provider value={{
+      user,
+      isAuthenticated: user !== null,
+      login,
+      register,
+      logout
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -1,52 +1,89 @@
-import { useReducer, type ReactNode } from 'react';
-import { CartContext, type CartItem, type CartState, type CartAction } from './cart';
+import { useEffect, useReducer, type ReactNode } from 'react';
+import { CartContext, buildCartState, type CartItem, type CartState, type CartAction, type PromoCodeResult } from './cart';
 import type { Product } from '../data/products';
+import { findPromotion } from '../data/promotions';
+import { evaluatePromotion, normalizeCode } from '../lib/discounts';
+import { clampToStock } from '../lib/stock';
+import { CART_STORAGE_KEY, loadCart, parseCart, saveCart } from '../services/cartStorage';
 
 function cartReducer(state: CartState, action: CartAction): CartState {
   switch (action.type) {
     case 'ADD_ITEM': {
-      const existingItem = state.items.find(item => item.id === action.payload.id);
+      const { product, quantity } = action.payload;
+      const existingItem = state.items.find(item => item.id === product.id);
       
+      // The product carries the freshest stock level, so it replaces the line's copy
       let newItems: CartItem[];
       if (existingItem) {
         newItems = state.items.map(item =>
-          item.id === action.payload.id
-            ? { ...item, quantity: item.quantity + 1 }
+          item.id === product.id
+            ? { ...item, stock: product.stock, quantity: clampToStock(item.quantity + quantity, product.stock) }
             : item
-        );
+        ).filter(item => item.quantity > 0);
       } else {
-        newItems = [...state.items, { ...action.payload, quantity: 1 }];
+        const added = clampToStock(quantity, product.stock);
+        if (added === 0) return state;
+        newItems = [...state.items, { ...product, quantity: added }];
       }
       
-      const total = newItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-      const itemCount = newItems.reduce((sum, item) => sum + item.quantity, 0);
-      
-      return { items: newItems, total, itemCount };
+      return buildCartState(newItems, state.promoCodes);
     }
     
     case 'REMOVE_ITEM': {
       const newItems = state.items.filter(item => item.id !== action.payload);
-      const total = newItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-      const itemCount = newItems.reduce((sum, item) => sum + item.quantity, 0);
       
-      return { items: newItems, total, itemCount };
+      return buildCartState(newItems, state.promoCodes);
+    }
+    
+    case 'RESTORE_ITEM': {
+      const { item, index } = action.payload;
+      const existingItem = state.items.find(other => other.id === item.id);
+      
+      // Added again since it was removed - fold the restored quantity in
+      const newItems = existingItem
+        ? state.items.map(other =>
+            other.id === item.id
+              ? { ...other, quantity: clampToStock(other.quantity + item.quantity, other.stock) }
+              : other
+          )
+        : [...state.items.slice(0, index), item, ...state.items.slice(index)];
+      
+      return buildCartState(newItems, state.promoCodes);
     }
     
     case 'UPDATE_QUANTITY': {
       const newItems = state.items.map(item =>
         item.id === action.payload.id
-          ? { ...item, quantity: Math.max(0, action.payload.quantity) }
+          ? { ...item, quantity: clampToStock(action.payload.quantity, item.stock) }
           : item
       ).filter(item => item.quantity > 0);
       
-      const total = newItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-      const itemCount = newItems.reduce((sum, item) => sum + item.quantity, 0);
+      return buildCartState(newItems, state.promoCodes);
+    }
+    
+    case 'SYNC_STOCK': {
+      const newItems = state.items.map(item => {
+        const product = action.payload.find(candidate => candidate.id === item.id);
+        const stock = product ? product.stock : 0;
+        return { ...item, stock, quantity: clampToStock(item.quantity, stock) };
+      }).filter(item => item.quantity > 0);
       
-      return { items: newItems, total, itemCount };
+      return buildCartState(newItems, state.promoCodes);
     }
     
+    case 'APPLY_PROMO_CODE': {
+      if (state.promoCodes.includes(action.payload)) return state;
+      return buildCartState(state.items, [...state.promoCodes, action.payload]);
+    }
+    
+    case 'REMOVE_PROMO_CODE':
+      return buildCartState(state.items, state.promoCodes.filter(code => code !== action.payload));
+    
     case 'CLEAR_CART':
-      return { items: [], total: 0, itemCount: 0 } as CartState;
+      return buildCartState([]);
+    
+    case 'HYDRATE':
+      return action.payload;
     
     default:
       return state;
@@ -54,20 +91,36 @@ function cartReducer(state: CartState, action: CartAction): CartState {
 }
 
 export function CartProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(cartReducer, {
-    items: [],
-    total: 0,
-    itemCount: 0
-  });
-
-  const addItem = (product: Product) => {
-    dispatch({ type: 'ADD_ITEM', payload: product });
+  const [state, dispatch] = useReducer(cartReducer, undefined, loadCart);
+
+  useEffect(() => {
+    saveCart(state);
+  }, [state]);
+
+  // Another tab changed the cart - adopt its state so both tabs show the same order
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== CART_STORAGE_KEY) return;
+      dispatch({ type: 'HYDRATE', payload: parseCart(e.newValue) });
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const addItem = (product: Product, quantity = 1) => {
+    if (quantity < 1) return;
+    dispatch({ type: 'ADD_ITEM', payload: { product, quantity } });
   };
 
   const removeItem = (id: number) => {
     dispatch({ type: 'REMOVE_ITEM', payload: id });
   };
 
+  const restoreItem = (item: CartItem, index: number) => {
+    dispatch({ type: 'RESTORE_ITEM', payload: { item, index } });
+  };
+
   const updateQuantity = (id: number, quantity: number) => {
     dispatch({ type: 'UPDATE_QUANTITY', payload: { id, quantity } });
   };
@@ -76,13 +129,45 @@ export function CartProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'CLEAR_CART' });
   };
 
+  const syncStock = (catalog: Product[]) => {
+    dispatch({ type: 'SYNC_STOCK', payload: catalog });
+  };
+
+  const applyPromoCode = (code: string): PromoCodeResult => {
+    const normalized = normalizeCode(code);
+    const promotion = findPromotion(normalized);
+
+    if (!promotion) {
+      return { ok: false, error: 'invalid', code: normalized };
+    }
+    if (state.promoCodes.includes(promotion.code)) {
+      return { ok: false, error: 'already-applied', code: promotion.code };
+    }
+
+    const result = evaluatePromotion(promotion, state.items);
+    if (!result.eligible) {
+      return { ok: false, error: result.reason, code: promotion.code };
+    }
+
+    dispatch({ type: 'APPLY_PROMO_CODE', payload: promotion.code });
+    return { ok: true };
+  };
+
+  const removePromoCode = (code: string) => {
+    dispatch({ type: 'REMOVE_PROMO_CODE', payload: code });
+  };
+
   return (
     <CartContext.Provider value={{
       ...state,
       addItem,
       removeItem,
+      restoreItem,
       updateQuantity,
-      clearCart
+      clearCart,
+      syncStock,
+      applyPromoCode,
+      removePromoCode
     }}>
       {children}
     </CartContext.Provider>
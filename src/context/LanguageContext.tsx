@@ -0,0 +1,46 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { LanguageContext } from './language';
+import { catalogs, type TranslationKey } from '../i18n/catalogs';
+import {
+  DEFAULT_LANGUAGE,
+  formatMessage,
+  isLanguage,
+  type Language,
+  type TranslationParams,
+} from '../i18n/translate';
+import { readJSON, storageKey, writeJSON } from '../lib/storage';
+
+const LANGUAGE_KEY = storageKey('language');
+
+// A saved choice wins; otherwise use the first browser language we support
+function initialLanguage(): Language {
+  const saved = readJSON<unknown>(LANGUAGE_KEY, null);
+  if (isLanguage(saved)) return saved;
+
+  const preferred = navigator.languages
+    .map((tag) => tag.split('-')[0].toLowerCase())
+    .find(isLanguage);
+  return preferred ?? DEFAULT_LANGUAGE;
+}
+
+export function LanguageProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(initialLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = (next: Language) => {
+    writeJSON(LANGUAGE_KEY, next);
+    setLanguageState(next);
+  };
+
+  const t = (key: TranslationKey, params?: TranslationParams) =>
+    formatMessage(language, catalogs[language][key] ?? catalogs[DEFAULT_LANGUAGE][key], params);
+
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { OrdersContext } from './orders';
+import type { CartState } from './cart';
+import {
+  ORDERS_STORAGE_KEY,
+  createOrder,
+  loadOrders,
+  saveOrders,
+  withHistory,
+  withStatus,
+  type Order,
+  type OrderDetails,
+} from '../services/orderStore';
+import { useAuth } from '../hooks/useAuth';
+import { useOrderStatusFeed } from '../hooks/useOrderStatusFeed';
+import { isStaff } from '../lib/staff';
+import { currentStatus, nextStatuses, type OrderStatus, type OrderStatusUpdate } from '../lib/orderStatus';
+import { refundPayment } from '../services/checkoutPayment';
+import { liveOrderUpdatesEnabled, publishOrderStatus } from '../services/orderEvents';
+import type { Payment } from '../services/paymentProvider';
+
+const newestFirst = (a: Order, b: Order) => b.createdAt.localeCompare(a.createdAt);
+
+export function OrdersProvider({ children }: { children: ReactNode }) {
+  const [allOrders, setAllOrders] = useState<readonly Order[]>(loadOrders);
+  const { user } = useAuth();
+
+  // Customers only ever see their own orders, newest first
+  const orders = user
+    ? allOrders
+        .filter(order => order.userId === user.id)
+        .sort(newestFirst)
+    : [];
+
+  // Staff update orders from another tab; pick their changes up as they land
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === ORDERS_STORAGE_KEY) setAllOrders(loadOrders());
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Follow the customer's orders that can still change
+  const liveUpdates = useOrderStatusFeed(
+    orders
+      .filter(order => nextStatuses(currentStatus(order.history), order.details?.fulfilment ?? null).length > 0)
+      .map(order => order.id),
+    ({ orderId, history }: OrderStatusUpdate) => {
+      const latest = loadOrders();
+      const order = latest.find(order => order.id === orderId);
+      // Stale and replayed updates, like the catch-up sent on every reconnect, are dropped here
+      const updated = order && withHistory(order, history);
+      if (!updated) return;
+
+      const nextOrders = latest.map(order => (order.id === orderId ? updated : order));
+      saveOrders(nextOrders);
+      setAllOrders(nextOrders);
+    }
+  );
+
+  const placeOrder = (cart: CartState, details: OrderDetails, payment: Payment | null = null) => {
+    const order = createOrder(cart, user?.id ?? null, details, payment);
+    const nextOrders = [...allOrders, order];
+    saveOrders(nextOrders);
+    setAllOrders(nextOrders);
+    return order;
+  };
+
+  const getOrder = (id: string) => {
+    return orders.find(order => order.id === id);
+  };
+
+  const updateStatus = async (id: string, status: OrderStatus) => {
+    const order = allOrders.find(order => order.id === id);
+    if (!order) {
+      throw new Error(`Unknown order ${id}`);
+    }
+
+    // Check the move before touching the payment so an illegal refund never reaches the provider
+    withStatus(order, status);
+    const payment = status === 'refunded' && order.payment ? await refundPayment(order.payment) : order.payment;
+
+    // Re-read storage: the refund took a while and another tab may have saved since
+    const latest = loadOrders();
+    const updated = withStatus(latest.find(order => order.id === id) ?? order, status, payment);
+    const nextOrders = latest.map(order => (order.id === id ? updated : order));
+    saveOrders(nextOrders);
+    setAllOrders(nextOrders);
+
+    if (liveOrderUpdatesEnabled && user) {
+      await publishOrderStatus(user.email, updated);
+    }
+    return updated;
+  };
+
+  return (
+    <OrdersContext.Provider value={{
+      orders,
+      allOrders: isStaff(user) ? [...allOrders].sort(newestFirst) : [],
+      placeOrder,
+      getOrder,
+      updateStatus,
+      liveUpdates
+    }}>
+      {children}
+    </OrdersContext.Provider>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { ReviewsContext } from './reviews';
+import { useAuth } from '../hooks/useAuth';
+import { useOrders } from '../hooks/useOrders';
+import {
+  authorName,
+  compareReviews,
+  hasReceived,
+  ratingSummaries,
+  type Rating,
+  type Review,
+  type ReviewStatus,
+} from '../lib/reviews';
+import { TranslatableError } from '../lib/errors';
+import { isStaff } from '../lib/staff';
+import { REVIEWS_STORAGE_KEY, loadReviews, saveReviews } from '../services/reviewStore';
+
+const NO_RATINGS = { average: null, count: 0 };
+
+export function ReviewsProvider({ children }: { children: ReactNode }) {
+  const [reviews, setReviews] = useState<readonly Review[]>(loadReviews);
+  const { user } = useAuth();
+  const { orders } = useOrders();
+
+  // Reviews written or moderated in another tab
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === REVIEWS_STORAGE_KEY) setReviews(loadReviews());
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const update = (nextReviews: readonly Review[]) => {
+    saveReviews(nextReviews);
+    setReviews(nextReviews);
+  };
+
+  const findReview = (reviewId: string) => {
+    const review = reviews.find(review => review.id === reviewId);
+    if (!review) {
+      throw new TranslatableError('reviews.error.unknown', `Unknown review ${reviewId}`);
+    }
+    return review;
+  };
+
+  const replace = (updated: Review) => update(reviews.map(review => (review.id === updated.id ? updated : review)));
+
+  const ratings = ratingSummaries(reviews);
+
+  const ownReview = (productId: number) =>
+    user ? reviews.find(review => review.productId === productId && review.userId === user.id) : undefined;
+
+  const reviewsFor = (productId: number) =>
+    reviews
+      .filter(review => review.productId === productId && (review.status === 'approved' || review.userId === user?.id))
+      .sort(compareReviews);
+
+  const canReview = (productId: number) => user !== null && hasReceived(productId, orders);
+
+  const submitReview = (productId: number, rating: Rating, body: string) => {
+    if (!user || !canReview(productId)) {
+      throw new TranslatableError('reviews.notEligible', 'Only customers who have received this dessert can review it');
+    }
+
+    const existing = ownReview(productId);
+    const review: Review = {
+      id: existing?.id ?? crypto.randomUUID(),
+      productId,
+      userId: user.id,
+      authorName: authorName(user.firstName, user.lastName),
+      rating,
+      body: body.trim(),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      moderatedAt: null,
+      // Votes were for what the review used to say
+      helpfulVoters: [],
+    };
+
+    update(existing ? reviews.map(other => (other.id === existing.id ? review : other)) : [...reviews, review]);
+    return review;
+  };
+
+  const toggleHelpful = (reviewId: string) => {
+    const review = findReview(reviewId);
+    if (!user || review.userId === user.id) {
+      throw new TranslatableError('reviews.error.vote', "Sign in to vote on other customers' reviews");
+    }
+
+    const voted = review.helpfulVoters.includes(user.id);
+    replace({
+      ...review,
+      helpfulVoters: voted ? review.helpfulVoters.filter(voter => voter !== user.id) : [...review.helpfulVoters, user.id],
+    });
+  };
+
+  const moderate = (reviewId: string, status: ReviewStatus) => {
+    if (!isStaff(user)) {
+      throw new TranslatableError('admin.reviews.staffOnly', 'Only staff can moderate reviews');
+    }
+    replace({ ...findReview(reviewId), status, moderatedAt: status === 'pending' ? null : new Date().toISOString() });
+  };
+
+  return (
+    <ReviewsContext.Provider value={{
+      reviews: [...reviews].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+      ratings,
+      ratingFor: productId => ratings.get(productId) ?? NO_RATINGS,
+      reviewsFor,
+      ownReview,
+      canReview,
+      submitReview,
+      toggleHelpful,
+      moderate
+    }}>
+      {children}
+    </ReviewsContext.Provider>
+  );
+}
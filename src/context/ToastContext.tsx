@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { ToastContext, type Toast, type ToastOptions } from './toast';
+
+const DEFAULT_DURATION = 4000;
+// Toasts with an action stay long enough to reach for the button
+const ACTION_DURATION = 8000;
+// Older toasts make way once this many are on screen
+const MAX_TOASTS = 3;
+
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach((timer) => clearTimeout(timer));
+      pending.clear();
+    };
+  }, []);
+
+  const dismissToast = (id: number) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  };
+
+  const showToast = ({ message, variant = 'info', action, duration }: ToastOptions) => {
+    const id = nextId.current++;
+    const toast: Toast = {
+      id,
+      message,
+      variant,
+      action,
+      duration: duration ?? (action ? ACTION_DURATION : DEFAULT_DURATION),
+    };
+
+    setToasts((prev) => [...prev, toast].slice(-MAX_TOASTS));
+    timers.current.set(id, setTimeout(() => dismissToast(id), toast.duration));
+    return id;
+  };
+
+  return (
+    <ToastContext.Provider value={{ toasts, showToast, dismissToast }}>
+      {children}
+    </ToastContext.Provider>
+  );
+}
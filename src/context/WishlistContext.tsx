@@ -0,0 +1,40 @@
+import { useEffect, useSyncExternalStore, type ReactNode } from 'react';
+import { WishlistContext } from './wishlist';
+import { useAuth } from '../hooks/useAuth';
+import { loadWishlist, mergeGuestWishlist, saveWishlist, subscribeToWishlists } from '../services/wishlistStore';
+
+export function WishlistProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const saved = useSyncExternalStore(subscribeToWishlists, () => loadWishlist(userId));
+
+  // Signing in brings along anything favourited while signed out
+  useEffect(() => {
+    if (userId) mergeGuestWishlist(userId);
+  }, [userId]);
+
+  const isSaved = (productId: number) => saved.some(entry => entry.productId === productId);
+
+  const remove = (productId: number) => {
+    saveWishlist(userId, saved.filter(entry => entry.productId !== productId));
+  };
+
+  const toggle = (productId: number) => {
+    if (isSaved(productId)) {
+      remove(productId);
+    } else {
+      saveWishlist(userId, [...saved, { productId, addedAt: new Date().toISOString() }]);
+    }
+  };
+
+  return (
+    <WishlistContext.Provider value={{
+      entries: [...saved].sort((a, b) => b.addedAt.localeCompare(a.addedAt)),
+      isSaved,
+      toggle,
+      remove
+    }}>
+      {children}
+    </WishlistContext.Provider>
+  );
+}
@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+import type { NewUser, User } from '../services/userStore';
+
+export interface LoginOptions {
+  remember?: boolean;
+}
+
+export interface AuthContextType {
+  user: User | null;
+  isAuthenticated: boolean;
+  login: (email: string, password: string, options?: LoginOptions) => Promise<User>;
+  register: (details: NewUser) => Promise<User>;
+  logout: () => void;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -1,5 +1,11 @@
 import { createContext } from 'react';
 import type { Product } from '../data/products';
+import { findPromotion } from '../data/promotions';
+import { pricingConfig } from '../data/pricing';
+import type { IneligibleReason, Promotion } from '../lib/discounts';
+import type { Fulfilment } from '../lib/fulfilment';
+import { calculatePrice, type PriceBreakdown } from '../lib/pricing';
+import type { Money } from '../lib/money';
 
 export interface CartItem extends Product {
   quantity: number;
@@ -7,21 +13,63 @@ export interface CartItem extends Product {
 
 export interface CartState {
   items: CartItem[];
-  total: number;
+  promoCodes: string[];
+  pricing: PriceBreakdown;
+  total: Money;
   itemCount: number;
 }
 
+export type PromoCodeError = 'invalid' | 'already-applied' | IneligibleReason;
+
+export type PromoCodeResult = { ok: true } | { ok: false; error: PromoCodeError; code: string };
+
 export type CartAction =
-  | { type: 'ADD_ITEM'; payload: Product }
+  | { type: 'ADD_ITEM'; payload: { product: Product; quantity: number } }
   | { type: 'REMOVE_ITEM'; payload: number }
+  | { type: 'RESTORE_ITEM'; payload: { item: CartItem; index: number } }
   | { type: 'UPDATE_QUANTITY'; payload: { id: number; quantity: number } }
-  | { type: 'CLEAR_CART' };
+  | { type: 'APPLY_PROMO_CODE'; payload: string }
+  | { type: 'REMOVE_PROMO_CODE'; payload: string }
+  | { type: 'SYNC_STOCK'; payload: Product[] }
+  | { type: 'CLEAR_CART' }
+  | { type: 'HYDRATE'; payload: CartState };
+
+// Discounts are re-priced on every change, so `total` always reflects the
+// codes that currently qualify; codes that stop qualifying stay in
+// `promoCodes` and start applying again once the cart meets their rules.
+// The cart itself is priced for delivery; checkout re-prices it for pickup.
+export function buildCartState(
+  items: CartItem[],
+  promoCodes: string[] = [],
+  fulfilment: Fulfilment = 'delivery'
+): CartState {
+  const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+
+  const promotions = promoCodes
+    .map(code => findPromotion(code))
+    .filter((promotion): promotion is Promotion => promotion !== undefined);
+  const pricing = calculatePrice(items, pricingConfig, { promotions, fulfilment });
+
+  return {
+    items,
+    promoCodes: promotions.map(promotion => promotion.code),
+    pricing,
+    total: pricing.total,
+    itemCount
+  };
+}
 
 export interface CartContextType extends CartState {
-  addItem: (product: Product) => void;
+  addItem: (product: Product, quantity?: number) => void;
   removeItem: (id: number) => void;
+  // Undoes a removal: the line goes back where it was, with its quantity
+  restoreItem: (item: CartItem, index: number) => void;
   updateQuantity: (id: number, quantity: number) => void;
   clearCart: () => void;
+  // Adopts fresh stock levels from the catalog, trimming lines that no longer fit
+  syncStock: (catalog: Product[]) => void;
+  applyPromoCode: (code: string) => PromoCodeResult;
+  removePromoCode: (code: string) => void;
 }
 
 export const CartContext = createContext<CartContextType | undefined>(undefined);
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { createContext } from 'react';
+import type { TranslationKey } from '../i18n/catalogs';
+import type { Language, TranslationParams } from '../i18n/translate';
+
+export interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+}
+
+export const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
@@ -0,0 +1,20 @@
+import { createContext } from 'react';
+import type { CartState } from './cart';
+import type { OrderStatus } from '../lib/orderStatus';
+import type { FeedConnection } from '../services/orderEvents';
+import type { Order, OrderDetails } from '../services/orderStore';
+import type { Payment } from '../services/paymentProvider';
+
+export interface OrdersContextType {
+  orders: readonly Order[];
+  // Every customer's orders, newest first, for the staff tools; empty for everyone else
+  allOrders: readonly Order[];
+  placeOrder: (cart: CartState, details: OrderDetails, payment?: Payment | null) => Order;
+  getOrder: (id: string) => Order | undefined;
+  // Moves an order along its lifecycle, refunding its payment on the way to `refunded`
+  updateStatus: (id: string, status: OrderStatus) => Promise<Order>;
+  // How the customer's open orders are being kept up to date
+  liveUpdates: FeedConnection;
+}
+
+export const OrdersContext = createContext<OrdersContextType | undefined>(undefined);
@@ -0,0 +1,20 @@
+import { createContext } from 'react';
+import type { Rating, RatingSummary, Review, ReviewStatus } from '../lib/reviews';
+
+export interface ReviewsContextType {
+  // Every review in every state, newest first, for the staff tools
+  reviews: readonly Review[];
+  // Approved reviews only; products nobody has reviewed have no entry
+  ratings: ReadonlyMap<number, RatingSummary>;
+  ratingFor: (productId: number) => RatingSummary;
+  // What a product page lists: approved reviews plus the visitor's own, whatever its state
+  reviewsFor: (productId: number) => Review[];
+  ownReview: (productId: number) => Review | undefined;
+  canReview: (productId: number) => boolean;
+  // Creates the visitor's review or replaces it; either way it goes back to moderation
+  submitReview: (productId: number, rating: Rating, body: string) => Review;
+  toggleHelpful: (reviewId: string) => void;
+  moderate: (reviewId: string, status: ReviewStatus) => void;
+}
+
+export const ReviewsContext = createContext<ReviewsContextType | undefined>(undefined);
@@ -0,0 +1,35 @@
+import { createContext } from 'react';
+
+export type ToastVariant = 'success' | 'error' | 'info';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  message: string;
+  variant?: ToastVariant;
+  action?: ToastAction;
+  // Milliseconds before the toast goes away on its own
+  duration?: number;
+}
+
+export interface Toast extends Required<Omit<ToastOptions, 'action'>> {
+  id: number;
+  action?: ToastAction;
+}
+
+// Pages that redirect pass `{ state: { message } }`; the toaster on the
+// destination page shows it once and drops it from history
+export interface FlashState {
+  message?: string;
+}
+
+export interface ToastContextType {
+  toasts: Toast[];
+  showToast: (options: ToastOptions) => number;
+  dismissToast: (id: number) => void;
+}
+
+export const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+import type { WishlistEntry } from '../services/wishlistStore';
+
+export interface WishlistContextType {
+  // Newest first
+  entries: readonly WishlistEntry[];
+  isSaved: (productId: number) => boolean;
+  // Saves the dessert, or takes it off the list if it was already there
+  toggle: (productId: number) => void;
+  remove: (productId: number) => void;
+}
+
+export const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
@@ -0,0 +1,10 @@
+import type { PricingConfig } from '../lib/pricing';
+import { money } from '../lib/money';
+
+const pricingConfig: PricingConfig = {
+  taxRates: [{ name: 'VAT', percent: 18 }],
+  deliveryFee: money(250),
+  freeDeliveryThreshold: money(3000),
+};
+
+export { pricingConfig };
@@ -1,124 +1,176 @@
+import type { Allergen, DietaryTag } from '../lib/dietary';
+import { money, type Money } from '../lib/money';
+
+export interface ProductImage {
+  desktop: string;
+  tablet: string;
+  mobile: string;
+  thumbnail: string;
+}
+
 export interface Product {
   id: number;
   name: string;
-  price: number;
+  price: Money;
   category: string;
-  image: {
-    desktop: string;
-    tablet: string;
-    mobile: string;
-    thumbnail: string;
-  };
+  image: ProductImage;
+  // Units baked for the day; sales are subtracted by the inventory service
+  stock: number;
+  // Main ingredients, largest first, as shown to shoppers
+  ingredients: string[];
+  // Only the allergens in `ALLERGENS` are tracked; empty means none of those,
+  // null that staff haven't listed them yet
+  allergens: Allergen[] | null;
+  dietary: DietaryTag[];
+  // Withdrawn from sale: hidden from the storefront but kept so past orders,
+  // carts and links still resolve
+  archived?: boolean;
 }
 
 const products: Product[] = [
   {
     id: 1,
     name: "Waffle with Berries",
-    price: 6.50,
+    price: money(650),
     category: "Waffle",
     image: {
       desktop: "/images/image-waffle-desktop.jpg",
       tablet: "/images/image-waffle-tablet.jpg",
       mobile: "/images/image-waffle-mobile.jpg",
       thumbnail: "/images/image-waffle-thumbnail.jpg"
-    }
+    },
+    stock: 12,
+    ingredients: ["flour", "eggs", "milk", "butter", "sugar", "mixed berries"],
+    allergens: ["gluten", "dairy", "egg"],
+    dietary: []
   },
   {
     id: 2,
     name: "Vanilla Bean Crème Brûlée",
-    price: 7.00,
+    price: money(700),
     category: "Crème Brûlée",
     image: {
       desktop: "/images/image-creme-brulee-desktop.jpg",
       tablet: "/images/image-creme-brulee-tablet.jpg",
       mobile: "/images/image-creme-brulee-mobile.jpg",
       thumbnail: "/images/image-creme-brulee-thumbnail.jpg"
-    }
+    },
+    stock: 8,
+    ingredients: ["cream", "egg yolks", "sugar", "vanilla bean"],
+    allergens: ["dairy", "egg"],
+    dietary: ["gluten-free"]
   },
   {
     id: 3,
     name: "Macaron Mix of Five",
-    price: 8.00,
+    price: money(800),
     category: "Macaron",
     image: {
       desktop: "/images/image-macaron-desktop.jpg",
       tablet: "/images/image-macaron-tablet.jpg",
       mobile: "/images/image-macaron-mobile.jpg",
       thumbnail: "/images/image-macaron-thumbnail.jpg"
-    }
+    },
+    stock: 10,
+    ingredients: ["almond flour", "egg whites", "sugar", "butter", "cream"],
+    allergens: ["nuts", "egg", "dairy"],
+    dietary: ["gluten-free"]
   },
   {
     id: 4,
     name: "Classic Tiramisu",
-    price: 5.50,
+    price: money(550),
     category: "Tiramisu",
     image: {
       desktop: "/images/image-tiramisu-desktop.jpg",
       tablet: "/images/image-tiramisu-tablet.jpg",
       mobile: "/images/image-tiramisu-mobile.jpg",
       thumbnail: "/images/image-tiramisu-thumbnail.jpg"
-    }
+    },
+    stock: 3,
+    ingredients: ["mascarpone", "eggs", "ladyfingers", "espresso", "cocoa"],
+    allergens: ["dairy", "egg", "gluten"],
+    dietary: []
   },
   {
     id: 5,
     name: "Pistachio Baklava",
-    price: 4.00,
+    price: money(400),
     category: "Baklava",
     image: {
       desktop: "/images/image-baklava-desktop.jpg",
       tablet: "/images/image-baklava-tablet.jpg",
       mobile: "/images/image-baklava-mobile.jpg",
       thumbnail: "/images/image-baklava-thumbnail.jpg"
-    }
+    },
+    stock: 15,
+    ingredients: ["filo pastry", "pistachios", "butter", "honey"],
+    allergens: ["nuts", "gluten", "dairy"],
+    dietary: []
   },
   {
     id: 6,
     name: "Lemon Meringue Pie",
-    price: 5.00,
+    price: money(500),
     category: "Pie",
     image: {
       desktop: "/images/image-meringue-desktop.jpg",
       tablet: "/images/image-meringue-tablet.jpg",
       mobile: "/images/image-meringue-mobile.jpg",
       thumbnail: "/images/image-meringue-thumbnail.jpg"
-    }
+    },
+    stock: 6,
+    ingredients: ["shortcrust pastry", "lemons", "eggs", "sugar", "butter"],
+    allergens: ["gluten", "dairy", "egg"],
+    dietary: []
   },
   {
     id: 7,
     name: "Red Velvet Cake",
-    price: 4.50,
+    price: money(450),
     category: "Cake",
     image: {
       desktop: "/images/image-cake-desktop.jpg",
       tablet: "/images/image-cake-tablet.jpg",
       mobile: "/images/image-cake-mobile.jpg",
       thumbnail: "/images/image-cake-thumbnail.jpg"
-    }
+    },
+    stock: 0,
+    ingredients: ["flour", "buttermilk", "eggs", "cocoa", "cream cheese frosting"],
+    allergens: ["gluten", "dairy", "egg"],
+    dietary: []
   },
   {
     id: 8,
     name: "Salted Caramel Brownie",
-    price: 4.50,
+    price: money(450),
     category: "Brownie",
     image: {
       desktop: "/images/image-brownie-desktop.jpg",
       tablet: "/images/image-brownie-tablet.jpg",
       mobile: "/images/image-brownie-mobile.jpg",
       thumbnail: "/images/image-brownie-thumbnail.jpg"
-    }
+    },
+    stock: 20,
+    ingredients: ["dark chocolate", "butter", "eggs", "flour", "caramel", "sea salt"],
+    allergens: ["gluten", "dairy", "egg"],
+    dietary: []
   },
   {
     id: 9,
     name: "Vanilla Panna Cotta",
-    price: 6.50,
+    price: money(650),
     category: "Panna Cotta",
     image: {
       desktop: "/images/image-panna-cotta-desktop.jpg",
       tablet: "/images/image-panna-cotta-tablet.jpg",
       mobile: "/images/image-panna-cotta-mobile.jpg",
       thumbnail: "/images/image-panna-cotta-thumbnail.jpg"
-    }
+    },
+    stock: 4,
+    ingredients: ["cream", "sugar", "vanilla", "gelatin"],
+    allergens: ["dairy"],
+    dietary: ["gluten-free"]
   }
 ];
 
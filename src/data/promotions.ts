@@ -0,0 +1,33 @@
+import type { Promotion } from '../lib/discounts';
+import { money } from '../lib/money';
+
+const promotions: Promotion[] = [
+  {
+    code: 'SWEET10',
+    rule: { kind: 'percent', percent: 10 },
+  },
+  {
+    code: 'TREAT5',
+    rule: { kind: 'fixed', amount: money(500) },
+    minSpend: money(2500),
+  },
+  {
+    code: 'MACARON20',
+    rule: { kind: 'category-percent', category: 'Macaron', percent: 20 },
+  },
+  {
+    code: 'BAKLAVA3FOR2',
+    rule: { kind: 'buy-x-get-y', category: 'Baklava', buy: 2, get: 1 },
+  },
+  {
+    code: 'SUMMER25',
+    rule: { kind: 'percent', percent: 25 },
+    expiresAt: '2025-09-01T00:00:00Z',
+  },
+];
+
+export function findPromotion(code: string) {
+  return promotions.find(promotion => promotion.code === code);
+}
+
+export { promotions };
@@ -0,0 +1,4 @@
+// Accounts registered with one of these addresses get the staff tools
+const staffEmails: readonly string[] = ['staff@dessertshop.com', 'manager@dessertshop.com'];
+
+export { staffEmails };
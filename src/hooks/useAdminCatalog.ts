@@ -0,0 +1,75 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Product } from '../data/products';
+import { productRepository } from '../services/productRepository';
+import { useAuth } from './useAuth';
+
+type CatalogState =
+  | { status: 'loading'; products: Product[]; error: null }
+  | { status: 'success'; products: Product[]; error: null }
+  | { status: 'error'; products: Product[]; error: Error };
+
+// The full catalog for the admin area, archived products included, with the
+// edits staff can make from the list itself
+export function useAdminCatalog() {
+  const { user } = useAuth();
+  const staffEmail = user?.email ?? '';
+  const editor = useMemo(() => productRepository.edit(staffEmail), [staffEmail]);
+  const [state, setState] = useState<CatalogState>({ status: 'loading', products: [], error: null });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    editor
+      .list()
+      .then((products) => {
+        if (!cancelled) setState({ status: 'success', products, error: null });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setState({
+          status: 'error',
+          products: [],
+          error: error instanceof Error ? error : new Error('Failed to load products'),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [editor, attempt]);
+
+  const reload = () => {
+    setState((prev) => ({ status: 'loading', products: prev.products, error: null }));
+    setAttempt((prev) => prev + 1);
+  };
+
+  const setArchived = async (id: number, archived: boolean) => {
+    const updated = await editor.setArchived(id, archived);
+    setState((prev) => ({
+      ...prev,
+      products: prev.products.map((product) => (product.id === id ? updated : product)),
+    }));
+  };
+
+  // Shows the new order straight away and puts the old one back if saving fails
+  const move = async (id: number, offset: -1 | 1) => {
+    const previous = state.products;
+    const from = previous.findIndex((product) => product.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= previous.length) return;
+
+    const next = [...previous];
+    [next[from], next[to]] = [next[to], next[from]];
+    setState((prev) => ({ ...prev, products: next }));
+
+    try {
+      await editor.reorder(next.map((product) => product.id));
+    } catch (error) {
+      setState((prev) => ({ ...prev, products: previous }));
+      throw error;
+    }
+  };
+
+  return { ...state, editor, reload, setArchived, move };
+}
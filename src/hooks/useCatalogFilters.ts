@@ -0,0 +1,41 @@
+import { useSearchParams } from 'react-router-dom';
+import { isSortOption, type CatalogFilters, type SortOption } from '../lib/catalog';
+import { ALLERGENS, isAllergen, type Allergen } from '../lib/dietary';
+
+// Catalog filters live in the URL (?category=Cake&sort=price-asc&q=vanilla&exclude=nuts,gluten)
+// so filtered views can be shared, bookmarked and restored with Back
+export function useCatalogFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const sortParam = searchParams.get('sort');
+  const filters: CatalogFilters = {
+    category: searchParams.get('category'),
+    query: searchParams.get('q') ?? '',
+    sort: isSortOption(sortParam) ? sortParam : 'featured',
+    excludeAllergens: (searchParams.get('exclude') ?? '').split(',').filter(isAllergen),
+  };
+
+  const updateParam = (key: string, value: string | null, options?: { replace?: boolean }) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    }, options);
+  };
+
+  return {
+    ...filters,
+    setCategory: (category: string | null) => updateParam('category', category),
+    // Typing replaces the current entry so Back doesn't step through every keystroke
+    setQuery: (query: string) => updateParam('q', query, { replace: true }),
+    setSort: (sort: SortOption) => updateParam('sort', sort === 'featured' ? null : sort),
+    // Written in `ALLERGENS` order so the same choice always makes the same URL
+    setExcludeAllergens: (allergens: Allergen[]) =>
+      updateParam('exclude', ALLERGENS.filter((allergen) => allergens.includes(allergen)).join(',')),
+    clearFilters: () => setSearchParams({}),
+  };
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import {
+  CHECKOUT_STEPS,
+  EMPTY_CHECKOUT,
+  isCheckoutStep,
+  stepsFor,
+  validateStep,
+  type CheckoutDetails,
+  type CheckoutErrors,
+  type CheckoutStep,
+  type ContactDetails,
+} from '../lib/checkout';
+import { EMPTY_CARD, type CardDetails } from '../lib/cards';
+import { readJSON, removeKey, storageKey, writeJSON } from '../lib/storage';
+
+const CHECKOUT_KEY = storageKey('checkout');
+
+interface CheckoutProgress {
+  step: CheckoutStep;
+  details: CheckoutDetails;
+}
+
+// Session storage keeps the wizard across a refresh without leaving a
+// half-finished address behind once the tab is closed
+function loadProgress(contact: Partial<ContactDetails>): CheckoutProgress {
+  const stored = readJSON<Partial<CheckoutProgress> | null>(CHECKOUT_KEY, null, sessionStorage);
+  if (!stored || !isCheckoutStep(stored.step)) {
+    return {
+      step: 'contact',
+      details: { ...EMPTY_CHECKOUT, contact: { ...EMPTY_CHECKOUT.contact, ...contact } },
+    };
+  }
+
+  const details = stored.details ?? EMPTY_CHECKOUT;
+  return {
+    step: stored.step,
+    details: {
+      ...EMPTY_CHECKOUT,
+      ...details,
+      contact: { ...EMPTY_CHECKOUT.contact, ...details.contact },
+      address: { ...EMPTY_CHECKOUT.address, ...details.address },
+      card: EMPTY_CARD,
+    },
+  };
+}
+
+// Card details stay in memory only; a refresh on the payment step asks for them again
+function saveProgress(progress: CheckoutProgress) {
+  writeJSON(CHECKOUT_KEY, { ...progress, details: { ...progress.details, card: EMPTY_CARD } }, sessionStorage);
+}
+
+type SectionUpdate =
+  | { contact: Partial<ContactDetails> }
+  | { address: Partial<CheckoutDetails['address']> }
+  | { card: Partial<CardDetails> }
+  | Partial<Pick<CheckoutDetails, 'fulfilment' | 'slot' | 'paymentMethod' | 'mobileMoneyPhone'>>;
+
+const capitalize = (field: string) => `${field[0].toUpperCase()}${field.slice(1)}`;
+
+// The error keys each change can clear, matching the names validateStep uses
+function changedFields(change: SectionUpdate) {
+  if ('contact' in change) return Object.keys(change.contact);
+  if ('address' in change) return Object.keys(change.address);
+  if ('card' in change) return Object.keys(change.card).map((field) => `card${capitalize(field)}`);
+  return Object.keys(change);
+}
+
+export function useCheckout(contact: Partial<ContactDetails> = {}) {
+  const [progress, setProgress] = useState(() => loadProgress(contact));
+  const [errors, setErrors] = useState<CheckoutErrors>({});
+  const { step, details } = progress;
+  const steps = stepsFor(details.fulfilment);
+
+  useEffect(() => {
+    saveProgress(progress);
+  }, [progress]);
+
+  // Steps are ordered by the full list so switching to pickup while on the
+  // (now skipped) address step still moves to a sensible neighbour
+  const neighbour = (direction: 1 | -1) => {
+    const position = CHECKOUT_STEPS.indexOf(step);
+    const candidates = direction === 1 ? steps : [...steps].reverse();
+    return candidates.find((candidate) => (CHECKOUT_STEPS.indexOf(candidate) - position) * direction > 0);
+  };
+
+  const update = (change: SectionUpdate) => {
+    setProgress((prev) => ({
+      ...prev,
+      details: {
+        ...prev.details,
+        ...change,
+        contact: 'contact' in change ? { ...prev.details.contact, ...change.contact } : prev.details.contact,
+        address: 'address' in change ? { ...prev.details.address, ...change.address } : prev.details.address,
+        card: 'card' in change ? { ...prev.details.card, ...change.card } : prev.details.card,
+      },
+    }));
+
+    const fields = changedFields(change);
+    if (fields.some((field) => errors[field])) {
+      setErrors((prev) => Object.fromEntries(Object.entries(prev).filter(([field]) => !fields.includes(field))));
+    }
+  };
+
+  // Returns whether the step was valid so callers can focus the first error
+  const next = () => {
+    // Review re-checks everything; send the customer back to the first step
+    // that no longer passes (e.g. card details dropped by a refresh)
+    if (step === 'review') {
+      const invalid = steps.find((other) => other !== 'review' && Object.keys(validateStep(other, details)).length > 0);
+      if (invalid) {
+        setErrors(validateStep(invalid, details));
+        setProgress((prev) => ({ ...prev, step: invalid }));
+        return false;
+      }
+    }
+
+    const stepErrors = validateStep(step, details);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length > 0) return false;
+
+    const following = neighbour(1);
+    if (following) setProgress((prev) => ({ ...prev, step: following }));
+    return true;
+  };
+
+  const back = () => {
+    const previous = neighbour(-1);
+    setErrors({});
+    if (previous) setProgress((prev) => ({ ...prev, step: previous }));
+  };
+
+  // Only earlier steps can be revisited directly; later ones must be earned
+  const goTo = (target: CheckoutStep) => {
+    if (steps.includes(target) && CHECKOUT_STEPS.indexOf(target) < CHECKOUT_STEPS.indexOf(step)) {
+      setErrors({});
+      setProgress((prev) => ({ ...prev, step: target }));
+    }
+  };
+
+  const reset = () => {
+    removeKey(CHECKOUT_KEY, sessionStorage);
+  };
+
+  return {
+    step,
+    steps,
+    details,
+    errors,
+    isFirstStep: step === steps[0],
+    update,
+    next,
+    back,
+    goTo,
+    reset,
+  };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import type { ContactMessage } from '../lib/contact';
+import { listContactMessages, setMessageResolved } from '../services/contactMessages';
+import { useAuth } from './useAuth';
+
+type InboxState =
+  | { status: 'loading'; messages: ContactMessage[]; error: null }
+  | { status: 'success'; messages: ContactMessage[]; error: null }
+  | { status: 'error'; messages: ContactMessage[]; error: Error };
+
+export function useContactInbox() {
+  const { user } = useAuth();
+  const staffEmail = user?.email ?? '';
+  const [state, setState] = useState<InboxState>({ status: 'loading', messages: [], error: null });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listContactMessages(staffEmail)
+      .then((messages) => {
+        if (!cancelled) setState({ status: 'success', messages, error: null });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setState({
+          status: 'error',
+          messages: [],
+          error: error instanceof Error ? error : new Error('Failed to load messages'),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [staffEmail, attempt]);
+
+  const reload = () => {
+    setState((prev) => ({ status: 'loading', messages: prev.messages, error: null }));
+    setAttempt((prev) => prev + 1);
+  };
+
+  const setResolved = async (id: string, resolved: boolean) => {
+    const updated = await setMessageResolved(staffEmail, id, resolved);
+    setState((prev) => ({
+      ...prev,
+      messages: prev.messages.map((message) => (message.id === id ? updated : message)),
+    }));
+  };
+
+  return { ...state, reload, setResolved };
+}
@@ -0,0 +1,204 @@
+import { useId, useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import type { TranslationKey } from '../i18n/catalogs';
+import { TranslatableError } from '../lib/errors';
+import {
+  validateField,
+  validateFieldAsync,
+  type FieldError,
+  type FormSchema,
+} from '../lib/validation';
+import { useTranslation } from './useTranslation';
+
+type KeysOfType<TValues, TValue> = {
+  [K in keyof TValues]: TValues[K] extends TValue ? K : never;
+}[keyof TValues];
+
+type FieldFlags<TValues> = Partial<Record<keyof TValues, boolean>>;
+type FieldErrors<TValues> = Partial<Record<keyof TValues, FieldError>>;
+
+interface UseFormOptions<TValues> {
+  initialValues: TValues;
+  schema: FormSchema<TValues>;
+  onSubmit: (values: TValues) => Promise<void> | void;
+  // Shown when `onSubmit` throws something that isn't an Error
+  failureMessage?: TranslationKey;
+}
+
+// Form state plus validation: errors appear once a field has been left (or
+// the form submitted), then track every keystroke so they clear as soon as
+// the input is fixed. Field ids are namespaced so a page and a modal can both
+// render an "email" field without clashing labels.
+export function useForm<TValues extends Record<keyof TValues, string | boolean>>({
+  initialValues,
+  schema,
+  onSubmit,
+  failureMessage = 'validation.submitFailed',
+}: UseFormOptions<TValues>) {
+  const { t } = useTranslation();
+  const formId = useId();
+  const [values, setValues] = useState(initialValues);
+  const [errors, setErrors] = useState<FieldErrors<TValues>>({});
+  const [touched, setTouched] = useState<FieldFlags<TValues>>({});
+  const [validating, setValidating] = useState<FieldFlags<TValues>>({});
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  // Bumped per field so a slow async check can't overwrite a newer result
+  const asyncRuns = useRef<Partial<Record<keyof TValues, number>>>({});
+
+  const names = Object.keys(initialValues) as (keyof TValues)[];
+  const fieldId = (name: keyof TValues) => `${formId}-${String(name)}`;
+  const errorId = (name: keyof TValues) => `${fieldId(name)}-error`;
+
+  const setError = (name: keyof TValues, error: FieldError | null) => {
+    setErrors((prev) => {
+      if (!error && !prev[name]) return prev;
+      const next = { ...prev };
+      if (error) next[name] = error;
+      else delete next[name];
+      return next;
+    });
+  };
+
+  const runAsync = async (name: keyof TValues, snapshot: TValues) => {
+    if (!schema[name]?.asyncRules?.length) return null;
+
+    const run = (asyncRuns.current[name] ?? 0) + 1;
+    asyncRuns.current[name] = run;
+    setValidating((prev) => ({ ...prev, [name]: true }));
+
+    const error = await validateFieldAsync(schema, name, snapshot);
+    if (asyncRuns.current[name] !== run) return error;
+
+    setValidating((prev) => ({ ...prev, [name]: false }));
+    setError(name, error);
+    return error;
+  };
+
+  const setValue = <K extends keyof TValues>(name: K, value: TValues[K]) => {
+    const next = { ...values, [name]: value };
+    setValues(next);
+    setFormError(null);
+
+    // Any change can affect another field's rules (e.g. confirming a password),
+    // so every field already showing feedback is re-checked
+    names.forEach((field) => {
+      if (touched[field] || isSubmitted) setError(field, validateField(schema, field, next));
+    });
+
+    // A pending async check is for the old value; the next blur starts a fresh one
+    if (validating[name]) {
+      asyncRuns.current[name] = (asyncRuns.current[name] ?? 0) + 1;
+      setValidating((prev) => ({ ...prev, [name]: false }));
+    }
+  };
+
+  const handleBlur = (name: keyof TValues) => {
+    setTouched((prev) => (prev[name] ? prev : { ...prev, [name]: true }));
+    const error = validateField(schema, name, values);
+    setError(name, error);
+    if (!error) void runAsync(name, values);
+  };
+
+  const focusField = (name: keyof TValues) => {
+    document.getElementById(fieldId(name))?.focus();
+  };
+
+  const handleSubmit = async (e?: FormEvent) => {
+    e?.preventDefault();
+    setIsSubmitted(true);
+    setTouched(Object.fromEntries(names.map((name) => [name, true])) as FieldFlags<TValues>);
+    setFormError(null);
+
+    const syncErrors = names.flatMap((name) => {
+      const error = validateField(schema, name, values);
+      return error ? [[name, error] as const] : [];
+    });
+    setErrors(Object.fromEntries(syncErrors) as FieldErrors<TValues>);
+    if (syncErrors.length > 0) {
+      focusField(syncErrors[0][0]);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const asyncErrors = await Promise.all(names.map((name) => runAsync(name, values)));
+      const firstInvalid = names.find((_, index) => asyncErrors[index]);
+      if (firstInvalid !== undefined) {
+        focusField(firstInvalid);
+        return;
+      }
+
+      await onSubmit(values);
+    } catch (error) {
+      if (error instanceof TranslatableError) {
+        setFormError(t(error.key, error.params));
+      } else {
+        setFormError(error instanceof Error ? error.message : t(failureMessage));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const reset = (nextValues: TValues = initialValues) => {
+    asyncRuns.current = {};
+    setValues(nextValues);
+    setErrors({});
+    setTouched({});
+    setValidating({});
+    setIsSubmitted(false);
+    setFormError(null);
+  };
+
+  // Errors stay hidden until the customer has had a chance to fill the field in
+  const error = (name: keyof TValues) => {
+    const fieldError = errors[name];
+    return fieldError && (touched[name] || isSubmitted) ? t(fieldError.key, fieldError.params) : undefined;
+  };
+
+  const ariaProps = (name: keyof TValues) => {
+    const hasError = error(name) !== undefined;
+    return {
+      id: fieldId(name),
+      name: String(name),
+      'aria-invalid': hasError,
+      'aria-describedby': hasError ? errorId(name) : undefined,
+      onBlur: () => handleBlur(name),
+    };
+  };
+
+  // Spread onto an <input> or <textarea>
+  const register = <K extends KeysOfType<TValues, string>>(name: K) => ({
+    ...ariaProps(name),
+    value: values[name] as string,
+    onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setValue(name, e.target.value as TValues[K]),
+  });
+
+  const registerCheckbox = <K extends KeysOfType<TValues, boolean>>(name: K) => ({
+    ...ariaProps(name),
+    type: 'checkbox' as const,
+    checked: values[name] as boolean,
+    onChange: (e: ChangeEvent<HTMLInputElement>) => setValue(name, e.target.checked as TValues[K]),
+  });
+
+  return {
+    values,
+    touched,
+    dirty: Object.fromEntries(names.map((name) => [name, values[name] !== initialValues[name]])) as FieldFlags<TValues>,
+    isDirty: names.some((name) => values[name] !== initialValues[name]),
+    isValidating: names.some((name) => validating[name]),
+    isSubmitting,
+    formError,
+    fieldId,
+    errorId,
+    error,
+    register,
+    registerCheckbox,
+    setValue,
+    setFormError,
+    handleSubmit,
+    reset,
+  };
+}
@@ -0,0 +1,105 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+import { backoffDelay } from '../lib/backoff';
+import { isOrderStatusUpdate, type OrderStatusUpdate } from '../lib/orderStatus';
+import {
+  fetchOrderStatuses,
+  liveOrderUpdatesEnabled,
+  orderEventsUrl,
+  type FeedConnection,
+} from '../services/orderEvents';
+
+const POLL_INTERVAL_MS = 15_000;
+
+// Failed connection attempts in a row before polling fills the gap
+const FAILURES_BEFORE_POLLING = 3;
+
+// Passes every status change to `orderIds` on to `onUpdate`. Listens to the
+// event server while it is up and reconnects with backoff when it drops;
+// if that keeps failing it polls until the stream is back.
+export function useOrderStatusFeed(
+  orderIds: readonly string[],
+  onUpdate: (update: OrderStatusUpdate) => void
+): FeedConnection {
+  const [connection, setConnection] = useState<Exclude<FeedConnection, 'off'>>('connecting');
+  const handleUpdate = useEffectEvent(onUpdate);
+  // Order ids never contain commas, and a string keeps the effect from
+  // restarting every time the caller builds a new array
+  const watched = orderIds.join(',');
+
+  useEffect(() => {
+    if (!liveOrderUpdatesEnabled || !watched) return;
+
+    const ids = watched.split(',');
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let failures = 0;
+    let stopped = false;
+
+    // Only well-formed updates for orders being watched get through
+    const receive = (update: unknown) => {
+      if (isOrderStatusUpdate(update) && ids.includes(update.orderId)) handleUpdate(update);
+    };
+
+    const poll = () => {
+      fetchOrderStatuses(ids)
+        .then((updates) => {
+          if (stopped || !Array.isArray(updates)) return;
+          updates.forEach(receive);
+        })
+        // The next poll or reconnect tries again
+        .catch(() => undefined);
+    };
+
+    const startPolling = () => {
+      setConnection('polling');
+      if (pollTimer !== undefined) return;
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    };
+
+    const connect = () => {
+      source = new EventSource(orderEventsUrl(ids));
+      source.onopen = () => {
+        failures = 0;
+        stopPolling();
+        setConnection('live');
+      };
+      source.addEventListener('status', (event) => {
+        let update: unknown;
+        try {
+          update = JSON.parse(event.data);
+        } catch {
+          // A garbled event - the next snapshot or update carries the same history
+          return;
+        }
+        receive(update);
+      });
+      // EventSource would retry at a fixed pace on its own; take over so the gaps grow
+      source.onerror = () => {
+        source?.close();
+        failures += 1;
+        if (failures >= FAILURES_BEFORE_POLLING) startPolling();
+        else setConnection('connecting');
+        retryTimer = setTimeout(connect, backoffDelay(failures));
+      };
+    };
+
+    if (typeof EventSource === 'undefined') startPolling();
+    else connect();
+
+    return () => {
+      stopped = true;
+      source?.close();
+      clearTimeout(retryTimer);
+      stopPolling();
+    };
+  }, [watched]);
+
+  return liveOrderUpdatesEnabled && watched ? connection : 'off';
+}
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { OrdersContext } from '../context/orders';
+
+export function useOrders() {
+  const context = useContext(OrdersContext);
+  if (!context) {
+    throw new Error('useOrders must be used within OrdersProvider');
+  }
+  return context;
+}
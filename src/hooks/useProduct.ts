@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import type { Product } from '../data/products';
+import { productRepository } from '../services/productRepository';
+
+type ProductState =
+  | { status: 'loading'; product: null; error: null }
+  | { status: 'success'; product: Product | null; error: null }
+  | { status: 'error'; product: null; error: Error };
+
+const LOADING: ProductState = { status: 'loading', product: null, error: null };
+const NOT_FOUND: ProductState = { status: 'success', product: null, error: null };
+
+interface LoadedProduct {
+  id: number;
+  state: ProductState;
+}
+
+export function useProduct(id: number) {
+  const [loaded, setLoaded] = useState<LoadedProduct | null>(null);
+
+  useEffect(() => {
+    if (!Number.isInteger(id)) return;
+
+    let cancelled = false;
+
+    productRepository
+      .get(id)
+      .then((product) => {
+        if (!cancelled) setLoaded({ id, state: { status: 'success', product: product ?? null, error: null } });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setLoaded({
+          id,
+          state: {
+            status: 'error',
+            product: null,
+            error: error instanceof Error ? error : new Error('Failed to load product'),
+          },
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // Ids that can't exist never hit the repository
+  if (!Number.isInteger(id)) {
+    return NOT_FOUND;
+  }
+
+  // Until the effect for a new id settles, the previous product is stale
+  return loaded?.id === id ? loaded.state : LOADING;
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import type { Product } from '../data/products';
+import { productRepository } from '../services/productRepository';
+
+type ProductsState =
+  | { status: 'loading'; products: Product[]; error: null }
+  | { status: 'success'; products: Product[]; error: null }
+  | { status: 'error'; products: Product[]; error: Error };
+
+export function useProducts() {
+  const [state, setState] = useState<ProductsState>({ status: 'loading', products: [], error: null });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    productRepository
+      .list()
+      .then((products) => {
+        if (!cancelled) setState({ status: 'success', products, error: null });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setState({
+          status: 'error',
+          products: [],
+          error: error instanceof Error ? error : new Error('Failed to load products'),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attempt]);
+
+  const reload = () => {
+    setState((prev) => ({ status: 'loading', products: prev.products, error: null }));
+    setAttempt((prev) => prev + 1);
+  };
+
+  return { ...state, reload };
+}
@@ -0,0 +1,17 @@
+import { useLocation, type Location } from 'react-router-dom';
+
+interface RedirectState {
+  from?: Location;
+}
+
+// Where to send the user after signing in: the protected page RequireAuth
+// bounced them from, or the fallback when they came to the form directly
+export function useRedirectBack(fallback = '/dashboard') {
+  const location = useLocation();
+  const from = (location.state as RedirectState | null)?.from;
+
+  return {
+    redirectTo: from ? `${from.pathname}${from.search}${from.hash}` : fallback,
+    from,
+  };
+}
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { ReviewsContext } from '../context/reviews';
+
+export function useReviews() {
+  const context = useContext(ReviewsContext);
+  if (!context) {
+    throw new Error('useReviews must be used within ReviewsProvider');
+  }
+  return context;
+}
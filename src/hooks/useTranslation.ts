@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { LanguageContext } from '../context/language';
+
+export function useTranslation() {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error('useTranslation must be used within LanguageProvider');
+  }
+  return context;
+}
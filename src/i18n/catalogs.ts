@@ -0,0 +1,16 @@
+import type { Language, Message } from './translate';
+import en from './locales/en';
+import fr from './locales/fr';
+import rw from './locales/rw';
+
+// English is the source catalog: its keys define what every other language
+// must translate, so a missing key is a type error rather than a blank label
+export type TranslationKey = keyof typeof en;
+export type Catalog = Record<TranslationKey, Message>;
+
+export const catalogs: Record<Language, Catalog> = { en, fr, rw };
+
+// For keys that arrive from outside the app, such as API error responses
+export function isTranslationKey(value: unknown): value is TranslationKey {
+  return typeof value === 'string' && Object.hasOwn(en, value);
+}
@@ -0,0 +1,537 @@
+const en = {
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.contact': 'Contact',
+  'nav.brand': 'Dessert Shop',
+  'nav.profile': 'Profile',
+  'nav.orders': 'Orders',
+  'nav.inbox': 'Inbox',
+  'nav.products': 'Products',
+  'nav.manageOrders': 'Manage orders',
+  'nav.reviews': 'Reviews',
+  'nav.wishlist': { one: 'Wishlist, {{count}} dessert saved', other: 'Wishlist, {{count}} desserts saved' },
+  'nav.logout': 'Logout',
+  'nav.signIn': 'Sign In',
+  'nav.signUp': 'Sign Up',
+  'nav.createAccount': 'Create Account',
+  'nav.language': 'Language',
+
+  'home.title': 'Desserts',
+  'home.loading': 'Loading desserts',
+  'home.error.title': "We couldn't load the desserts",
+  'home.error.retry': 'Try Again',
+  'home.empty.title': 'No desserts yet',
+  'home.empty.body': 'Our kitchen is restocking. Please check back soon!',
+  'home.noMatches.title': 'No desserts match your filters',
+  'home.noMatches.body': 'Try a different search or category.',
+  'home.noMatches.clear': 'Clear Filters',
+
+  'filters.search': 'Search desserts',
+  'filters.sort': 'Sort desserts',
+  'filters.category': 'Filter by category',
+  'filters.all': 'All',
+  'filters.excludeAllergens': 'Free from:',
+  'sort.featured': 'Featured',
+  'sort.top-rated': 'Top Rated',
+  'sort.price-asc': 'Price: Low to High',
+  'sort.price-desc': 'Price: High to Low',
+  'sort.name-asc': 'Name: A to Z',
+  'sort.name-desc': 'Name: Z to A',
+
+  'allergen.nuts': 'Nuts',
+  'allergen.gluten': 'Gluten',
+  'allergen.dairy': 'Dairy',
+  'allergen.egg': 'Egg',
+  'allergen.contains': 'Contains: {{allergen}}',
+  'allergen.unlisted': 'Allergens not listed',
+  'diet.vegan': 'Vegan',
+  'diet.gluten-free': 'Gluten-free',
+  'dietary.label': 'Dietary and allergen information',
+
+  'product.addToCart': 'Add to Cart',
+  'product.decrease': 'Decrease quantity',
+  'product.increase': 'Increase quantity',
+  'product.back': 'All desserts',
+  'product.inCart': { one: 'You have <strong>{{count}}</strong> in your cart.', other: 'You have <strong>{{count}}</strong> in your cart.' },
+  'product.lowStock': { one: 'Only {{count}} left', other: 'Only {{count}} left' },
+  'product.soldOut': 'Sold out',
+  'product.related': 'Related Desserts',
+  'product.ingredients': 'Ingredients',
+  'product.notFound.title': 'Dessert Not Found',
+  'product.notFound.body': "This dessert isn't on our menu. It may have been retired or the link is incorrect.",
+  'product.notFound.browse': 'Browse Desserts',
+  'product.error.title': "We couldn't load this dessert",
+  'product.error.back': 'Back to all desserts',
+
+  'wishlist.title': 'Your Wishlist',
+  'wishlist.empty': "You haven't saved any desserts yet. Tap the heart on one you like.",
+  'wishlist.browse': 'Browse Desserts',
+  'wishlist.loading': 'Loading your wishlist…',
+  'wishlist.retry': 'Try again',
+  'wishlist.loadFailed': "We couldn't load your saved desserts.",
+  'wishlist.moveToCart': 'Move to cart',
+  'wishlist.moved': '{{name}} moved to your cart.',
+  'wishlist.save': 'Save {{name}} to your wishlist',
+  'wishlist.remove': 'Remove {{name}} from your wishlist',
+
+  'reviews.title': 'Reviews',
+  'reviews.average': 'Rated {{average}} out of 5',
+  'reviews.summary': { one: '{{average}} · {{count}} review', other: '{{average}} · {{count}} reviews' },
+  'reviews.none': 'No reviews yet',
+  'reviews.empty': 'No reviews yet. Customers who have received this dessert can be the first to review it.',
+  'reviews.signIn': "Sign in to review desserts you've ordered.",
+  'reviews.notEligible': "You can review this dessert once you've received an order with it.",
+  'reviews.write': 'Write a review',
+  'reviews.edit': 'Edit your review',
+  'reviews.helpful': { one: 'Helpful ({{count}})', other: 'Helpful ({{count}})' },
+  'reviews.submitted': "Thanks! Your review will appear once it's approved.",
+  'reviews.status.pending': 'Awaiting moderation',
+  'reviews.status.approved': 'Approved',
+  'reviews.status.rejected': 'Not published',
+  'reviews.form.rating': 'Your rating',
+  'reviews.form.stars': { one: '{{count}} star', other: '{{count}} stars' },
+  'reviews.form.body': 'Your review',
+  'reviews.form.moderation': 'Reviews are checked by our team before they appear.',
+  'reviews.form.submit': 'Submit review',
+  'reviews.form.update': 'Update review',
+  'reviews.form.cancel': 'Cancel',
+  'reviews.error.unknown': 'This review is no longer available.',
+  'reviews.error.vote': "Sign in to vote on other customers' reviews.",
+  'reviews.error.voteFailed': "Couldn't record your vote. Please try again.",
+
+  'cart.title': 'Your Cart ({{count}})',
+  'cart.empty': 'Your added items will appear here',
+  'cart.remove': 'Remove {{name}} from cart',
+  'cart.removed': '{{name}} removed from your cart.',
+  'toast.undo': 'Undo',
+  'toast.dismiss': 'Dismiss notification',
+  'cart.carbonNeutral': 'This is a <strong>carbon-neutral</strong> delivery',
+  'cart.checkout': 'Checkout',
+
+  'promo.label': 'Promo code',
+  'promo.apply': 'Apply',
+  'promo.remove': 'Remove promo code {{code}}',
+  'promo.invalid': "{{code}} isn't a valid promo code",
+  'promo.alreadyApplied': '{{code}} is already applied',
+  'promo.notStarted': "{{code}} isn't active yet",
+  'promo.expired': '{{code}} has expired',
+  'promo.minSpend': 'Spend {{amount}} or more to use {{code}}',
+  'promo.notApplicable': 'Nothing in your cart qualifies for {{code}}',
+  'promo.rule.percent': '{{percent}}% off your order',
+  'promo.rule.fixed': '{{amount}} off',
+  'promo.rule.category-percent': '{{percent}}% off {{category}}',
+  'promo.rule.buy-x-get-y': { one: 'Buy {{buy}} {{category}}, get {{count}} free', other: 'Buy {{buy}} {{category}}, get {{count}} free' },
+  'promo.rule.minSpend': '{{description}} on orders over {{amount}}',
+
+  'pricing.subtotal': 'Subtotal',
+  'pricing.delivery': 'Delivery',
+  'pricing.free': 'Free',
+  'pricing.freeDeliveryHint': 'Add {{amount}} more for free delivery',
+  'pricing.total': 'Order Total',
+
+  'order.confirmed': 'Order Confirmed',
+  'order.enjoy': 'We hope you enjoy your food!',
+  'order.number': 'Order {{id}}',
+  'order.view': 'View Order',
+  'order.startNew': 'Start New Order',
+  'order.slot.delivery': 'Delivery {{slot}}',
+  'order.slot.pickup': 'Pickup {{slot}}',
+  'order.paid': 'Paid online · {{reference}} ({{id}})',
+  'order.status.placed': 'Placed',
+  'order.status.accepted': 'Accepted',
+  'order.status.preparing': 'Preparing',
+  'order.status.ready': 'Ready for pickup',
+  'order.status.out-for-delivery': 'Out for delivery',
+  'order.status.delivered': 'Delivered',
+  'order.status.cancelled': 'Cancelled',
+  'order.status.refunded': 'Refunded',
+
+  'checkout.title': 'Checkout',
+  'checkout.progress': 'Checkout progress',
+  'checkout.stepOf': 'Step {{current}} of {{total}}',
+  'checkout.step.contact': 'Contact',
+  'checkout.step.fulfilment': 'Pickup or Delivery',
+  'checkout.step.address': 'Address',
+  'checkout.step.slot': 'Time Slot',
+  'checkout.step.payment': 'Payment',
+  'checkout.step.review': 'Review',
+  'checkout.back': 'Back',
+  'checkout.continue': 'Continue',
+  'checkout.placeOrder': 'Place Order',
+  'checkout.edit': 'Edit',
+  'checkout.summary': 'Order Summary',
+  'checkout.empty.title': 'Your cart is empty',
+  'checkout.empty.body': 'Add some desserts before checking out.',
+  'checkout.empty.browse': 'Browse Desserts',
+  'checkout.contact.name': 'Full Name',
+  'checkout.contact.email': 'Email',
+  'checkout.contact.phone': 'Phone',
+  'checkout.fulfilment.delivery': 'Delivery',
+  'checkout.fulfilment.deliveryHint': 'We bring your order to your door.',
+  'checkout.fulfilment.pickup': 'Pickup',
+  'checkout.fulfilment.pickupHint': 'Collect your order from our shop at 123 Sweet Street.',
+  'checkout.address.line1': 'Street Address',
+  'checkout.address.line2': 'Apartment, suite, etc. (optional)',
+  'checkout.address.city': 'City',
+  'checkout.address.postalCode': 'Postal Code (optional)',
+  'checkout.address.instructions': 'Delivery Instructions (optional)',
+  'checkout.slot.delivery': 'When should we deliver?',
+  'checkout.slot.pickup': 'When will you collect your order?',
+  'checkout.slot.none': 'No time slots are available right now. Please try again later.',
+  'checkout.payment.card': 'Card',
+  'checkout.payment.cardHint': 'Pay online when you place the order.',
+  'checkout.payment.cashDelivery': 'Cash on delivery',
+  'checkout.payment.cashPickup': 'Pay at pickup',
+  'checkout.payment.cashHint': 'Pay when you receive your order.',
+  'checkout.payment.mobileMoney': 'Mobile money',
+  'checkout.payment.mobileMoneyHint': 'Approve the payment on your phone.',
+  'checkout.payment.processing': 'Processing payment…',
+  'checkout.payment.awaitingApproval': 'We sent a payment request to {{phone}}. Approve it on your phone to finish.',
+  'checkout.payment.cancel': 'Cancel Payment',
+  'checkout.stock.title': "Some desserts sold out while you were checking out. We've updated your cart:",
+  'checkout.stock.low': { one: '{{name}}: only {{count}} left', other: '{{name}}: only {{count}} left' },
+  'checkout.stock.soldOut': '{{name}} is sold out',
+  'checkout.error': "We couldn't place your order. Please try again.",
+  'checkout.allergens.title': 'Your order contains: {{allergens}}',
+  'checkout.allergens.item': '{{name}}: {{allergens}}',
+  'checkout.allergens.unlistedTitle': "Some desserts in your order don't list their allergens",
+  'checkout.allergens.unlistedItem': '{{name}}: allergens not listed',
+  'checkout.allergens.acknowledge': 'I understand my order contains these allergens.',
+  'checkout.allergens.acknowledgeUnlisted': "I understand my order may contain allergens, including ones that aren't listed.",
+  'checkout.allergens.required': "Please confirm you've seen the allergens in your order.",
+  'checkout.payment.cardReference': 'Card {{reference}}',
+  'checkout.payment.mobileMoneyReference': 'Mobile money · {{reference}}',
+  'checkout.card.number': 'Card Number',
+  'checkout.card.expiry': 'Expiry (MM/YY)',
+  'checkout.card.cvc': 'CVC',
+  'checkout.card.name': 'Name on Card',
+  'checkout.card.testHint': 'Test mode: {{approve}} is approved, {{decline}} is declined.',
+  'checkout.mobileMoney.phone': 'Mobile Money Number',
+  'checkout.mobileMoney.testHint': 'Test mode: {{decline}} is declined, {{timeout}} never answers.',
+
+  'payment.failure.declined': 'Your payment was declined. Please try a different payment method.',
+  'payment.failure.insufficient-funds': 'Insufficient funds. Please try a different payment method.',
+  'payment.failure.expired-card': 'This card has expired. Please use a different card.',
+  'payment.failure.invalid-details': 'The payment details are invalid. Please check them and try again.',
+  'payment.failure.timeout': 'The payment request timed out. Please try again.',
+  'payment.failure.cancelled': 'The payment was cancelled.',
+
+  'orders.title': 'Your Orders',
+  'orders.empty': "You haven't placed any orders yet.",
+  'orders.browse': 'Browse Desserts',
+  'orders.itemCount': { one: '{{count}} item', other: '{{count}} items' },
+  'orders.all': 'All orders',
+  'orders.placed': 'Placed {{date}}',
+  'orders.notFound.title': 'Order Not Found',
+  'orders.notFound.body': "We couldn't find an order with the number {{id}}.",
+  'orders.notFound.back': 'Back to your orders',
+
+  'track.link': 'Track order',
+  'track.backToOrder': 'Back to order',
+  'track.title': 'Tracking order {{id}}',
+  'track.description.placed': "We've received your order and will confirm it shortly.",
+  'track.description.accepted': 'Your order has been accepted and is queued for the kitchen.',
+  'track.description.preparing': 'Our pastry chefs are preparing your desserts.',
+  'track.description.ready': 'Your order is ready to collect at the counter.',
+  'track.description.out-for-delivery': 'Your order is on its way to you.',
+  'track.description.delivered': 'Your order has been delivered. Enjoy!',
+  'track.description.cancelled': 'This order has been cancelled.',
+  'track.description.refunded': 'This order has been refunded.',
+  'track.live.connecting': 'Connecting for live updates…',
+  'track.live.live': 'Live updates on',
+  'track.live.polling': 'Live updates unavailable, checking for changes regularly',
+
+  'dashboard.welcome': 'Welcome back, {{name}}!',
+  'dashboard.subtitle': 'Manage your account and keep track of your orders.',
+  'dashboard.shop.title': 'Shop Desserts',
+  'dashboard.shop.body': 'Browse the collection and fill your cart.',
+  'dashboard.orders.title': 'Your Orders',
+  'dashboard.orders.body': 'See what you ordered and when.',
+  'dashboard.profile.title': 'Profile',
+  'dashboard.profile.body': 'Review your account details.',
+
+  'profile.title': 'Profile',
+  'profile.name': 'Name',
+  'profile.email': 'Email',
+  'profile.memberSince': 'Member Since',
+
+  'auth.email': 'Email Address',
+  'auth.emailPlaceholder': 'Enter your email',
+  'auth.password': 'Password',
+  'auth.passwordPlaceholder': 'Enter your password',
+  'auth.firstName': 'First Name',
+  'auth.lastName': 'Last Name',
+  'auth.confirmPassword': 'Confirm Password',
+  'auth.confirmPasswordPlaceholder': 'Confirm your password',
+  'auth.createPasswordPlaceholder': 'Create a password',
+  'auth.createStrongPasswordPlaceholder': 'Create a strong password',
+  'auth.rememberMe': 'Remember me',
+  'auth.forgotPassword': 'Forgot password?',
+  'auth.signIn': 'Sign In',
+  'auth.createAccount': 'Create Account',
+  'auth.noAccount': "Don't have an account?",
+  'auth.signUpFree': 'Sign up for free',
+  'auth.haveAccount': 'Already have an account?',
+  'auth.signInHere': 'Sign in here',
+  'auth.orContinueWith': 'Or continue with',
+  'auth.terms': 'I agree to the <terms>Terms of Service</terms> and <privacy>Privacy Policy</privacy>',
+  'auth.login.title': 'Welcome Back',
+  'auth.login.subtitle': 'Sign in to your account to continue',
+  'auth.invalidCredentials': 'Invalid email or password',
+  'auth.register.title': 'Create Account',
+  'auth.register.subtitle': 'Join us and start your journey today',
+  'auth.register.success': 'Account created successfully! Welcome aboard.',
+  'auth.forgot.title': 'Forgot Password?',
+  'auth.forgot.subtitle': "No worries! Enter your email and we'll send you reset instructions",
+  'auth.forgot.email': 'Email Address',
+  'auth.forgot.emailPlaceholder': 'Enter your email address',
+  'auth.forgot.emailHint': "We'll send password reset instructions to this email address.",
+  'auth.forgot.submit': 'Send Reset Instructions',
+  'auth.forgot.backToSignIn': 'Back to Sign In',
+  'auth.forgot.help.title': 'Need help?',
+  'auth.forgot.help.body': "If you're having trouble accessing your account, our support team is here to help.",
+  'auth.forgot.contactSupport': 'Contact Support',
+  'auth.forgot.sent.title': 'Check Your Email',
+  'auth.forgot.sent.body': "We've sent password reset instructions to",
+  'auth.forgot.next.title': "What's next?",
+  'auth.forgot.next.inbox': 'Check your email inbox',
+  'auth.forgot.next.link': 'Click the reset link in the email',
+  'auth.forgot.next.password': 'Create a new password',
+  'auth.forgot.next.signIn': 'Sign in with your new password',
+  'auth.forgot.notReceived': "Didn't receive the email? Check your spam folder or try again.",
+  'auth.forgot.resend': 'Resend Email',
+  'auth.forgot.stillTrouble': 'Still having trouble?',
+  'auth.forgot.sendFailed': 'Failed to send reset email. Please try again.',
+  'auth.forgot.resendFailed': 'Failed to resend email. Please try again.',
+
+  'password.meter': 'Password strength',
+  'password.strength.very-weak': 'Very weak',
+  'password.strength.weak': 'Weak',
+  'password.strength.fair': 'Fair',
+  'password.strength.strong': 'Strong',
+  'password.strength.very-strong': 'Very strong',
+  'password.feedback.tooShort': 'Use at least {{min}} characters',
+  'password.feedback.common': 'This is one of the most commonly used passwords',
+  'password.feedback.personal': "Don't use your name or email address in your password",
+  'password.feedback.dictionaryWord': '"{{word}}" is a common word and easy to guess',
+  'password.feedback.repeated': 'Avoid repeated characters like "aaa"',
+  'password.feedback.sequence': 'Avoid sequences like "abc", "123" or "qwerty"',
+  'password.feedback.tooGuessable': 'This password is too easy to guess. Try a longer one',
+  'password.feedback.addVariety': 'Mix in upper case letters, numbers or symbols',
+  'password.feedback.addLength': 'Add another word or a few more characters',
+
+  'validation.emailRequired': 'Email is required',
+  'validation.emailInvalid': 'Please enter a valid email',
+  'validation.passwordRequired': 'Password is required',
+  'validation.firstNameRequired': 'First name is required',
+  'validation.lastNameRequired': 'Last name is required',
+  'validation.confirmPasswordRequired': 'Please confirm your password',
+  'validation.passwordMismatch': 'Passwords do not match',
+  'validation.termsRequired': 'You must accept the terms and conditions',
+  'validation.loginFailed': 'Login failed. Please try again.',
+  'validation.registrationFailed': 'Registration failed. Please try again.',
+  'validation.submitFailed': 'Something went wrong. Please try again.',
+  'validation.emailTaken': 'An account with this email already exists',
+  'validation.messageRequired': 'Message is required',
+  'validation.messageMin': 'Message must be at least {{min}} characters',
+  'validation.messageMax': 'Message must be at most {{max}} characters',
+  'validation.ratingRequired': 'Choose a rating from 1 to 5 stars',
+  'validation.reviewRequired': 'Please write a review',
+  'validation.reviewMin': 'Review must be at least {{min}} characters',
+  'validation.reviewMax': 'Review must be at most {{max}} characters',
+  'validation.nameRequired': 'Name is required',
+  'validation.phoneRequired': 'Phone number is required',
+  'validation.phoneInvalid': 'Please enter a valid phone number',
+  'validation.addressRequired': 'Street address is required',
+  'validation.cityRequired': 'City is required',
+  'validation.slotRequired': 'Please choose a time slot',
+  'validation.slotUnavailable': 'That time slot is no longer available',
+  'validation.paymentRequired': 'Please choose a payment method',
+  'validation.cardNumberRequired': 'Card number is required',
+  'validation.cardNumberInvalid': 'Please enter a valid card number',
+  'validation.expiryRequired': 'Expiry date is required',
+  'validation.expiryInvalid': 'Use the format MM/YY',
+  'validation.cardExpired': 'This card has expired',
+  'validation.cvcInvalid': 'Enter the 3 or 4 digit security code',
+  'validation.cardNameRequired': 'Name on card is required',
+  'validation.productIdRequired': 'Product id is required',
+  'validation.productIdInvalid': 'Ids are whole numbers from 1 up',
+  'validation.productIdTaken': 'Product {{id}} already exists',
+  'validation.priceRequired': 'Price is required',
+  'validation.priceInvalid': 'Enter a price like 6.50',
+  'validation.pricePositive': 'Price must be greater than zero',
+  'validation.categoryRequired': 'Category is required',
+  'validation.stockInvalid': 'Enter a whole number of units, 0 or more',
+
+  'contact.title': 'Contact Us',
+  'contact.getInTouch': 'Get in Touch',
+  'contact.intro': "Have questions about our desserts or need help with your order? We'd love to hear from you!",
+  'contact.address': 'Address',
+  'contact.phone': 'Phone',
+  'contact.email': 'Email',
+  'contact.hours': 'Hours',
+  'contact.hoursWeekdays': 'Mon-Sat: 8AM - 8PM',
+  'contact.hoursSunday': 'Sunday: 10AM - 6PM',
+  'contact.form.name': 'Name *',
+  'contact.form.email': 'Email *',
+  'contact.form.message': 'Message *',
+  'contact.form.send': 'Send Message',
+  'contact.form.sending': 'Sending...',
+  'contact.form.website': 'Website',
+  'contact.sent.title': 'Message Sent!',
+  'contact.sent.body': "Thank you for contacting us. We'll get back to you soon!",
+  'contact.error.unavailable': "Messages can't be sent right now. Please call or email us instead.",
+  'contact.error.tooFast': 'That was quick! Please check your message and send it again.',
+  'contact.error.rateLimited': { one: "You've sent several messages already. Please try again in {{count}} minute.", other: "You've sent several messages already. Please try again in {{count}} minutes." },
+  'contact.error.expired': 'This form has been open a while. Please send your message again.',
+  'contact.error.invalid': 'Please check the form and try again.',
+
+  'inbox.title': 'Customer Messages',
+  'inbox.openCount': { one: '{{count}} message awaiting a reply', other: '{{count}} messages awaiting a reply' },
+  'inbox.filter': 'Show messages',
+  'inbox.filter.open': 'Open',
+  'inbox.filter.resolved': 'Resolved',
+  'inbox.filter.all': 'All',
+  'inbox.loading': 'Loading messages...',
+  'inbox.empty': 'No messages here.',
+  'inbox.retry': 'Try again',
+  'inbox.loadFailed': "We couldn't load the messages.",
+  'inbox.awaitingReply': 'Awaiting reply',
+  'inbox.resolvedAt': 'Resolved {{date}}',
+  'inbox.markResolved': 'Mark resolved',
+  'inbox.reopen': 'Reopen',
+  'inbox.updateFailed': "Couldn't update the message. Please try again.",
+
+  'admin.products.title': 'Products',
+  'admin.products.new': 'New Product',
+  'admin.products.back': 'All products',
+  'admin.products.loading': 'Loading products...',
+  'admin.products.retry': 'Try again',
+  'admin.products.empty': 'No products yet.',
+  'admin.products.moveUp': 'Move {{name}} up',
+  'admin.products.moveDown': 'Move {{name}} down',
+  'admin.products.archivedBadge': 'Archived',
+  'admin.products.stock': { one: '{{count}} a day', other: '{{count}} a day' },
+  'admin.products.edit': 'Edit',
+  'admin.products.archive': 'Archive',
+  'admin.products.restore': 'Restore',
+  'admin.products.archived': '{{name}} is no longer on sale',
+  'admin.products.restored': '{{name}} is back on sale',
+  'admin.products.updateFailed': "Couldn't update the product. Please try again.",
+  'admin.products.storageFull': "This browser has run out of room for the catalog, so the change wasn't saved. Try smaller or fewer images.",
+  'admin.product.newTitle': 'New Product',
+  'admin.product.editTitle': 'Edit {{name}}',
+  'admin.product.notFound': 'There is no product with id {{id}}.',
+  'admin.product.id': 'Product id',
+  'admin.product.name': 'Name',
+  'admin.product.price': 'Price ({{currency}})',
+  'admin.product.category': 'Category',
+  'admin.product.stock': 'Units baked per day',
+  'admin.product.ingredients': 'Ingredients',
+  'admin.product.ingredientsHint': 'Separate ingredients with commas, largest first.',
+  'admin.product.allergens': 'Contains allergens',
+  'admin.product.allergensUnlisted': 'Not checked yet',
+  'admin.product.dietary': 'Dietary tags',
+  'admin.product.images': 'Images',
+  'admin.product.image.desktop': 'Desktop',
+  'admin.product.image.tablet': 'Tablet',
+  'admin.product.image.mobile': 'Mobile',
+  'admin.product.image.thumbnail': 'Thumbnail',
+  'admin.product.image.uploading': 'Uploading...',
+  'admin.product.image.fillEmpty': 'Use for empty slots',
+  'admin.product.image.required': 'Add an image',
+  'admin.product.image.notImage': 'Choose a JPEG, PNG, WebP or GIF image',
+  'admin.product.image.tooLarge': 'Images can be at most {{max}} MB',
+  'admin.product.image.uploadFailed': 'Upload failed. Please try again.',
+  'admin.product.imagesMissing': 'Every image slot needs a picture',
+  'admin.product.problem.invalidId': 'Product ids must be positive whole numbers',
+  'admin.product.problem.idTaken': 'A product with id {{id}} already exists',
+  'admin.product.problem.idChanged': 'Product ids cannot be changed',
+  'admin.product.problem.nameRequired': 'Products need a name',
+  'admin.product.problem.categoryRequired': 'Products need a category',
+  'admin.product.problem.invalidPrice': 'Prices must be greater than zero',
+  'admin.product.problem.invalidStock': 'Stock must be zero or more',
+  'admin.product.problem.blankIngredient': 'Ingredients cannot be blank',
+  'admin.product.problem.unknownAllergen': 'Unknown allergen',
+  'admin.product.problem.unknownDietaryTag': 'Unknown dietary tag',
+  'admin.product.problem.glutenConflict': 'Products containing gluten cannot be tagged gluten-free',
+  'admin.product.problem.veganConflict': 'Products containing dairy or egg cannot be tagged vegan',
+  'admin.product.save': 'Save Product',
+  'admin.product.saving': 'Saving...',
+  'admin.product.created': '{{name}} has been added',
+  'admin.product.updated': '{{name}} has been saved',
+
+  'admin.orders.title': 'Orders',
+  'admin.orders.empty': 'No orders have been placed yet.',
+  'admin.orders.updated': 'Order {{id}} is now {{status}}',
+  'admin.orders.updateFailed': "We couldn't update this order. Please try again.",
+  'admin.orders.paymentMissing': "There's no record of payment {{id}}, so it can't be refunded here. Refund it from the payment provider's dashboard.",
+  'admin.orders.notifyFailed': "Order {{id}} was updated, but customers weren't notified.",
+  'admin.orders.viewTimeline': 'View timeline',
+  'admin.orders.fulfilment.delivery': 'Delivery',
+  'admin.orders.fulfilment.pickup': 'Pickup',
+  'admin.orders.payment.pending': 'Payment pending',
+  'admin.orders.payment.authorized': 'Payment authorized',
+  'admin.orders.payment.captured': 'Paid',
+  'admin.orders.payment.failed': 'Payment failed',
+  'admin.orders.payment.refunded': 'Refunded',
+  'admin.orders.action.accepted': 'Accept',
+  'admin.orders.action.preparing': 'Start preparing',
+  'admin.orders.action.ready': 'Mark ready',
+  'admin.orders.action.out-for-delivery': 'Send out',
+  'admin.orders.action.delivered': 'Mark delivered',
+  'admin.orders.action.cancelled': 'Cancel order',
+  'admin.orders.action.refunded': 'Refund',
+  'admin.orders.action.placed': 'Mark placed',
+
+  'admin.reviews.title': 'Reviews',
+  'admin.reviews.pendingCount': { one: '{{count}} review awaiting moderation', other: '{{count}} reviews awaiting moderation' },
+  'admin.reviews.filter': 'Filter reviews',
+  'admin.reviews.filter.all': 'All',
+  'admin.reviews.empty': 'No reviews here.',
+  'admin.reviews.approve': 'Approve',
+  'admin.reviews.reject': 'Reject',
+  'admin.reviews.approved': "{{name}}'s review is now published",
+  'admin.reviews.rejected': "{{name}}'s review has been rejected",
+  'admin.reviews.pending': "{{name}}'s review is awaiting moderation again",
+  'admin.reviews.updateFailed': "Couldn't update the review. Please try again.",
+  'admin.reviews.staffOnly': 'Only staff can moderate reviews.',
+
+  'about.title': 'About Our Dessert Shop',
+  'about.lead': 'Welcome to our artisanal dessert shop, where every sweet creation is crafted with passion and the finest ingredients.',
+  'about.story': "Since our founding, we've been dedicated to bringing you the most exquisite desserts from around the world. From classic French crème brûlée to innovative fusion treats, each item in our collection tells a story of culinary excellence.",
+  'about.quality': 'Our commitment to quality means we source only the best ingredients, work with skilled artisans, and maintain the highest standards in every aspect of our operation.',
+  'about.sourcing.title': '🌱 Sustainable Sourcing',
+  'about.sourcing.body': 'We partner with local suppliers and use eco-friendly packaging.',
+  'about.craft.title': '👨🍳 Expert Craftsmanship',
+  'about.craft.body': 'Our desserts are made by skilled pastry chefs with years of experience.',
+  'about.delivery.title': '🚚 Fresh Delivery',
+  'about.delivery.body': 'Carbon-neutral delivery ensures your desserts arrive fresh and delicious.',
+
+  'terms.title': 'Terms of Service',
+  'terms.orders.title': 'Orders',
+  'terms.orders.body': 'Placing an order is an offer to buy the desserts in your cart at the prices shown. We confirm every order once it has been accepted by our kitchen.',
+  'terms.account.title': 'Your Account',
+  'terms.account.body': 'You are responsible for keeping your password safe and for all activity on your account. Let us know straight away if you think someone else has used it.',
+  'terms.freshness.title': 'Freshness',
+  'terms.freshness.body': 'Our desserts are made fresh every day and are best enjoyed on the day of delivery. Please check allergen information before ordering.',
+
+  'privacy.title': 'Privacy Policy',
+  'privacy.collect.title': 'What We Collect',
+  'privacy.collect.body': 'We store your name, email address and order history so we can deliver your desserts and show you your past orders.',
+  'privacy.storage.title': 'How We Store It',
+  'privacy.storage.body': 'Passwords are never stored in plain text. We keep only a salted hash that cannot be turned back into your password.',
+  'privacy.choices.title': 'Your Choices',
+  'privacy.choices.body': 'You can sign out at any time, and you can contact us to have your account and order history removed.',
+
+  'notFound.title': 'Page Not Found',
+  'notFound.body': "Oops! The page you're looking for doesn't exist. It might have been moved, deleted, or you entered the wrong URL.",
+  'notFound.home': 'Go Home',
+  'notFound.back': 'Go Back',
+  'notFound.suggestions': 'You might be looking for:',
+  'notFound.collection': 'Our Dessert Collection',
+  'notFound.about': 'About Our Shop',
+  'notFound.contact': 'Contact Us',
+} as const;
+
+export default en;
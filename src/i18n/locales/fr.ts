@@ -0,0 +1,539 @@
+import type { Catalog } from '../catalogs';
+
+const fr: Catalog = {
+  'nav.home': 'Accueil',
+  'nav.about': 'À propos',
+  'nav.contact': 'Contact',
+  'nav.brand': 'Pâtisserie',
+  'nav.profile': 'Profil',
+  'nav.orders': 'Commandes',
+  'nav.inbox': 'Messagerie',
+  'nav.products': 'Produits',
+  'nav.manageOrders': 'Gérer les commandes',
+  'nav.reviews': 'Avis',
+  'nav.wishlist': { one: 'Favoris, {{count}} dessert enregistré', other: 'Favoris, {{count}} desserts enregistrés' },
+  'nav.logout': 'Déconnexion',
+  'nav.signIn': 'Connexion',
+  'nav.signUp': 'Inscription',
+  'nav.createAccount': 'Créer un compte',
+  'nav.language': 'Langue',
+
+  'home.title': 'Desserts',
+  'home.loading': 'Chargement des desserts',
+  'home.error.title': "Impossible de charger les desserts",
+  'home.error.retry': 'Réessayer',
+  'home.empty.title': 'Pas encore de desserts',
+  'home.empty.body': 'Notre cuisine se réapprovisionne. Revenez bientôt !',
+  'home.noMatches.title': 'Aucun dessert ne correspond à vos filtres',
+  'home.noMatches.body': 'Essayez une autre recherche ou catégorie.',
+  'home.noMatches.clear': 'Effacer les filtres',
+
+  'filters.search': 'Rechercher des desserts',
+  'filters.sort': 'Trier les desserts',
+  'filters.category': 'Filtrer par catégorie',
+  'filters.all': 'Tous',
+  'filters.excludeAllergens': 'Sans :',
+  'sort.featured': 'En vedette',
+  'sort.top-rated': 'Mieux notés',
+  'sort.price-asc': 'Prix croissant',
+  'sort.price-desc': 'Prix décroissant',
+  'sort.name-asc': 'Nom de A à Z',
+  'sort.name-desc': 'Nom de Z à A',
+
+  'allergen.nuts': 'Fruits à coque',
+  'allergen.gluten': 'Gluten',
+  'allergen.dairy': 'Produits laitiers',
+  'allergen.egg': 'Œuf',
+  'allergen.contains': 'Contient : {{allergen}}',
+  'allergen.unlisted': 'Allergènes non indiqués',
+  'diet.vegan': 'Végan',
+  'diet.gluten-free': 'Sans gluten',
+  'dietary.label': 'Régimes et allergènes',
+
+  'product.addToCart': 'Ajouter au panier',
+  'product.decrease': 'Diminuer la quantité',
+  'product.increase': 'Augmenter la quantité',
+  'product.back': 'Tous les desserts',
+  'product.inCart': { one: 'Vous en avez <strong>{{count}}</strong> dans votre panier.', other: 'Vous en avez <strong>{{count}}</strong> dans votre panier.' },
+  'product.lowStock': { one: 'Plus que {{count}}', other: 'Plus que {{count}}' },
+  'product.soldOut': 'Épuisé',
+  'product.related': 'Desserts similaires',
+  'product.ingredients': 'Ingrédients',
+  'product.notFound.title': 'Dessert introuvable',
+  'product.notFound.body': "Ce dessert n'est pas à notre carte. Il a peut-être été retiré ou le lien est incorrect.",
+  'product.notFound.browse': 'Voir les desserts',
+  'product.error.title': 'Impossible de charger ce dessert',
+  'product.error.back': 'Retour à tous les desserts',
+
+  'wishlist.title': 'Vos favoris',
+  'wishlist.empty': "Vous n'avez encore enregistré aucun dessert. Touchez le cœur de ceux qui vous plaisent.",
+  'wishlist.browse': 'Voir les desserts',
+  'wishlist.loading': 'Chargement de vos favoris…',
+  'wishlist.retry': 'Réessayer',
+  'wishlist.loadFailed': 'Impossible de charger vos desserts enregistrés.',
+  'wishlist.moveToCart': 'Mettre au panier',
+  'wishlist.moved': '{{name}} a été ajouté à votre panier.',
+  'wishlist.save': 'Ajouter {{name}} à vos favoris',
+  'wishlist.remove': 'Retirer {{name}} de vos favoris',
+
+  'reviews.title': 'Avis',
+  'reviews.average': 'Noté {{average}} sur 5',
+  'reviews.summary': { one: '{{average}} · {{count}} avis', other: '{{average}} · {{count}} avis' },
+  'reviews.none': "Pas encore d'avis",
+  'reviews.empty': "Pas encore d'avis. Les clients qui ont reçu ce dessert peuvent être les premiers à le noter.",
+  'reviews.signIn': 'Connectez-vous pour noter les desserts que vous avez commandés.',
+  'reviews.notEligible': 'Vous pourrez noter ce dessert une fois une commande le contenant reçue.',
+  'reviews.write': 'Écrire un avis',
+  'reviews.edit': 'Modifier votre avis',
+  'reviews.helpful': { one: 'Utile ({{count}})', other: 'Utile ({{count}})' },
+  'reviews.submitted': 'Merci ! Votre avis apparaîtra une fois approuvé.',
+  'reviews.status.pending': 'En attente de modération',
+  'reviews.status.approved': 'Approuvé',
+  'reviews.status.rejected': 'Non publié',
+  'reviews.form.rating': 'Votre note',
+  'reviews.form.stars': { one: '{{count}} étoile', other: '{{count}} étoiles' },
+  'reviews.form.body': 'Votre avis',
+  'reviews.form.moderation': "Les avis sont vérifiés par notre équipe avant d'être publiés.",
+  'reviews.form.submit': "Publier l'avis",
+  'reviews.form.update': "Mettre à jour l'avis",
+  'reviews.form.cancel': 'Annuler',
+  'reviews.error.unknown': "Cet avis n'est plus disponible.",
+  'reviews.error.vote': 'Connectez-vous pour voter sur les avis des autres clients.',
+  'reviews.error.voteFailed': "Impossible d'enregistrer votre vote. Veuillez réessayer.",
+
+  'cart.title': 'Votre panier ({{count}})',
+  'cart.empty': 'Les articles ajoutés apparaîtront ici',
+  'cart.remove': 'Retirer {{name}} du panier',
+  'cart.removed': '{{name}} a été retiré de votre panier.',
+  'toast.undo': 'Annuler',
+  'toast.dismiss': 'Fermer la notification',
+  'cart.carbonNeutral': 'Cette livraison est <strong>neutre en carbone</strong>',
+  'cart.checkout': 'Passer commande',
+
+  'promo.label': 'Code promo',
+  'promo.apply': 'Appliquer',
+  'promo.remove': 'Retirer le code promo {{code}}',
+  'promo.invalid': "{{code}} n'est pas un code promo valide",
+  'promo.alreadyApplied': '{{code}} est déjà appliqué',
+  'promo.notStarted': "{{code}} n'est pas encore actif",
+  'promo.expired': '{{code}} a expiré',
+  'promo.minSpend': 'Dépensez au moins {{amount}} pour utiliser {{code}}',
+  'promo.notApplicable': 'Aucun article de votre panier ne donne droit à {{code}}',
+  'promo.rule.percent': '{{percent}} % de réduction sur votre commande',
+  'promo.rule.fixed': '{{amount}} de réduction',
+  'promo.rule.category-percent': '{{percent}} % de réduction sur {{category}}',
+  'promo.rule.buy-x-get-y': { one: '{{buy}} {{category}} achetés, {{count}} offert', other: '{{buy}} {{category}} achetés, {{count}} offerts' },
+  'promo.rule.minSpend': "{{description}} dès {{amount}} d'achat",
+
+  'pricing.subtotal': 'Sous-total',
+  'pricing.delivery': 'Livraison',
+  'pricing.free': 'Gratuite',
+  'pricing.freeDeliveryHint': 'Ajoutez {{amount}} pour profiter de la livraison gratuite',
+  'pricing.total': 'Total de la commande',
+
+  'order.confirmed': 'Commande confirmée',
+  'order.enjoy': 'Nous espérons que vous vous régalerez !',
+  'order.number': 'Commande {{id}}',
+  'order.view': 'Voir la commande',
+  'order.startNew': 'Nouvelle commande',
+  'order.slot.delivery': 'Livraison {{slot}}',
+  'order.slot.pickup': 'Retrait {{slot}}',
+  'order.paid': 'Payé en ligne · {{reference}} ({{id}})',
+  'order.status.placed': 'Passée',
+  'order.status.accepted': 'Acceptée',
+  'order.status.preparing': 'En préparation',
+  'order.status.ready': 'Prête à retirer',
+  'order.status.out-for-delivery': 'En cours de livraison',
+  'order.status.delivered': 'Livrée',
+  'order.status.cancelled': 'Annulée',
+  'order.status.refunded': 'Remboursée',
+
+  'checkout.title': 'Commande',
+  'checkout.progress': 'Progression de la commande',
+  'checkout.stepOf': 'Étape {{current}} sur {{total}}',
+  'checkout.step.contact': 'Coordonnées',
+  'checkout.step.fulfilment': 'Retrait ou livraison',
+  'checkout.step.address': 'Adresse',
+  'checkout.step.slot': 'Créneau',
+  'checkout.step.payment': 'Paiement',
+  'checkout.step.review': 'Récapitulatif',
+  'checkout.back': 'Retour',
+  'checkout.continue': 'Continuer',
+  'checkout.placeOrder': 'Valider la commande',
+  'checkout.edit': 'Modifier',
+  'checkout.summary': 'Résumé de la commande',
+  'checkout.empty.title': 'Votre panier est vide',
+  'checkout.empty.body': 'Ajoutez des desserts avant de passer commande.',
+  'checkout.empty.browse': 'Voir les desserts',
+  'checkout.contact.name': 'Nom complet',
+  'checkout.contact.email': 'E-mail',
+  'checkout.contact.phone': 'Téléphone',
+  'checkout.fulfilment.delivery': 'Livraison',
+  'checkout.fulfilment.deliveryHint': 'Nous livrons votre commande à votre porte.',
+  'checkout.fulfilment.pickup': 'Retrait',
+  'checkout.fulfilment.pickupHint': 'Récupérez votre commande dans notre boutique au 123 Sweet Street.',
+  'checkout.address.line1': 'Adresse',
+  'checkout.address.line2': "Appartement, bâtiment, etc. (facultatif)",
+  'checkout.address.city': 'Ville',
+  'checkout.address.postalCode': 'Code postal (facultatif)',
+  'checkout.address.instructions': 'Instructions de livraison (facultatif)',
+  'checkout.slot.delivery': 'Quand devons-nous livrer ?',
+  'checkout.slot.pickup': 'Quand viendrez-vous chercher votre commande ?',
+  'checkout.slot.none': "Aucun créneau n'est disponible pour le moment. Veuillez réessayer plus tard.",
+  'checkout.payment.card': 'Carte',
+  'checkout.payment.cardHint': 'Payez en ligne en passant la commande.',
+  'checkout.payment.cashDelivery': 'Paiement à la livraison',
+  'checkout.payment.cashPickup': 'Paiement au retrait',
+  'checkout.payment.cashHint': 'Payez à la réception de votre commande.',
+  'checkout.payment.mobileMoney': 'Mobile money',
+  'checkout.payment.mobileMoneyHint': 'Validez le paiement sur votre téléphone.',
+  'checkout.payment.processing': 'Paiement en cours…',
+  'checkout.payment.awaitingApproval': 'Une demande de paiement a été envoyée au {{phone}}. Validez-la sur votre téléphone pour terminer.',
+  'checkout.payment.cancel': 'Annuler le paiement',
+  'checkout.stock.title': 'Certains desserts ont été épuisés pendant votre commande. Nous avons mis à jour votre panier :',
+  'checkout.stock.low': { one: '{{name}} : plus que {{count}}', other: '{{name}} : plus que {{count}}' },
+  'checkout.stock.soldOut': '{{name}} est épuisé',
+  'checkout.error': "Nous n'avons pas pu passer votre commande. Veuillez réessayer.",
+  'checkout.allergens.title': 'Votre commande contient : {{allergens}}',
+  'checkout.allergens.item': '{{name}} : {{allergens}}',
+  'checkout.allergens.unlistedTitle': "Certains desserts de votre commande n'indiquent pas leurs allergènes",
+  'checkout.allergens.unlistedItem': '{{name}} : allergènes non indiqués',
+  'checkout.allergens.acknowledge': 'Je comprends que ma commande contient ces allergènes.',
+  'checkout.allergens.acknowledgeUnlisted': 'Je comprends que ma commande peut contenir des allergènes, y compris certains qui ne sont pas indiqués.',
+  'checkout.allergens.required': 'Veuillez confirmer avoir pris connaissance des allergènes de votre commande.',
+  'checkout.payment.cardReference': 'Carte {{reference}}',
+  'checkout.payment.mobileMoneyReference': 'Mobile money · {{reference}}',
+  'checkout.card.number': 'Numéro de carte',
+  'checkout.card.expiry': 'Expiration (MM/AA)',
+  'checkout.card.cvc': 'Cryptogramme',
+  'checkout.card.name': 'Nom sur la carte',
+  'checkout.card.testHint': 'Mode test : {{approve}} est accepté, {{decline}} est refusé.',
+  'checkout.mobileMoney.phone': 'Numéro mobile money',
+  'checkout.mobileMoney.testHint': 'Mode test : {{decline}} est refusé, {{timeout}} ne répond jamais.',
+
+  'payment.failure.declined': 'Votre paiement a été refusé. Veuillez essayer un autre moyen de paiement.',
+  'payment.failure.insufficient-funds': 'Fonds insuffisants. Veuillez essayer un autre moyen de paiement.',
+  'payment.failure.expired-card': 'Cette carte a expiré. Veuillez utiliser une autre carte.',
+  'payment.failure.invalid-details': 'Les informations de paiement sont invalides. Vérifiez-les et réessayez.',
+  'payment.failure.timeout': 'La demande de paiement a expiré. Veuillez réessayer.',
+  'payment.failure.cancelled': 'Le paiement a été annulé.',
+
+  'orders.title': 'Vos commandes',
+  'orders.empty': "Vous n'avez encore passé aucune commande.",
+  'orders.browse': 'Voir les desserts',
+  'orders.itemCount': { one: '{{count}} article', other: '{{count}} articles' },
+  'orders.all': 'Toutes les commandes',
+  'orders.placed': 'Passée le {{date}}',
+  'orders.notFound.title': 'Commande introuvable',
+  'orders.notFound.body': 'Nous ne trouvons aucune commande portant le numéro {{id}}.',
+  'orders.notFound.back': 'Retour à vos commandes',
+
+  'track.link': 'Suivre la commande',
+  'track.backToOrder': 'Retour à la commande',
+  'track.title': 'Suivi de la commande {{id}}',
+  'track.description.placed': 'Nous avons bien reçu votre commande et allons la confirmer sous peu.',
+  'track.description.accepted': 'Votre commande a été acceptée et attend son tour en cuisine.',
+  'track.description.preparing': 'Nos pâtissiers préparent vos desserts.',
+  'track.description.ready': 'Votre commande vous attend au comptoir.',
+  'track.description.out-for-delivery': 'Votre commande est en route.',
+  'track.description.delivered': 'Votre commande a été livrée. Bon appétit !',
+  'track.description.cancelled': 'Cette commande a été annulée.',
+  'track.description.refunded': 'Cette commande a été remboursée.',
+  'track.live.connecting': 'Connexion aux mises à jour en direct…',
+  'track.live.live': 'Mises à jour en direct activées',
+  'track.live.polling': 'Mises à jour en direct indisponibles, vérification régulière',
+
+  'dashboard.welcome': 'Bon retour, {{name}} !',
+  'dashboard.subtitle': 'Gérez votre compte et suivez vos commandes.',
+  'dashboard.shop.title': 'Acheter des desserts',
+  'dashboard.shop.body': 'Parcourez la collection et remplissez votre panier.',
+  'dashboard.orders.title': 'Vos commandes',
+  'dashboard.orders.body': 'Retrouvez ce que vous avez commandé et quand.',
+  'dashboard.profile.title': 'Profil',
+  'dashboard.profile.body': 'Consultez les informations de votre compte.',
+
+  'profile.title': 'Profil',
+  'profile.name': 'Nom',
+  'profile.email': 'E-mail',
+  'profile.memberSince': 'Membre depuis',
+
+  'auth.email': 'Adresse e-mail',
+  'auth.emailPlaceholder': 'Saisissez votre e-mail',
+  'auth.password': 'Mot de passe',
+  'auth.passwordPlaceholder': 'Saisissez votre mot de passe',
+  'auth.firstName': 'Prénom',
+  'auth.lastName': 'Nom',
+  'auth.confirmPassword': 'Confirmer le mot de passe',
+  'auth.confirmPasswordPlaceholder': 'Confirmez votre mot de passe',
+  'auth.createPasswordPlaceholder': 'Créez un mot de passe',
+  'auth.createStrongPasswordPlaceholder': 'Créez un mot de passe robuste',
+  'auth.rememberMe': 'Se souvenir de moi',
+  'auth.forgotPassword': 'Mot de passe oublié ?',
+  'auth.signIn': 'Se connecter',
+  'auth.createAccount': 'Créer un compte',
+  'auth.noAccount': "Vous n'avez pas de compte ?",
+  'auth.signUpFree': 'Inscrivez-vous gratuitement',
+  'auth.haveAccount': 'Vous avez déjà un compte ?',
+  'auth.signInHere': 'Connectez-vous ici',
+  'auth.orContinueWith': 'Ou continuer avec',
+  'auth.terms': "J'accepte les <terms>conditions d'utilisation</terms> et la <privacy>politique de confidentialité</privacy>",
+  'auth.login.title': 'Bon retour',
+  'auth.login.subtitle': 'Connectez-vous à votre compte pour continuer',
+  'auth.invalidCredentials': 'E-mail ou mot de passe incorrect',
+  'auth.register.title': 'Créer un compte',
+  'auth.register.subtitle': "Rejoignez-nous dès aujourd'hui",
+  'auth.register.success': 'Compte créé avec succès ! Bienvenue.',
+  'auth.forgot.title': 'Mot de passe oublié ?',
+  'auth.forgot.subtitle': "Pas d'inquiétude ! Saisissez votre e-mail et nous vous enverrons les instructions de réinitialisation",
+  'auth.forgot.email': 'Adresse e-mail',
+  'auth.forgot.emailPlaceholder': 'Saisissez votre adresse e-mail',
+  'auth.forgot.emailHint': 'Nous enverrons les instructions de réinitialisation à cette adresse.',
+  'auth.forgot.submit': 'Envoyer les instructions',
+  'auth.forgot.backToSignIn': 'Retour à la connexion',
+  'auth.forgot.help.title': "Besoin d'aide ?",
+  'auth.forgot.help.body': "Si vous avez du mal à accéder à votre compte, notre équipe d'assistance est là pour vous aider.",
+  'auth.forgot.contactSupport': "Contacter l'assistance",
+  'auth.forgot.sent.title': 'Consultez vos e-mails',
+  'auth.forgot.sent.body': 'Nous avons envoyé les instructions de réinitialisation à',
+  'auth.forgot.next.title': 'Et maintenant ?',
+  'auth.forgot.next.inbox': 'Consultez votre boîte de réception',
+  'auth.forgot.next.link': "Cliquez sur le lien de réinitialisation dans l'e-mail",
+  'auth.forgot.next.password': 'Créez un nouveau mot de passe',
+  'auth.forgot.next.signIn': 'Connectez-vous avec votre nouveau mot de passe',
+  'auth.forgot.notReceived': "Vous n'avez pas reçu l'e-mail ? Vérifiez vos spams ou réessayez.",
+  'auth.forgot.resend': "Renvoyer l'e-mail",
+  'auth.forgot.stillTrouble': 'Toujours un problème ?',
+  'auth.forgot.sendFailed': "Échec de l'envoi de l'e-mail. Veuillez réessayer.",
+  'auth.forgot.resendFailed': "Échec du renvoi de l'e-mail. Veuillez réessayer.",
+
+  'password.meter': 'Robustesse du mot de passe',
+  'password.strength.very-weak': 'Très faible',
+  'password.strength.weak': 'Faible',
+  'password.strength.fair': 'Moyen',
+  'password.strength.strong': 'Robuste',
+  'password.strength.very-strong': 'Très robuste',
+  'password.feedback.tooShort': 'Utilisez au moins {{min}} caractères',
+  'password.feedback.common': "C'est l'un des mots de passe les plus utilisés",
+  'password.feedback.personal': "N'utilisez pas votre nom ni votre adresse e-mail dans votre mot de passe",
+  'password.feedback.dictionaryWord': '« {{word}} » est un mot courant et facile à deviner',
+  'password.feedback.repeated': 'Évitez les caractères répétés comme « aaa »',
+  'password.feedback.sequence': 'Évitez les suites comme « abc », « 123 » ou « azerty »',
+  'password.feedback.tooGuessable': 'Ce mot de passe est trop facile à deviner. Essayez-en un plus long',
+  'password.feedback.addVariety': 'Ajoutez des majuscules, des chiffres ou des symboles',
+  'password.feedback.addLength': 'Ajoutez un autre mot ou quelques caractères de plus',
+
+  'validation.emailRequired': "L'e-mail est obligatoire",
+  'validation.emailInvalid': 'Veuillez saisir un e-mail valide',
+  'validation.passwordRequired': 'Le mot de passe est obligatoire',
+  'validation.firstNameRequired': 'Le prénom est obligatoire',
+  'validation.lastNameRequired': 'Le nom est obligatoire',
+  'validation.confirmPasswordRequired': 'Veuillez confirmer votre mot de passe',
+  'validation.passwordMismatch': 'Les mots de passe ne correspondent pas',
+  'validation.termsRequired': 'Vous devez accepter les conditions générales',
+  'validation.loginFailed': 'La connexion a échoué. Veuillez réessayer.',
+  'validation.registrationFailed': "L'inscription a échoué. Veuillez réessayer.",
+  'validation.submitFailed': 'Une erreur est survenue. Veuillez réessayer.',
+  'validation.emailTaken': 'Un compte existe déjà avec cet e-mail',
+  'validation.messageRequired': 'Le message est obligatoire',
+  'validation.messageMin': 'Le message doit contenir au moins {{min}} caractères',
+  'validation.messageMax': 'Le message doit contenir au plus {{max}} caractères',
+  'validation.ratingRequired': 'Choisissez une note de 1 à 5 étoiles',
+  'validation.reviewRequired': 'Veuillez rédiger un avis',
+  'validation.reviewMin': "L'avis doit contenir au moins {{min}} caractères",
+  'validation.reviewMax': "L'avis doit contenir au plus {{max}} caractères",
+  'validation.nameRequired': 'Le nom est obligatoire',
+  'validation.phoneRequired': 'Le numéro de téléphone est obligatoire',
+  'validation.phoneInvalid': 'Veuillez saisir un numéro de téléphone valide',
+  'validation.addressRequired': "L'adresse est obligatoire",
+  'validation.cityRequired': 'La ville est obligatoire',
+  'validation.slotRequired': 'Veuillez choisir un créneau',
+  'validation.slotUnavailable': "Ce créneau n'est plus disponible",
+  'validation.paymentRequired': 'Veuillez choisir un moyen de paiement',
+  'validation.cardNumberRequired': 'Le numéro de carte est obligatoire',
+  'validation.cardNumberInvalid': 'Veuillez saisir un numéro de carte valide',
+  'validation.expiryRequired': "La date d'expiration est obligatoire",
+  'validation.expiryInvalid': 'Utilisez le format MM/AA',
+  'validation.cardExpired': 'Cette carte a expiré',
+  'validation.cvcInvalid': 'Saisissez le code de sécurité à 3 ou 4 chiffres',
+  'validation.cardNameRequired': 'Le nom sur la carte est obligatoire',
+  'validation.productIdRequired': "L'identifiant du produit est obligatoire",
+  'validation.productIdInvalid': 'Les identifiants sont des nombres entiers à partir de 1',
+  'validation.productIdTaken': 'Le produit {{id}} existe déjà',
+  'validation.priceRequired': 'Le prix est obligatoire',
+  'validation.priceInvalid': 'Saisissez un prix comme 6,50',
+  'validation.pricePositive': 'Le prix doit être supérieur à zéro',
+  'validation.categoryRequired': 'La catégorie est obligatoire',
+  'validation.stockInvalid': "Saisissez un nombre entier d'unités, 0 ou plus",
+
+  'contact.title': 'Contactez-nous',
+  'contact.getInTouch': 'Écrivez-nous',
+  'contact.intro': "Des questions sur nos desserts ou besoin d'aide pour votre commande ? Nous serions ravis de vous lire !",
+  'contact.address': 'Adresse',
+  'contact.phone': 'Téléphone',
+  'contact.email': 'E-mail',
+  'contact.hours': 'Horaires',
+  'contact.hoursWeekdays': 'Lun-Sam : 8h - 20h',
+  'contact.hoursSunday': 'Dimanche : 10h - 18h',
+  'contact.form.name': 'Nom *',
+  'contact.form.email': 'E-mail *',
+  'contact.form.message': 'Message *',
+  'contact.form.send': 'Envoyer le message',
+  'contact.form.sending': 'Envoi...',
+  'contact.form.website': 'Site web',
+  'contact.sent.title': 'Message envoyé !',
+  'contact.sent.body': 'Merci de nous avoir contactés. Nous vous répondrons rapidement !',
+  'contact.error.unavailable': 'Les messages ne peuvent pas être envoyés pour le moment. Appelez-nous ou écrivez-nous par e-mail.',
+  'contact.error.tooFast': 'Quelle rapidité ! Vérifiez votre message puis renvoyez-le.',
+  'contact.error.rateLimited': { one: 'Vous avez déjà envoyé plusieurs messages. Réessayez dans {{count}} minute.', other: 'Vous avez déjà envoyé plusieurs messages. Réessayez dans {{count}} minutes.' },
+  'contact.error.expired': 'Ce formulaire est ouvert depuis longtemps. Veuillez renvoyer votre message.',
+  'contact.error.invalid': 'Veuillez vérifier le formulaire et réessayer.',
+
+  'inbox.title': 'Messages des clients',
+  'inbox.openCount': { one: '{{count}} message en attente de réponse', other: '{{count}} messages en attente de réponse' },
+  'inbox.filter': 'Afficher les messages',
+  'inbox.filter.open': 'Ouverts',
+  'inbox.filter.resolved': 'Résolus',
+  'inbox.filter.all': 'Tous',
+  'inbox.loading': 'Chargement des messages...',
+  'inbox.empty': 'Aucun message ici.',
+  'inbox.retry': 'Réessayer',
+  'inbox.loadFailed': 'Impossible de charger les messages.',
+  'inbox.awaitingReply': 'En attente de réponse',
+  'inbox.resolvedAt': 'Résolu le {{date}}',
+  'inbox.markResolved': 'Marquer comme résolu',
+  'inbox.reopen': 'Rouvrir',
+  'inbox.updateFailed': 'Impossible de mettre à jour le message. Veuillez réessayer.',
+
+  'admin.products.title': 'Produits',
+  'admin.products.new': 'Nouveau produit',
+  'admin.products.back': 'Tous les produits',
+  'admin.products.loading': 'Chargement des produits...',
+  'admin.products.retry': 'Réessayer',
+  'admin.products.empty': 'Aucun produit pour le moment.',
+  'admin.products.moveUp': 'Monter {{name}}',
+  'admin.products.moveDown': 'Descendre {{name}}',
+  'admin.products.archivedBadge': 'Archivé',
+  'admin.products.stock': { one: '{{count}} par jour', other: '{{count}} par jour' },
+  'admin.products.edit': 'Modifier',
+  'admin.products.archive': 'Archiver',
+  'admin.products.restore': 'Restaurer',
+  'admin.products.archived': "{{name}} n'est plus en vente",
+  'admin.products.restored': '{{name}} est de nouveau en vente',
+  'admin.products.updateFailed': 'Impossible de mettre à jour le produit. Veuillez réessayer.',
+  'admin.products.storageFull': "Ce navigateur n'a plus assez de place pour le catalogue : la modification n'a pas été enregistrée. Essayez des images moins nombreuses ou plus petites.",
+  'admin.product.newTitle': 'Nouveau produit',
+  'admin.product.editTitle': 'Modifier {{name}}',
+  'admin.product.notFound': "Aucun produit ne porte l'identifiant {{id}}.",
+  'admin.product.id': 'Identifiant du produit',
+  'admin.product.name': 'Nom',
+  'admin.product.price': 'Prix ({{currency}})',
+  'admin.product.category': 'Catégorie',
+  'admin.product.stock': 'Unités préparées par jour',
+  'admin.product.ingredients': 'Ingrédients',
+  'admin.product.ingredientsHint': 'Séparez les ingrédients par des virgules, du plus important au moins important.',
+  'admin.product.allergens': 'Allergènes présents',
+  'admin.product.allergensUnlisted': 'Pas encore vérifiés',
+  'admin.product.dietary': 'Régimes',
+  'admin.product.images': 'Images',
+  'admin.product.image.desktop': 'Ordinateur',
+  'admin.product.image.tablet': 'Tablette',
+  'admin.product.image.mobile': 'Mobile',
+  'admin.product.image.thumbnail': 'Miniature',
+  'admin.product.image.uploading': 'Envoi...',
+  'admin.product.image.fillEmpty': 'Utiliser pour les emplacements vides',
+  'admin.product.image.required': 'Ajoutez une image',
+  'admin.product.image.notImage': 'Choisissez une image JPEG, PNG, WebP ou GIF',
+  'admin.product.image.tooLarge': 'Les images ne doivent pas dépasser {{max}} Mo',
+  'admin.product.image.uploadFailed': "L'envoi a échoué. Veuillez réessayer.",
+  'admin.product.imagesMissing': "Chaque emplacement d'image doit avoir une photo",
+  'admin.product.problem.invalidId': 'Les identifiants de produit doivent être des nombres entiers positifs',
+  'admin.product.problem.idTaken': "Un produit avec l'identifiant {{id}} existe déjà",
+  'admin.product.problem.idChanged': "L'identifiant d'un produit ne peut pas être modifié",
+  'admin.product.problem.nameRequired': 'Les produits doivent avoir un nom',
+  'admin.product.problem.categoryRequired': 'Les produits doivent avoir une catégorie',
+  'admin.product.problem.invalidPrice': 'Le prix doit être supérieur à zéro',
+  'admin.product.problem.invalidStock': 'Le stock doit être positif ou nul',
+  'admin.product.problem.blankIngredient': 'Les ingrédients ne peuvent pas être vides',
+  'admin.product.problem.unknownAllergen': 'Allergène inconnu',
+  'admin.product.problem.unknownDietaryTag': 'Mention alimentaire inconnue',
+  'admin.product.problem.glutenConflict': 'Un produit contenant du gluten ne peut pas être marqué sans gluten',
+  'admin.product.problem.veganConflict': 'Un produit contenant des produits laitiers ou des œufs ne peut pas être marqué végan',
+  'admin.product.save': 'Enregistrer le produit',
+  'admin.product.saving': 'Enregistrement...',
+  'admin.product.created': '{{name}} a été ajouté',
+  'admin.product.updated': '{{name}} a été enregistré',
+
+  'admin.orders.title': 'Commandes',
+  'admin.orders.empty': "Aucune commande n'a encore été passée.",
+  'admin.orders.updated': 'La commande {{id}} est maintenant : {{status}}',
+  'admin.orders.updateFailed': 'Impossible de mettre à jour cette commande. Veuillez réessayer.',
+  'admin.orders.paymentMissing': 'Aucune trace du paiement {{id}} : il ne peut pas être remboursé ici. Remboursez-le depuis le tableau de bord du prestataire de paiement.',
+  'admin.orders.notifyFailed': "La commande {{id}} a été mise à jour, mais les clients n'ont pas été prévenus.",
+  'admin.orders.viewTimeline': 'Voir le suivi',
+  'admin.orders.fulfilment.delivery': 'Livraison',
+  'admin.orders.fulfilment.pickup': 'Retrait',
+  'admin.orders.payment.pending': 'Paiement en attente',
+  'admin.orders.payment.authorized': 'Paiement autorisé',
+  'admin.orders.payment.captured': 'Payée',
+  'admin.orders.payment.failed': 'Paiement échoué',
+  'admin.orders.payment.refunded': 'Remboursée',
+  'admin.orders.action.accepted': 'Accepter',
+  'admin.orders.action.preparing': 'Lancer la préparation',
+  'admin.orders.action.ready': 'Marquer prête',
+  'admin.orders.action.out-for-delivery': 'Envoyer en livraison',
+  'admin.orders.action.delivered': 'Marquer livrée',
+  'admin.orders.action.cancelled': 'Annuler la commande',
+  'admin.orders.action.refunded': 'Rembourser',
+  'admin.orders.action.placed': 'Marquer passée',
+
+  'admin.reviews.title': 'Avis',
+  'admin.reviews.pendingCount': { one: '{{count}} avis en attente de modération', other: '{{count}} avis en attente de modération' },
+  'admin.reviews.filter': 'Filtrer les avis',
+  'admin.reviews.filter.all': 'Tous',
+  'admin.reviews.empty': 'Aucun avis ici.',
+  'admin.reviews.approve': 'Approuver',
+  'admin.reviews.reject': 'Refuser',
+  'admin.reviews.approved': "L'avis de {{name}} est maintenant publié",
+  'admin.reviews.rejected': "L'avis de {{name}} a été refusé",
+  'admin.reviews.pending': "L'avis de {{name}} est de nouveau en attente de modération",
+  'admin.reviews.updateFailed': "Impossible de mettre à jour l'avis. Veuillez réessayer.",
+  'admin.reviews.staffOnly': 'Seul le personnel peut modérer les avis.',
+
+  'about.title': 'À propos de notre pâtisserie',
+  'about.lead': 'Bienvenue dans notre pâtisserie artisanale, où chaque douceur est préparée avec passion et les meilleurs ingrédients.',
+  'about.story': "Depuis notre création, nous nous consacrons à vous offrir les desserts les plus raffinés du monde entier. De la crème brûlée à la française aux créations fusion, chaque dessert de notre collection raconte une histoire d'excellence culinaire.",
+  'about.quality': "Notre exigence de qualité nous pousse à choisir les meilleurs ingrédients, à travailler avec des artisans qualifiés et à respecter les normes les plus élevées dans chaque aspect de notre activité.",
+  'about.sourcing.title': '🌱 Approvisionnement durable',
+  'about.sourcing.body': 'Nous travaillons avec des fournisseurs locaux et utilisons des emballages écologiques.',
+  'about.craft.title': '👨🍳 Savoir-faire',
+  'about.craft.body': "Nos desserts sont préparés par des pâtissiers qualifiés forts de nombreuses années d'expérience.",
+  'about.delivery.title': '🚚 Livraison fraîcheur',
+  'about.delivery.body': 'Une livraison neutre en carbone pour des desserts frais et délicieux.',
+
+  'terms.title': "Conditions d'utilisation",
+  'terms.orders.title': 'Commandes',
+  'terms.orders.body': "Passer une commande constitue une offre d'achat des desserts de votre panier aux prix affichés. Nous confirmons chaque commande dès qu'elle a été acceptée par notre cuisine.",
+  'terms.account.title': 'Votre compte',
+  'terms.account.body': "Vous êtes responsable de la sécurité de votre mot de passe et de toute activité sur votre compte. Prévenez-nous immédiatement si vous pensez que quelqu'un d'autre l'a utilisé.",
+  'terms.freshness.title': 'Fraîcheur',
+  'terms.freshness.body': 'Nos desserts sont préparés chaque jour et se dégustent de préférence le jour de la livraison. Veuillez consulter les informations sur les allergènes avant de commander.',
+
+  'privacy.title': 'Politique de confidentialité',
+  'privacy.collect.title': 'Ce que nous collectons',
+  'privacy.collect.body': "Nous conservons votre nom, votre adresse e-mail et l'historique de vos commandes afin de livrer vos desserts et de vous montrer vos commandes passées.",
+  'privacy.storage.title': 'Comment nous les conservons',
+  'privacy.storage.body': "Les mots de passe ne sont jamais stockés en clair. Nous ne conservons qu'une empreinte salée qui ne permet pas de retrouver votre mot de passe.",
+  'privacy.choices.title': 'Vos choix',
+  'privacy.choices.body': "Vous pouvez vous déconnecter à tout moment et nous contacter pour faire supprimer votre compte et l'historique de vos commandes.",
+
+  'notFound.title': 'Page introuvable',
+  'notFound.body': "Oups ! La page que vous cherchez n'existe pas. Elle a peut-être été déplacée, supprimée, ou l'adresse est incorrecte.",
+  'notFound.home': "Retour à l'accueil",
+  'notFound.back': 'Retour',
+  'notFound.suggestions': 'Vous cherchez peut-être :',
+  'notFound.collection': 'Notre collection de desserts',
+  'notFound.about': 'À propos de notre boutique',
+  'notFound.contact': 'Contactez-nous',
+};
+
+export default fr;
@@ -0,0 +1,539 @@
+import type { Catalog } from '../catalogs';
+
+const rw: Catalog = {
+  'nav.home': 'Ahabanza',
+  'nav.about': 'Abo turi bo',
+  'nav.contact': 'Twandikire',
+  'nav.brand': 'Iduka ry’Imigati',
+  'nav.profile': 'Umwirondoro',
+  'nav.orders': 'Ibyo natumije',
+  'nav.inbox': 'Ubutumwa',
+  'nav.products': 'Ibicuruzwa',
+  'nav.manageOrders': 'Gucunga amatumiza',
+  'nav.reviews': 'Ibitekerezo',
+  'nav.wishlist': { one: 'Ibyo wakunze, desert {{count}} yabitswe', other: 'Ibyo wakunze, desert {{count}} zabitswe' },
+  'nav.logout': 'Sohoka',
+  'nav.signIn': 'Injira',
+  'nav.signUp': 'Iyandikishe',
+  'nav.createAccount': 'Fungura konti',
+  'nav.language': 'Ururimi',
+
+  'home.title': 'Ibiryo biryohera',
+  'home.loading': 'Turimo gutegura urutonde',
+  'home.error.title': 'Ntibyashobotse kuzana urutonde',
+  'home.error.retry': 'Ongera ugerageze',
+  'home.empty.title': 'Nta biryo birahari',
+  'home.empty.body': 'Igikoni cyacu kirimo gutegura ibindi. Uzagaruke vuba!',
+  'home.noMatches.title': 'Nta kintu gihuye n’ibyo washatse',
+  'home.noMatches.body': 'Gerageza irindi zina cyangwa ikindi cyiciro.',
+  'home.noMatches.clear': 'Siba akayunguruzo',
+
+  'filters.search': 'Shakisha',
+  'filters.sort': 'Tondeka',
+  'filters.category': 'Hitamo icyiciro',
+  'filters.all': 'Byose',
+  'filters.excludeAllergens': 'Bitarimo:',
+  'sort.featured': 'Ibyatoranyijwe',
+  'sort.top-rated': 'Byakunzwe cyane',
+  'sort.price-asc': 'Igiciro: gito ujya hejuru',
+  'sort.price-desc': 'Igiciro: kinini ujya hasi',
+  'sort.name-asc': 'Izina: A kugeza Z',
+  'sort.name-desc': 'Izina: Z kugeza A',
+
+  'allergen.nuts': 'Ubunyobwa',
+  'allergen.gluten': 'Gluteni',
+  'allergen.dairy': 'Ibikomoka ku mata',
+  'allergen.egg': 'Amagi',
+  'allergen.contains': 'Birimo: {{allergen}}',
+  'allergen.unlisted': 'Ibitera ubwivumbure ntibyatangajwe',
+  'diet.vegan': 'Nta bikomoka ku matungo',
+  'diet.gluten-free': 'Nta gluteni',
+  'dietary.label': "Amakuru ku mirire n'ibitera ubwivumbure",
+
+  'product.addToCart': 'Shyira mu gitebo',
+  'product.decrease': 'Gabanya umubare',
+  'product.increase': 'Ongera umubare',
+  'product.back': 'Ibiryo byose',
+  'product.inCart': { one: 'Ufite <strong>{{count}}</strong> mu gitebo.', other: 'Ufite <strong>{{count}}</strong> mu gitebo.' },
+  'product.lowStock': { one: 'Hasigaye {{count}} gusa', other: 'Hasigaye {{count}} gusa' },
+  'product.soldOut': 'Byashize',
+  'product.related': 'Ibindi wakunda',
+  'product.ingredients': 'Ibigize',
+  'product.notFound.title': 'Ntibibonetse',
+  'product.notFound.body': 'Iki kiryo ntikiri ku rutonde rwacu. Gishobora kuba cyarakuweho cyangwa ihuza ritari ryo.',
+  'product.notFound.browse': 'Reba ibiryo',
+  'product.error.title': 'Ntibyashobotse kuzana iki kiryo',
+  'product.error.back': 'Subira ku biryo byose',
+
+  'wishlist.title': 'Ibyo wakunze',
+  'wishlist.empty': "Nta desert urabika. Kanda ku mutima w'iyo ukunda.",
+  'wishlist.browse': 'Reba desert',
+  'wishlist.loading': 'Turimo gufungura ibyo wakunze…',
+  'wishlist.retry': 'Ongera ugerageze',
+  'wishlist.loadFailed': 'Ntibyashobotse kuzana ibiryo wabitse.',
+  'wishlist.moveToCart': 'Shyira mu gitebo',
+  'wishlist.moved': '{{name}} yashyizwe mu gitebo cyawe.',
+  'wishlist.save': 'Bika {{name}} mu byo wakunze',
+  'wishlist.remove': 'Kura {{name}} mu byo wakunze',
+
+  'reviews.title': 'Ibitekerezo',
+  'reviews.average': 'Amanota {{average}} kuri 5',
+  'reviews.summary': { one: '{{average}} · igitekerezo {{count}}', other: '{{average}} · ibitekerezo {{count}}' },
+  'reviews.none': 'Nta bitekerezo biratangwa',
+  'reviews.empty': 'Nta bitekerezo biratangwa. Abakiriya bakiriye iyi desert ni bo bashobora kuba aba mbere.',
+  'reviews.signIn': 'Injira kugira ngo utange igitekerezo ku byo watumije.',
+  'reviews.notEligible': 'Uzatanga igitekerezo kuri iyi desert umaze kwakira itumiza riyirimo.',
+  'reviews.write': 'Andika igitekerezo',
+  'reviews.edit': 'Hindura igitekerezo cyawe',
+  'reviews.helpful': { one: 'Bifite akamaro ({{count}})', other: 'Bifite akamaro ({{count}})' },
+  'reviews.submitted': 'Murakoze! Igitekerezo cyawe kizagaragara kimaze kwemezwa.',
+  'reviews.status.pending': 'Gitegereje kugenzurwa',
+  'reviews.status.approved': 'Cyemejwe',
+  'reviews.status.rejected': 'Nticyatangajwe',
+  'reviews.form.rating': 'Amanota yawe',
+  'reviews.form.stars': { one: 'Inyenyeri {{count}}', other: 'Inyenyeri {{count}}' },
+  'reviews.form.body': 'Igitekerezo cyawe',
+  'reviews.form.moderation': "Ibitekerezo bigenzurwa n'itsinda ryacu mbere yo kugaragara.",
+  'reviews.form.submit': 'Ohereza igitekerezo',
+  'reviews.form.update': 'Vugurura igitekerezo',
+  'reviews.form.cancel': 'Reka',
+  'reviews.error.unknown': 'Iki gitekerezo nticyakiboneka.',
+  'reviews.error.vote': "Injira kugira ngo utore ku bitekerezo by'abandi bakiriya.",
+  'reviews.error.voteFailed': 'Ntitwashoboye kwandika itora ryawe. Ongera ugerageze.',
+
+  'cart.title': 'Igitebo cyawe ({{count}})',
+  'cart.empty': 'Ibyo wongeyemo bizagaragara hano',
+  'cart.remove': 'Kura {{name}} mu gitebo',
+  'cart.removed': '{{name}} yakuwe mu gitebo cyawe.',
+  'toast.undo': 'Subiza',
+  'toast.dismiss': 'Funga ubutumwa',
+  'cart.carbonNeutral': 'Iri ni itangwa <strong>ritangiza ikirere</strong>',
+  'cart.checkout': 'Komeza wishyure',
+
+  'promo.label': 'Kode ya poromosiyo',
+  'promo.apply': 'Koresha',
+  'promo.remove': 'Kuraho kode {{code}}',
+  'promo.invalid': '{{code}} si kode yemewe',
+  'promo.alreadyApplied': '{{code}} yamaze gukoreshwa',
+  'promo.notStarted': '{{code}} ntiratangira gukora',
+  'promo.expired': '{{code}} yarangiye',
+  'promo.minSpend': 'Gura ibya {{amount}} cyangwa birenga kugira ngo ukoreshe {{code}}',
+  'promo.notApplicable': 'Nta kintu kiri mu gitebo cyemerewe {{code}}',
+  'promo.rule.percent': 'Igabanywa rya {{percent}}% ku itumiza ryawe',
+  'promo.rule.fixed': 'Igabanywa rya {{amount}}',
+  'promo.rule.category-percent': 'Igabanywa rya {{percent}}% kuri {{category}}',
+  'promo.rule.buy-x-get-y': { one: 'Gura {{buy}} {{category}}, uhabwe {{count}} ku buntu', other: 'Gura {{buy}} {{category}}, uhabwe {{count}} ku buntu' },
+  'promo.rule.minSpend': '{{description}} ku matumiza arenze {{amount}}',
+
+  'pricing.subtotal': 'Igiteranyo',
+  'pricing.delivery': 'Kugeza ku muryango',
+  'pricing.free': 'Ubuntu',
+  'pricing.freeDeliveryHint': 'Ongeraho {{amount}} ubone kugezwaho ku buntu',
+  'pricing.total': 'Igiteranyo cyose',
+
+  'order.confirmed': 'Itumiza ryemejwe',
+  'order.enjoy': 'Turizera ko uzaryoherwa!',
+  'order.number': 'Itumiza {{id}}',
+  'order.view': 'Reba itumiza',
+  'order.startNew': 'Tangira irindi tumiza',
+  'order.slot.delivery': 'Kugezwaho {{slot}}',
+  'order.slot.pickup': 'Kubifata {{slot}}',
+  'order.paid': 'Byishyuwe kuri interineti · {{reference}} ({{id}})',
+  'order.status.placed': 'Yatanzwe',
+  'order.status.accepted': 'Yemewe',
+  'order.status.preparing': 'Iri gutegurwa',
+  'order.status.ready': 'Yiteguye gufatwa',
+  'order.status.out-for-delivery': 'Iri mu nzira',
+  'order.status.delivered': 'Yagejejwe',
+  'order.status.cancelled': 'Yahagaritswe',
+  'order.status.refunded': 'Amafaranga yasubijwe',
+
+  'checkout.title': 'Kwishyura',
+  'checkout.progress': 'Aho ugeze utumiza',
+  'checkout.stepOf': 'Intambwe {{current}} kuri {{total}}',
+  'checkout.step.contact': 'Aho tukubona',
+  'checkout.step.fulfilment': 'Kubifata cyangwa kubikugezaho',
+  'checkout.step.address': 'Aderesi',
+  'checkout.step.slot': 'Igihe',
+  'checkout.step.payment': 'Kwishyura',
+  'checkout.step.review': 'Isuzuma',
+  'checkout.back': 'Subira inyuma',
+  'checkout.continue': 'Komeza',
+  'checkout.placeOrder': 'Emeza itumiza',
+  'checkout.edit': 'Hindura',
+  'checkout.summary': 'Incamake y’itumiza',
+  'checkout.empty.title': 'Igitebo cyawe kirimo ubusa',
+  'checkout.empty.body': 'Ongeramo ibiryo mbere yo kwishyura.',
+  'checkout.empty.browse': 'Reba ibiryo',
+  'checkout.contact.name': 'Amazina yombi',
+  'checkout.contact.email': 'Imeyili',
+  'checkout.contact.phone': 'Telefoni',
+  'checkout.fulfilment.delivery': 'Kubikugezaho',
+  'checkout.fulfilment.deliveryHint': 'Tukuzanira itumiza ryawe ku muryango.',
+  'checkout.fulfilment.pickup': 'Kubifata',
+  'checkout.fulfilment.pickupHint': 'Fata itumiza ryawe mu iduka ryacu kuri 123 Sweet Street.',
+  'checkout.address.line1': 'Aderesi y’umuhanda',
+  'checkout.address.line2': 'Inzu, igorofa, n’ibindi (si ngombwa)',
+  'checkout.address.city': 'Umujyi',
+  'checkout.address.postalCode': 'Kode y’iposita (si ngombwa)',
+  'checkout.address.instructions': 'Amabwiriza yo kukugezaho (si ngombwa)',
+  'checkout.slot.delivery': 'Ni ryari tukugezaho?',
+  'checkout.slot.pickup': 'Ni ryari uzaza gufata itumiza ryawe?',
+  'checkout.slot.none': 'Nta gihe kiboneka ubu. Ongera ugerageze nyuma.',
+  'checkout.payment.card': 'Ikarita',
+  'checkout.payment.cardHint': 'Ishyura kuri interineti igihe utumiza.',
+  'checkout.payment.cashDelivery': 'Ishyura ubigezwaho',
+  'checkout.payment.cashPickup': 'Ishyura ubifata',
+  'checkout.payment.cashHint': 'Ishyura igihe wakiriye itumiza ryawe.',
+  'checkout.payment.mobileMoney': 'Mobile money',
+  'checkout.payment.mobileMoneyHint': 'Emeza kwishyura kuri telefoni yawe.',
+  'checkout.payment.processing': 'Turimo kwakira ubwishyu…',
+  'checkout.payment.awaitingApproval': 'Twohereje icyifuzo cyo kwishyura kuri {{phone}}. Cyemeze kuri telefoni yawe kugira ngo urangize.',
+  'checkout.payment.cancel': 'Hagarika kwishyura',
+  'checkout.stock.title': 'Hari ibyo kurya byashize mu gihe watumizaga. Twahinduye igitebo cyawe:',
+  'checkout.stock.low': { one: '{{name}}: hasigaye {{count}} gusa', other: '{{name}}: hasigaye {{count}} gusa' },
+  'checkout.stock.soldOut': '{{name}} byashize',
+  'checkout.error': 'Ntitwashoboye kwakira itumiza ryawe. Ongera ugerageze.',
+  'checkout.allergens.title': 'Itumiza ryawe ririmo: {{allergens}}',
+  'checkout.allergens.item': '{{name}}: {{allergens}}',
+  'checkout.allergens.unlistedTitle': 'Bimwe mu biryo watumije ntibigaragaza ibitera ubwivumbure',
+  'checkout.allergens.unlistedItem': '{{name}}: ibitera ubwivumbure ntibyatangajwe',
+  'checkout.allergens.acknowledge': 'Numva ko itumiza ryanjye ririmo ibi bitera ubwivumbure.',
+  'checkout.allergens.acknowledgeUnlisted': "Nsobanukiwe ko ibyo natumije bishobora kuba birimo ibitera ubwivumbure, harimo n'ibitatangajwe.",
+  'checkout.allergens.required': 'Emeza ko wabonye ibitera ubwivumbure biri mu itumiza ryawe.',
+  'checkout.payment.cardReference': 'Ikarita {{reference}}',
+  'checkout.payment.mobileMoneyReference': 'Mobile money · {{reference}}',
+  'checkout.card.number': 'Nimero y’ikarita',
+  'checkout.card.expiry': 'Itariki izarangiriraho (MM/YY)',
+  'checkout.card.cvc': 'CVC',
+  'checkout.card.name': 'Izina riri ku ikarita',
+  'checkout.card.testHint': 'Igerageza: {{approve}} iremerwa, {{decline}} irangwa.',
+  'checkout.mobileMoney.phone': 'Nimero ya mobile money',
+  'checkout.mobileMoney.testHint': 'Igerageza: {{decline}} irangwa, {{timeout}} ntisubiza.',
+
+  'payment.failure.declined': 'Ubwishyu bwawe bwanzwe. Gerageza ubundi buryo bwo kwishyura.',
+  'payment.failure.insufficient-funds': 'Amafaranga ntahagije. Gerageza ubundi buryo bwo kwishyura.',
+  'payment.failure.expired-card': 'Iyi karita yarangije igihe. Koresha indi karita.',
+  'payment.failure.invalid-details': 'Amakuru yo kwishyura ntiyemewe. Yagenzure wongere ugerageze.',
+  'payment.failure.timeout': 'Igihe cyo kwishyura cyarenze. Ongera ugerageze.',
+  'payment.failure.cancelled': 'Kwishyura byahagaritswe.',
+
+  'orders.title': 'Ibyo natumije',
+  'orders.empty': 'Nta kintu uratumiza.',
+  'orders.browse': 'Reba ibiryo',
+  'orders.itemCount': { one: 'Ikintu {{count}}', other: 'Ibintu {{count}}' },
+  'orders.all': 'Amatumiza yose',
+  'orders.placed': 'Ryakozwe {{date}}',
+  'orders.notFound.title': 'Itumiza ntiryabonetse',
+  'orders.notFound.body': 'Nta tumiza rifite nimero {{id}} ryabonetse.',
+  'orders.notFound.back': 'Subira ku matumiza yawe',
+
+  'track.link': 'Kurikirana itumiza',
+  'track.backToOrder': 'Subira ku itumiza',
+  'track.title': 'Gukurikirana itumiza {{id}}',
+  'track.description.placed': 'Twakiriye itumiza ryawe, turaryemeza vuba.',
+  'track.description.accepted': 'Itumiza ryawe ryemewe kandi ritegereje igikoni.',
+  'track.description.preparing': 'Abatetsi bacu bari gutegura desert zawe.',
+  'track.description.ready': 'Itumiza ryawe riteguye kuri konteri.',
+  'track.description.out-for-delivery': 'Itumiza ryawe riri mu nzira rikugana.',
+  'track.description.delivered': 'Itumiza ryawe ryakugezeho. Uryoherwe!',
+  'track.description.cancelled': 'Iri tumiza ryahagaritswe.',
+  'track.description.refunded': "Amafaranga y'iri tumiza yasubijwe.",
+  'track.live.connecting': 'Turimo guhuza amakuru ako kanya…',
+  'track.live.live': 'Amakuru ako kanya arakora',
+  'track.live.polling': 'Amakuru ako kanya ntaboneka, turagenzura buri kanya',
+
+  'dashboard.welcome': 'Murakaza neza, {{name}}!',
+  'dashboard.subtitle': 'Cunga konti yawe kandi ukurikirane ibyo watumije.',
+  'dashboard.shop.title': 'Gura ibiryo',
+  'dashboard.shop.body': 'Reba urutonde wuzuze igitebo cyawe.',
+  'dashboard.orders.title': 'Ibyo natumije',
+  'dashboard.orders.body': 'Reba ibyo watumije n’igihe wabitumirije.',
+  'dashboard.profile.title': 'Umwirondoro',
+  'dashboard.profile.body': 'Reba amakuru ya konti yawe.',
+
+  'profile.title': 'Umwirondoro',
+  'profile.name': 'Izina',
+  'profile.email': 'Imeyili',
+  'profile.memberSince': 'Umunyamuryango kuva',
+
+  'auth.email': 'Aderesi ya imeyili',
+  'auth.emailPlaceholder': 'Andika imeyili yawe',
+  'auth.password': 'Ijambo ry’ibanga',
+  'auth.passwordPlaceholder': 'Andika ijambo ry’ibanga',
+  'auth.firstName': 'Izina ry’ibanze',
+  'auth.lastName': 'Izina ry’umuryango',
+  'auth.confirmPassword': 'Emeza ijambo ry’ibanga',
+  'auth.confirmPasswordPlaceholder': 'Ongera wandike ijambo ry’ibanga',
+  'auth.createPasswordPlaceholder': 'Hitamo ijambo ry’ibanga',
+  'auth.createStrongPasswordPlaceholder': 'Hitamo ijambo ry’ibanga rikomeye',
+  'auth.rememberMe': 'Nyibuka',
+  'auth.forgotPassword': 'Wibagiwe ijambo ry’ibanga?',
+  'auth.signIn': 'Injira',
+  'auth.createAccount': 'Fungura konti',
+  'auth.noAccount': 'Nta konti ufite?',
+  'auth.signUpFree': 'Iyandikishe ku buntu',
+  'auth.haveAccount': 'Usanzwe ufite konti?',
+  'auth.signInHere': 'Injira hano',
+  'auth.orContinueWith': 'Cyangwa ukomeze na',
+  'auth.terms': 'Nemeye <terms>Amategeko agenga serivisi</terms> na <privacy>Politiki y’ibanga</privacy>',
+  'auth.login.title': 'Murakaza neza',
+  'auth.login.subtitle': 'Injira muri konti yawe ukomeze',
+  'auth.invalidCredentials': 'Imeyili cyangwa ijambobanga si byo',
+  'auth.register.title': 'Fungura konti',
+  'auth.register.subtitle': 'Twifatanye uyu munsi',
+  'auth.register.success': 'Konti yafunguwe neza! Murakaza neza.',
+  'auth.forgot.title': "Wibagiwe ijambo ry'ibanga?",
+  'auth.forgot.subtitle': 'Nta kibazo! Andika imeyili yawe tukoherereze amabwiriza yo kurihindura',
+  'auth.forgot.email': 'Imeyili',
+  'auth.forgot.emailPlaceholder': 'Andika imeyili yawe',
+  'auth.forgot.emailHint': "Tuzohereza amabwiriza yo guhindura ijambo ry'ibanga kuri iyi meyili.",
+  'auth.forgot.submit': 'Ohereza amabwiriza',
+  'auth.forgot.backToSignIn': 'Subira ku kwinjira',
+  'auth.forgot.help.title': 'Ukeneye ubufasha?',
+  'auth.forgot.help.body': "Niba ufite ikibazo cyo kwinjira muri konti yawe, itsinda ryacu ry'ubufasha rirahari.",
+  'auth.forgot.contactSupport': "Vugana n'ubufasha",
+  'auth.forgot.sent.title': 'Reba imeyili yawe',
+  'auth.forgot.sent.body': "Twohereje amabwiriza yo guhindura ijambo ry'ibanga kuri",
+  'auth.forgot.next.title': 'Ibikurikiraho',
+  'auth.forgot.next.inbox': 'Reba ubutumwa bwawe bwa imeyili',
+  'auth.forgot.next.link': 'Kanda ku murongo uri muri imeyili',
+  'auth.forgot.next.password': "Shyiraho ijambo ry'ibanga rishya",
+  'auth.forgot.next.signIn': "Injira ukoresheje ijambo ry'ibanga rishya",
+  'auth.forgot.notReceived': 'Ntiwabonye imeyili? Reba muri spam cyangwa wongere ugerageze.',
+  'auth.forgot.resend': 'Ongera wohereze imeyili',
+  'auth.forgot.stillTrouble': 'Uracyafite ikibazo?',
+  'auth.forgot.sendFailed': 'Kohereza imeyili byanze. Ongera ugerageze.',
+  'auth.forgot.resendFailed': 'Kongera kohereza imeyili byanze. Ongera ugerageze.',
+
+  'password.meter': "Ugukomera kw'ijambo ry'ibanga",
+  'password.strength.very-weak': 'Ntirikomeye na gato',
+  'password.strength.weak': 'Ntirikomeye',
+  'password.strength.fair': 'Riringaniye',
+  'password.strength.strong': 'Rirakomeye',
+  'password.strength.very-strong': 'Rirakomeye cyane',
+  'password.feedback.tooShort': 'Koresha nibura inyuguti {{min}}',
+  'password.feedback.common': "Iri ni rimwe mu magambo y'ibanga akoreshwa cyane",
+  'password.feedback.personal': "Ntukoreshe izina ryawe cyangwa imeri yawe mu ijambo ry'ibanga",
+  'password.feedback.dictionaryWord': '"{{word}}" ni ijambo rimenyerewe kandi ryoroshye gukeka',
+  'password.feedback.repeated': 'Irinde inyuguti zisubiramo nka "aaa"',
+  'password.feedback.sequence': 'Irinde ibikurikirana nka "abc", "123" cyangwa "qwerty"',
+  'password.feedback.tooGuessable': "Iri jambo ry'ibanga riroroshye gukeka. Gerageza irirerure",
+  'password.feedback.addVariety': 'Ongeramo inyuguti nkuru, imibare cyangwa ibimenyetso',
+  'password.feedback.addLength': 'Ongeramo irindi jambo cyangwa inyuguti nkeya',
+
+  'validation.emailRequired': 'Imeyili irakenewe',
+  'validation.emailInvalid': 'Andika imeyili yemewe',
+  'validation.passwordRequired': 'Ijambo ry’ibanga rirakenewe',
+  'validation.firstNameRequired': 'Izina ry’ibanze rirakenewe',
+  'validation.lastNameRequired': 'Izina ry’umuryango rirakenewe',
+  'validation.confirmPasswordRequired': 'Emeza ijambo ry’ibanga',
+  'validation.passwordMismatch': 'Amagambo y’ibanga ntahura',
+  'validation.termsRequired': 'Ugomba kwemera amategeko n’amabwiriza',
+  'validation.loginFailed': 'Kwinjira byanze. Ongera ugerageze.',
+  'validation.registrationFailed': 'Kwiyandikisha byanze. Ongera ugerageze.',
+  'validation.submitFailed': 'Habayeho ikibazo. Ongera ugerageze.',
+  'validation.emailTaken': 'Hari konti isanzwe ikoresha iyi imeyili',
+  'validation.messageRequired': 'Ubutumwa burakenewe',
+  'validation.messageMin': 'Ubutumwa bugomba kugira nibura inyuguti {{min}}',
+  'validation.messageMax': 'Ubutumwa ntibugomba kurenza inyuguti {{max}}',
+  'validation.ratingRequired': 'Hitamo amanota kuva ku nyenyeri 1 kugeza kuri 5',
+  'validation.reviewRequired': 'Andika igitekerezo cyawe',
+  'validation.reviewMin': 'Igitekerezo kigomba kugira nibura inyuguti {{min}}',
+  'validation.reviewMax': 'Igitekerezo ntikigomba kurenza inyuguti {{max}}',
+  'validation.nameRequired': 'Izina rirakenewe',
+  'validation.phoneRequired': 'Nimero ya telefoni irakenewe',
+  'validation.phoneInvalid': 'Andika nimero ya telefoni yemewe',
+  'validation.addressRequired': 'Aderesi irakenewe',
+  'validation.cityRequired': 'Umujyi urakenewe',
+  'validation.slotRequired': 'Hitamo igihe',
+  'validation.slotUnavailable': 'Icyo gihe ntikikiboneka',
+  'validation.paymentRequired': 'Hitamo uburyo bwo kwishyura',
+  'validation.cardNumberRequired': 'Nimero y’ikarita irakenewe',
+  'validation.cardNumberInvalid': 'Andika nimero y’ikarita yemewe',
+  'validation.expiryRequired': 'Itariki izarangiriraho irakenewe',
+  'validation.expiryInvalid': 'Koresha uburyo MM/YY',
+  'validation.cardExpired': 'Iyi karita yarangije igihe',
+  'validation.cvcInvalid': 'Andika kode y’umutekano y’imibare 3 cyangwa 4',
+  'validation.cardNameRequired': 'Izina riri ku ikarita rirakenewe',
+  'validation.productIdRequired': "Nimero y'igicuruzwa irakenewe",
+  'validation.productIdInvalid': 'Nimero ni umubare wuzuye uhera kuri 1',
+  'validation.productIdTaken': 'Igicuruzwa {{id}} gisanzweho',
+  'validation.priceRequired': 'Igiciro kirakenewe',
+  'validation.priceInvalid': 'Andika igiciro nka 6.50',
+  'validation.pricePositive': 'Igiciro kigomba kurenza zeru',
+  'validation.categoryRequired': 'Icyiciro kirakenewe',
+  'validation.stockInvalid': "Andika umubare wuzuye w'ibice, 0 cyangwa birenga",
+
+  'contact.title': 'Twandikire',
+  'contact.getInTouch': 'Tuvugane',
+  'contact.intro': 'Ufite ibibazo ku biryo byacu cyangwa ukeneye ubufasha ku itumiza? Twishimiye kukumva!',
+  'contact.address': 'Aderesi',
+  'contact.phone': 'Telefoni',
+  'contact.email': 'Imeyili',
+  'contact.hours': 'Amasaha',
+  'contact.hoursWeekdays': 'Kuwa mbere - Kuwa gatandatu: 8:00 - 20:00',
+  'contact.hoursSunday': 'Ku cyumweru: 10:00 - 18:00',
+  'contact.form.name': 'Izina *',
+  'contact.form.email': 'Imeyili *',
+  'contact.form.message': 'Ubutumwa *',
+  'contact.form.send': 'Ohereza ubutumwa',
+  'contact.form.sending': 'Biroherezwa...',
+  'contact.form.website': 'Urubuga',
+  'contact.sent.title': 'Ubutumwa bwoherejwe!',
+  'contact.sent.body': 'Murakoze kutwandikira. Tuzabasubiza vuba!',
+  'contact.error.unavailable': 'Ubutumwa ntibushobora koherezwa ubu. Duhamagare cyangwa utwandikire kuri imeri.',
+  'contact.error.tooFast': 'Wihuse cyane! Reba ubutumwa bwawe hanyuma wongere ubwohereze.',
+  'contact.error.rateLimited': { one: "Umaze kohereza ubutumwa bwinshi. Ongera ugerageze nyuma y'umunota {{count}}.", other: "Umaze kohereza ubutumwa bwinshi. Ongera ugerageze nyuma y'iminota {{count}}." },
+  'contact.error.expired': 'Iyi fomu imaze igihe ifunguye. Ongera wohereze ubutumwa bwawe.',
+  'contact.error.invalid': 'Reba neza fomu hanyuma wongere ugerageze.',
+
+  'inbox.title': "Ubutumwa bw'abakiriya",
+  'inbox.openCount': { one: 'Ubutumwa {{count}} butegereje igisubizo', other: 'Ubutumwa {{count}} butegereje igisubizo' },
+  'inbox.filter': 'Erekana ubutumwa',
+  'inbox.filter.open': 'Bifunguye',
+  'inbox.filter.resolved': 'Byakemutse',
+  'inbox.filter.all': 'Byose',
+  'inbox.loading': 'Ubutumwa buri gufunguka...',
+  'inbox.empty': 'Nta butumwa buhari.',
+  'inbox.retry': 'Ongera ugerageze',
+  'inbox.loadFailed': 'Ntibyashobotse kuzana ubutumwa.',
+  'inbox.awaitingReply': 'Butegereje igisubizo',
+  'inbox.resolvedAt': 'Byakemutse {{date}}',
+  'inbox.markResolved': 'Shyira mu byakemutse',
+  'inbox.reopen': 'Ongera ufungure',
+  'inbox.updateFailed': 'Ntibyashobotse guhindura ubutumwa. Ongera ugerageze.',
+
+  'admin.products.title': 'Ibicuruzwa',
+  'admin.products.new': 'Igicuruzwa gishya',
+  'admin.products.back': 'Ibicuruzwa byose',
+  'admin.products.loading': 'Ibicuruzwa biri gufunguka...',
+  'admin.products.retry': 'Ongera ugerageze',
+  'admin.products.empty': 'Nta bicuruzwa birahari.',
+  'admin.products.moveUp': 'Zamura {{name}}',
+  'admin.products.moveDown': 'Manura {{name}}',
+  'admin.products.archivedBadge': 'Byabitswe',
+  'admin.products.stock': { one: '{{count}} ku munsi', other: '{{count}} ku munsi' },
+  'admin.products.edit': 'Hindura',
+  'admin.products.archive': 'Bika',
+  'admin.products.restore': 'Garura',
+  'admin.products.archived': '{{name}} ntikiri ku isoko',
+  'admin.products.restored': '{{name}} cyagarutse ku isoko',
+  'admin.products.updateFailed': 'Ntibyashobotse guhindura igicuruzwa. Ongera ugerageze.',
+  'admin.products.storageFull': "Ububiko bw'iyi mushakisha bwuzuye, impinduka ntizabitswe. Gerageza amafoto make cyangwa mato.",
+  'admin.product.newTitle': 'Igicuruzwa gishya',
+  'admin.product.editTitle': 'Hindura {{name}}',
+  'admin.product.notFound': 'Nta gicuruzwa gifite nimero {{id}}.',
+  'admin.product.id': "Nimero y'igicuruzwa",
+  'admin.product.name': 'Izina',
+  'admin.product.price': 'Igiciro ({{currency}})',
+  'admin.product.category': 'Icyiciro',
+  'admin.product.stock': 'Ibice bitegurwa ku munsi',
+  'admin.product.ingredients': 'Ibigize',
+  'admin.product.ingredientsHint': 'Tandukanya ibigize ukoresheje akitso, ufatiye ku byinshi.',
+  'admin.product.allergens': 'Ibitera ubwivumbure birimo',
+  'admin.product.allergensUnlisted': 'Ntibiragenzurwa',
+  'admin.product.dietary': 'Imirire',
+  'admin.product.images': 'Amafoto',
+  'admin.product.image.desktop': 'Mudasobwa',
+  'admin.product.image.tablet': 'Tabuleti',
+  'admin.product.image.mobile': 'Telefone',
+  'admin.product.image.thumbnail': 'Ifoto nto',
+  'admin.product.image.uploading': 'Birimo koherezwa...',
+  'admin.product.image.fillEmpty': 'Koresha ahari ubusa',
+  'admin.product.image.required': 'Ongeraho ifoto',
+  'admin.product.image.notImage': 'Hitamo ifoto ya JPEG, PNG, WebP cyangwa GIF',
+  'admin.product.image.tooLarge': 'Ifoto ntigomba kurenza MB {{max}}',
+  'admin.product.image.uploadFailed': 'Kohereza byanze. Ongera ugerageze.',
+  'admin.product.imagesMissing': "Buri mwanya w'ifoto ugomba kugira ifoto",
+  'admin.product.problem.invalidId': "Nimero y'igicuruzwa igomba kuba umubare wuzuye urenze zeru",
+  'admin.product.problem.idTaken': 'Igicuruzwa gifite nimero {{id}} gisanzweho',
+  'admin.product.problem.idChanged': "Nimero y'igicuruzwa ntishobora guhindurwa",
+  'admin.product.problem.nameRequired': 'Ibicuruzwa bigomba kugira izina',
+  'admin.product.problem.categoryRequired': 'Ibicuruzwa bigomba kugira icyiciro',
+  'admin.product.problem.invalidPrice': 'Igiciro kigomba kurenza zeru',
+  'admin.product.problem.invalidStock': "Umubare w'ibiri mu bubiko ntushobora kujya munsi ya zeru",
+  'admin.product.problem.blankIngredient': 'Ibigize igicuruzwa ntibishobora kuba ubusa',
+  'admin.product.problem.unknownAllergen': 'Ikintu gitera ubwivumbure kitazwi',
+  'admin.product.problem.unknownDietaryTag': "Ikirango cy'imirire kitazwi",
+  'admin.product.problem.glutenConflict': 'Ibicuruzwa birimo gluten ntibishobora kwitwa ko bitarimo gluten',
+  'admin.product.problem.veganConflict': 'Ibicuruzwa birimo amata cyangwa amagi ntibishobora kwitwa ibikomoka ku bimera gusa',
+  'admin.product.save': 'Bika igicuruzwa',
+  'admin.product.saving': 'Birimo kubikwa...',
+  'admin.product.created': '{{name}} cyongewemo',
+  'admin.product.updated': '{{name}} cyabitswe',
+
+  'admin.orders.title': 'Amatumiza',
+  'admin.orders.empty': 'Nta tumiza riratangwa.',
+  'admin.orders.updated': 'Itumiza {{id}} ubu ni: {{status}}',
+  'admin.orders.updateFailed': 'Ntitwashoboye kuvugurura iri tumiza. Ongera ugerageze.',
+  'admin.orders.paymentMissing': "Nta makuru y'ubwishyu {{id}} ahari, bityo ntibishobora gusubizwa hano. Bisubize unyuze ku rubuga rw'utanga serivisi yo kwishyura.",
+  'admin.orders.notifyFailed': 'Itumiza {{id}} ryavuguruwe, ariko abakiriya ntibamenyeshejwe.',
+  'admin.orders.viewTimeline': 'Reba urugendo',
+  'admin.orders.fulfilment.delivery': 'Kugezwaho',
+  'admin.orders.fulfilment.pickup': 'Kwifatira',
+  'admin.orders.payment.pending': 'Kwishyura birategerejwe',
+  'admin.orders.payment.authorized': 'Kwishyura byemejwe',
+  'admin.orders.payment.captured': 'Byishyuwe',
+  'admin.orders.payment.failed': 'Kwishyura byanze',
+  'admin.orders.payment.refunded': 'Byasubijwe',
+  'admin.orders.action.accepted': 'Emera',
+  'admin.orders.action.preparing': 'Tangira gutegura',
+  'admin.orders.action.ready': 'Bigaragaze ko riteguye',
+  'admin.orders.action.out-for-delivery': 'Ryohereze',
+  'admin.orders.action.delivered': 'Bigaragaze ko ryagejejwe',
+  'admin.orders.action.cancelled': 'Hagarika itumiza',
+  'admin.orders.action.refunded': 'Subiza amafaranga',
+  'admin.orders.action.placed': 'Bigaragaze ko ryatanzwe',
+
+  'admin.reviews.title': 'Ibitekerezo',
+  'admin.reviews.pendingCount': { one: 'Igitekerezo {{count}} gitegereje kugenzurwa', other: 'Ibitekerezo {{count}} bitegereje kugenzurwa' },
+  'admin.reviews.filter': 'Shungura ibitekerezo',
+  'admin.reviews.filter.all': 'Byose',
+  'admin.reviews.empty': 'Nta bitekerezo bihari.',
+  'admin.reviews.approve': 'Emeza',
+  'admin.reviews.reject': 'Wanga',
+  'admin.reviews.approved': 'Igitekerezo cya {{name}} cyatangajwe',
+  'admin.reviews.rejected': 'Igitekerezo cya {{name}} cyanzwe',
+  'admin.reviews.pending': 'Igitekerezo cya {{name}} cyongeye gutegereza kugenzurwa',
+  'admin.reviews.updateFailed': 'Ntitwashoboye kuvugurura igitekerezo. Ongera ugerageze.',
+  'admin.reviews.staffOnly': 'Abakozi bonyine ni bo bagenzura ibitekerezo.',
+
+  'about.title': 'Ibyerekeye iduka ryacu',
+  'about.lead': 'Murakaza neza mu iduka ryacu ry’ibiryo biryohera, aho buri kiryo gitegurwa n’urukundo n’ibikoresho byiza kurusha ibindi.',
+  'about.story': 'Kuva twatangira, twiyemeje kubagezaho ibiryo biryohera byiza byo hirya no hino ku isi. Kuva kuri crème brûlée y’Abafaransa kugeza ku biryo bishya bivanze, buri kiryo kiri ku rutonde rwacu gifite inkuru y’ubuhanga mu guteka.',
+  'about.quality': 'Kwita ku bwiza bituma duhitamo ibikoresho byiza gusa, tugakorana n’abanyabukorikori b’inzobere, kandi tukubahiriza ubuziranenge bwo hejuru mu byo dukora byose.',
+  'about.sourcing.title': '🌱 Ibikoresho birambye',
+  'about.sourcing.body': 'Dukorana n’abacuruzi bo mu karere kandi dukoresha ibipfunyika bitangiza ibidukikije.',
+  'about.craft.title': '👨🍳 Ubuhanga',
+  'about.craft.body': 'Ibiryo byacu bitegurwa n’abatetsi b’inzobere bafite uburambe bw’imyaka myinshi.',
+  'about.delivery.title': '🚚 Bigezwa ari bishya',
+  'about.delivery.body': 'Itangwa ritangiza ikirere rituma ibiryo byawe bikugeraho ari bishya kandi biryoshye.',
+
+  'terms.title': "Amabwiriza y'Imikoreshereze",
+  'terms.orders.title': 'Ibyatumijwe',
+  'terms.orders.body': 'Gutumiza ni ugusaba kugura ibiryo biri mu gatebo kawe ku biciro byerekanywe. Twemeza buri cyatumijwe iyo igikoni cyacu kimaze kucyakira.',
+  'terms.account.title': 'Konti Yawe',
+  'terms.account.body': "Ni wowe ushinzwe kurinda ijambo ryibanga ryawe n'ibikorwa byose bikorerwa kuri konti yawe. Tubwire ako kanya niba ukeka ko hari undi wayikoresheje.",
+  'terms.freshness.title': 'Ubushya',
+  'terms.freshness.body': 'Ibiryo byacu bikorwa bishya buri munsi kandi biryoha cyane ku munsi bigezwaho. Banza urebe amakuru ku bitera ubwivumbure mbere yo gutumiza.',
+
+  'privacy.title': "Politiki y'Ibanga",
+  'privacy.collect.title': 'Ibyo Tubika',
+  'privacy.collect.body': "Tubika izina ryawe, aderesi imeyili n'amateka y'ibyo watumije kugira ngo tugushyikirize ibiryo kandi tukwereke ibyo watumije mbere.",
+  'privacy.storage.title': 'Uko Tubibika',
+  'privacy.storage.body': "Amagambo y'ibanga ntabwo abikwa uko yanditse. Tubika gusa ikimenyetso cyayo kidashobora gusubizwamo ijambo ryibanga ryawe.",
+  'privacy.choices.title': 'Amahitamo Yawe',
+  'privacy.choices.body': "Ushobora gusohoka igihe cyose, kandi ushobora kutwandikira ngo dusibe konti yawe n'amateka y'ibyo watumije.",
+
+  'notFound.title': 'Paji ntiyabonetse',
+  'notFound.body': 'Ihangane! Paji ushaka ntibaho. Ishobora kuba yarimuwe, yarasibwe, cyangwa aderesi wanditse atari yo.',
+  'notFound.home': 'Subira ahabanza',
+  'notFound.back': 'Subira inyuma',
+  'notFound.suggestions': 'Ushobora kuba ushaka:',
+  'notFound.collection': 'Urutonde rw’ibiryo byacu',
+  'notFound.about': 'Ibyerekeye iduka ryacu',
+  'notFound.contact': 'Twandikire',
+};
+
+export default rw;
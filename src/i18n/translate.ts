@@ -0,0 +1,50 @@
+export const LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'fr', label: 'Français' },
+  { code: 'rw', label: 'Kinyarwanda' },
+] as const;
+
+export type Language = (typeof LANGUAGES)[number]['code'];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Plural forms follow Intl.PluralRules categories; `other` is always required
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type TranslationParams = Record<string, string | number>;
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.some((language) => language.code === value);
+}
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+function selectPlural(language: Language, message: PluralMessage, count: number) {
+  let rules = pluralRules.get(language);
+  if (!rules) {
+    rules = new Intl.PluralRules(language);
+    pluralRules.set(language, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+}
+
+// Replaces {{name}} placeholders; unknown placeholders are left visible so
+// a missing parameter is easy to spot instead of silently rendering blank
+function interpolate(template: string, params: TranslationParams = {}) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+export function formatMessage(
+  language: Language,
+  message: Message,
+  params?: TranslationParams
+) {
+  const template =
+    typeof message === 'string'
+      ? message
+      : selectPlural(language, message, Number(params?.count ?? 0));
+  return interpolate(template, params);
+}
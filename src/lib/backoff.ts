@@ -0,0 +1,7 @@
+// How long to wait before retry number `attempt` (counting from 1): doubling
+// from `baseMs` up to `maxMs`, with a random spread over the upper half so
+// clients that lost the same server don't all come back at the same moment
+export function backoffDelay(attempt: number, baseMs = 1000, maxMs = 30_000, random = Math.random) {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
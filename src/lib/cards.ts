@@ -0,0 +1,80 @@
+import type { TranslationKey } from '../i18n/catalogs';
+
+export interface CardDetails {
+  number: string;
+  // As typed by the customer, MM/YY
+  expiry: string;
+  cvc: string;
+  name: string;
+}
+
+export const EMPTY_CARD: CardDetails = { number: '', expiry: '', cvc: '', name: '' };
+
+export function normalizeCardNumber(number: string) {
+  return number.replace(/[\s-]/g, '');
+}
+
+// Groups digits in fours as the customer types: "4242424242424242" -> "4242 4242 4242 4242"
+export function formatCardNumber(number: string) {
+  return normalizeCardNumber(number).replace(/\D/g, '').slice(0, 19).replace(/(\d{4})(?=\d)/g, '$1 ');
+}
+
+export function maskCardNumber(number: string) {
+  return `•••• ${normalizeCardNumber(number).slice(-4)}`;
+}
+
+export function luhnCheck(number: string) {
+  const digits = normalizeCardNumber(number);
+  if (!/^\d{12,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export function parseExpiry(expiry: string) {
+  const match = /^\s*(\d{2})\s*\/\s*(\d{2})\s*$/.exec(expiry);
+  if (!match) return null;
+
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  return month >= 1 && month <= 12 ? { month, year } : null;
+}
+
+// Cards are valid through the last day of their expiry month
+export function isExpired({ month, year }: { month: number; year: number }, now = new Date()) {
+  return now >= new Date(year, month, 1);
+}
+
+export type CardErrors = Partial<Record<keyof CardDetails, TranslationKey>>;
+
+export function validateCard(card: CardDetails, now = new Date()): CardErrors {
+  const errors: CardErrors = {};
+
+  if (!normalizeCardNumber(card.number)) {
+    errors.number = 'validation.cardNumberRequired';
+  } else if (!luhnCheck(card.number)) {
+    errors.number = 'validation.cardNumberInvalid';
+  }
+
+  const expiry = parseExpiry(card.expiry);
+  if (!card.expiry.trim()) {
+    errors.expiry = 'validation.expiryRequired';
+  } else if (!expiry) {
+    errors.expiry = 'validation.expiryInvalid';
+  } else if (isExpired(expiry, now)) {
+    errors.expiry = 'validation.cardExpired';
+  }
+
+  if (!/^\d{3,4}$/.test(card.cvc.trim())) errors.cvc = 'validation.cvcInvalid';
+  if (!card.name.trim()) errors.name = 'validation.cardNameRequired';
+
+  return errors;
+}
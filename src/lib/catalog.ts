@@ -0,0 +1,63 @@
+import type { Product } from '../data/products';
+import { isFreeFrom, type Allergen } from './dietary';
+import type { RatingSummary } from './reviews';
+
+// Labels live in the translation catalogs under `sort.<option>`
+export const SORT_OPTIONS = ['featured', 'top-rated', 'price-asc', 'price-desc', 'name-asc', 'name-desc'] as const;
+
+export type SortOption = (typeof SORT_OPTIONS)[number];
+
+export interface CatalogFilters {
+  category: string | null;
+  query: string;
+  sort: SortOption;
+  // Desserts containing any of these are hidden
+  excludeAllergens: Allergen[];
+}
+
+export function isSortOption(value: string | null): value is SortOption {
+  return SORT_OPTIONS.some((option) => option === value);
+}
+
+// "creme brulee" should find "Crème Brûlée"
+function normalize(text: string) {
+  return text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase().trim();
+}
+
+export function getCategories(products: Product[]) {
+  return [...new Set(products.map((product) => product.category))];
+}
+
+type Ratings = ReadonlyMap<number, RatingSummary>;
+
+const comparators: Record<SortOption, ((a: Product, b: Product, ratings: Ratings) => number) | null> = {
+  featured: null,
+  // Best average first, more reviews breaking ties; unrated desserts go last
+  'top-rated': (a, b, ratings) => {
+    const first = ratings.get(a.id);
+    const second = ratings.get(b.id);
+    return (second?.average ?? 0) - (first?.average ?? 0) || (second?.count ?? 0) - (first?.count ?? 0);
+  },
+  'price-asc': (a, b) => a.price - b.price,
+  'price-desc': (a, b) => b.price - a.price,
+  'name-asc': (a, b) => a.name.localeCompare(b.name),
+  'name-desc': (a, b) => b.name.localeCompare(a.name),
+};
+
+export function filterProducts(
+  products: Product[],
+  { category, query, sort, excludeAllergens }: CatalogFilters,
+  ratings: Ratings = new Map()
+) {
+  const needle = normalize(query);
+
+  const matches = products.filter((product) => {
+    if (category && product.category !== category) return false;
+    if (!isFreeFrom(product, excludeAllergens)) return false;
+    if (!needle) return true;
+    return normalize(`${product.name} ${product.category}`).includes(needle);
+  });
+
+  const compare = comparators[sort];
+  return compare ? matches.sort((a, b) => compare(a, b, ratings)) : matches;
+}
@@ -0,0 +1,170 @@
+import type { TranslationKey } from '../i18n/catalogs';
+import { EMPTY_CARD, validateCard, type CardDetails } from './cards';
+import type { Fulfilment } from './fulfilment';
+import { isValidEmail } from './validation';
+
+export const CHECKOUT_STEPS = ['contact', 'fulfilment', 'address', 'slot', 'payment', 'review'] as const;
+
+export type CheckoutStep = (typeof CHECKOUT_STEPS)[number];
+
+export type PaymentMethod = 'card' | 'mobile-money' | 'cash';
+
+export interface ContactDetails {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+export interface Address {
+  line1: string;
+  line2: string;
+  city: string;
+  postalCode: string;
+  instructions: string;
+}
+
+export interface CheckoutDetails {
+  contact: ContactDetails;
+  fulfilment: Fulfilment;
+  address: Address;
+  // ISO start time of the chosen slot
+  slot: string | null;
+  paymentMethod: PaymentMethod | null;
+  card: CardDetails;
+  mobileMoneyPhone: string;
+}
+
+// Field name -> message key; an empty object means the step is valid
+export type CheckoutErrors = Partial<Record<string, TranslationKey>>;
+
+export const EMPTY_CHECKOUT: CheckoutDetails = {
+  contact: { name: '', email: '', phone: '' },
+  fulfilment: 'delivery',
+  address: { line1: '', line2: '', city: '', postalCode: '', instructions: '' },
+  slot: null,
+  paymentMethod: null,
+  card: EMPTY_CARD,
+  mobileMoneyPhone: '',
+};
+
+export function isCheckoutStep(value: unknown): value is CheckoutStep {
+  return CHECKOUT_STEPS.some((step) => step === value);
+}
+
+// Pickup orders have nowhere to deliver to, so the address step drops out
+export function stepsFor(fulfilment: Fulfilment): CheckoutStep[] {
+  return CHECKOUT_STEPS.filter((step) => fulfilment === 'delivery' || step !== 'address');
+}
+
+const SLOT_HOURS = [10, 12, 14, 16, 18];
+const SLOT_LENGTH_HOURS = 2;
+const SLOT_DAYS = 3;
+// The kitchen needs this long to prepare an order before its slot starts
+const LEAD_TIME_MS = 60 * 60 * 1000;
+
+export function slotEnd(start: string) {
+  const end = new Date(start);
+  end.setHours(end.getHours() + SLOT_LENGTH_HOURS);
+  return end.toISOString();
+}
+
+export function getTimeSlots(now = new Date()) {
+  const slots: string[] = [];
+
+  for (let day = 0; day < SLOT_DAYS; day++) {
+    for (const hour of SLOT_HOURS) {
+      const start = new Date(now);
+      start.setDate(start.getDate() + day);
+      start.setHours(hour, 0, 0, 0);
+      if (start.getTime() - now.getTime() >= LEAD_TIME_MS) {
+        slots.push(start.toISOString());
+      }
+    }
+  }
+  return slots;
+}
+
+const PHONE_PATTERN = /^\+?[\d\s()-]{7,}$/;
+
+export function isValidPhone(phone: string) {
+  return PHONE_PATTERN.test(phone.trim());
+}
+
+export function validateStep(
+  step: CheckoutStep,
+  details: CheckoutDetails,
+  now = new Date()
+): CheckoutErrors {
+  const errors: CheckoutErrors = {};
+
+  switch (step) {
+    case 'contact': {
+      const { name, email, phone } = details.contact;
+      if (!name.trim()) errors.name = 'validation.nameRequired';
+      if (!email) {
+        errors.email = 'validation.emailRequired';
+      } else if (!isValidEmail(email)) {
+        errors.email = 'validation.emailInvalid';
+      }
+      if (!phone.trim()) {
+        errors.phone = 'validation.phoneRequired';
+      } else if (!isValidPhone(phone)) {
+        errors.phone = 'validation.phoneInvalid';
+      }
+      break;
+    }
+
+    case 'fulfilment':
+      // Always one of the two options; nothing the customer can get wrong
+      break;
+
+    case 'address': {
+      const { line1, city } = details.address;
+      if (!line1.trim()) errors.line1 = 'validation.addressRequired';
+      if (!city.trim()) errors.city = 'validation.cityRequired';
+      break;
+    }
+
+    case 'slot':
+      if (!details.slot) {
+        errors.slot = 'validation.slotRequired';
+      } else if (!getTimeSlots(now).includes(details.slot)) {
+        // A slot picked before a refresh may have closed in the meantime
+        errors.slot = 'validation.slotUnavailable';
+      }
+      break;
+
+    case 'payment':
+      if (!details.paymentMethod) {
+        errors.paymentMethod = 'validation.paymentRequired';
+      } else if (details.paymentMethod === 'card') {
+        const card = validateCard(details.card, now);
+        errors.cardNumber = card.number;
+        errors.cardExpiry = card.expiry;
+        errors.cardCvc = card.cvc;
+        errors.cardName = card.name;
+      } else if (details.paymentMethod === 'mobile-money') {
+        if (!details.mobileMoneyPhone.trim()) {
+          errors.mobileMoneyPhone = 'validation.phoneRequired';
+        } else if (!isValidPhone(details.mobileMoneyPhone)) {
+          errors.mobileMoneyPhone = 'validation.phoneInvalid';
+        }
+      }
+      break;
+
+    case 'review':
+      return stepsFor(details.fulfilment)
+        .filter((other) => other !== 'review')
+        .reduce<CheckoutErrors>((all, other) => ({ ...all, ...validateStep(other, details, now) }), {});
+  }
+
+  // Drop the fields that passed so callers can count the remaining errors
+  return Object.fromEntries(Object.entries(errors).filter(([, message]) => message !== undefined));
+}
+
+export function formatSlot(start: string, locale: string) {
+  const from = new Date(start);
+  const day = new Intl.DateTimeFormat(locale, { weekday: 'short', day: 'numeric', month: 'short' }).format(from);
+  const time = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' });
+  return `${day} · ${time.formatRange(from, new Date(slotEnd(start)))}`;
+}
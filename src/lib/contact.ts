@@ -0,0 +1,52 @@
+import { email, maxLength, minLength, required, type FieldError, type FormSchema } from './validation';
+
+export interface ContactValues {
+  name: string;
+  email: string;
+  message: string;
+  // Honeypot: hidden from people, so anything typed here came from a bot
+  website: string;
+}
+
+export const EMPTY_CONTACT: ContactValues = { name: '', email: '', message: '', website: '' };
+
+export const MESSAGE_MIN_LENGTH = 10;
+export const MESSAGE_MAX_LENGTH = 2000;
+
+// Nobody reads the form and types a message faster than this; scripts do
+export const MIN_FILL_TIME_MS = 3000;
+export const RATE_LIMIT_MAX_MESSAGES = 3;
+export const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+export const contactSchema: FormSchema<ContactValues> = {
+  name: { rules: [required('validation.nameRequired')] },
+  email: { rules: [required('validation.emailRequired'), email()] },
+  message: {
+    rules: [
+      required('validation.messageRequired'),
+      minLength(MESSAGE_MIN_LENGTH, 'validation.messageMin'),
+      maxLength(MESSAGE_MAX_LENGTH, 'validation.messageMax'),
+    ],
+  },
+};
+
+export interface ContactSubmission extends ContactValues {
+  // Issued by the server when the form is shown; it records when filling started
+  formToken: string;
+}
+
+export interface ContactMessage {
+  id: string;
+  name: string;
+  email: string;
+  message: string;
+  createdAt: string;
+  // Null while the message still needs a reply
+  resolvedAt: string | null;
+}
+
+export type ContactRejection =
+  | { reason: 'invalid'; errors: Partial<Record<keyof ContactValues, FieldError>> }
+  | { reason: 'too-fast' }
+  | { reason: 'expired' }
+  | { reason: 'rate-limited'; retryAfterSeconds: number };
@@ -0,0 +1,74 @@
+import { money, type Money } from './money';
+
+export interface CurrencyConfig {
+  currency: string;
+  locale: string;
+  // Units of `currency` per unit of BASE_CURRENCY
+  rate: number;
+}
+
+// Catalog, cart, promotion and order amounts are always minor units (cents)
+// of this currency, whatever the shop displays
+export const BASE_CURRENCY = 'USD';
+
+const locale = import.meta.env.VITE_LOCALE ?? 'en-US';
+const displayCurrency = import.meta.env.VITE_CURRENCY ?? BASE_CURRENCY;
+const exchangeRate = Number(import.meta.env.VITE_EXCHANGE_RATE);
+const converts = displayCurrency !== BASE_CURRENCY && Number.isFinite(exchangeRate) && exchangeRate > 0;
+
+// What prices are typed in and stored as
+export const baseCurrencyConfig: CurrencyConfig = { currency: BASE_CURRENCY, locale, rate: 1 };
+
+// Set VITE_CURRENCY=RWF, VITE_EXCHANGE_RATE=1300 (francs per dollar) and
+// VITE_LOCALE=rw-RW to show prices in Rwandan francs. This only changes the
+// display: amounts are converted as they're formatted. Without a usable rate
+// prices stay in dollars rather than showing cents as francs.
+export const currencyConfig: CurrencyConfig = converts
+  ? { currency: displayCurrency, locale, rate: exchangeRate }
+  : baseCurrencyConfig;
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter({ currency, locale }: CurrencyConfig) {
+  const key = `${locale}|${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+// How many minor units make one major unit: 100 for USD, 1 for RWF
+export function minorUnitFactor(config: CurrencyConfig = currencyConfig) {
+  return 10 ** (getFormatter(config).resolvedOptions().maximumFractionDigits ?? 2);
+}
+
+// `amount` is in base currency minor units; it is converted to `config`'s
+// currency and rounded to what that currency shows
+export function formatMoney(amount: Money, config: CurrencyConfig = currencyConfig) {
+  return getFormatter(config).format((amount / minorUnitFactor(baseCurrencyConfig)) * config.rate);
+}
+
+// Reads an amount typed in major units ("6.50", "6,50", "1200") back into
+// minor units. Null when the text isn't a plain amount or has more decimal
+// places than the currency allows. Prices are entered in the base currency
+// so what staff type is exactly what is stored.
+export function parseMoney(input: string, config: CurrencyConfig = baseCurrencyConfig): Money | null {
+  const match = input.trim().replace(',', '.').match(/^(\d+)(?:\.(\d*))?$/);
+  if (!match) return null;
+
+  const factor = minorUnitFactor(config);
+  const digits = Math.log10(factor);
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > digits) return null;
+
+  const minorUnits = Number(whole) * factor + Number(fraction.padEnd(digits, '0') || 0);
+  return Number.isSafeInteger(minorUnits) ? money(minorUnits) : null;
+}
+
+// The inverse of `parseMoney`, for pre-filling inputs: no symbol or grouping
+export function toMajorUnits(amount: Money, config: CurrencyConfig = baseCurrencyConfig) {
+  const factor = minorUnitFactor(config);
+  return (amount / factor).toFixed(Math.log10(factor));
+}
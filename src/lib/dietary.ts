@@ -0,0 +1,92 @@
+import type { Product } from '../data/products';
+import type { TranslatableProblem } from './errors';
+
+// The allergens we label and let shoppers filter out. Labels live in the
+// translation catalogs under `allergen.<allergen>`.
+export const ALLERGENS = ['nuts', 'gluten', 'dairy', 'egg'] as const;
+
+export type Allergen = (typeof ALLERGENS)[number];
+
+// Labels live in the translation catalogs under `diet.<tag>`
+export const DIETARY_TAGS = ['vegan', 'gluten-free'] as const;
+
+export type DietaryTag = (typeof DIETARY_TAGS)[number];
+
+export type DietaryInfo = Pick<Product, 'ingredients' | 'allergens' | 'dietary'>;
+
+export function isAllergen(value: unknown): value is Allergen {
+  return ALLERGENS.some((allergen) => allergen === value);
+}
+
+export function isDietaryTag(value: unknown): value is DietaryTag {
+  return DIETARY_TAGS.some((tag) => tag === value);
+}
+
+// Why a product's tags can't all be true, or null when they agree
+export function dietaryConflict({ allergens, dietary }: Pick<Product, 'allergens' | 'dietary'>): TranslatableProblem | null {
+  if (dietary.includes('gluten-free') && allergens?.includes('gluten')) {
+    return {
+      key: 'admin.product.problem.glutenConflict',
+      message: 'Products containing gluten cannot be tagged gluten-free',
+    };
+  }
+  if (dietary.includes('vegan') && (allergens?.includes('dairy') || allergens?.includes('egg'))) {
+    return {
+      key: 'admin.product.problem.veganConflict',
+      message: 'Products containing dairy or egg cannot be tagged vegan',
+    };
+  }
+  return null;
+}
+
+// "flour, eggs , , milk" -> ["flour", "eggs", "milk"]
+export function parseIngredients(text: string) {
+  return text
+    .split(',')
+    .map((ingredient) => ingredient.trim())
+    .filter(Boolean);
+}
+
+// A product whose allergens aren't listed can't be promised free of anything
+export function isFreeFrom(product: Pick<Product, 'allergens'>, excluded: readonly Allergen[]) {
+  if (excluded.length === 0) return true;
+  return product.allergens !== null && !product.allergens.some((allergen) => excluded.includes(allergen));
+}
+
+export interface CartAllergens {
+  // Everything the cart is known to contain, in `ALLERGENS` order
+  listed: Allergen[];
+  // Lines whose allergens aren't listed, so could contain anything
+  unlisted: number[];
+}
+
+// Lines are checked against the live catalog where it has them, since staff
+// may have relabelled a dessert after it went into the cart
+export function cartAllergens(
+  items: readonly Pick<Product, 'id' | 'allergens'>[],
+  catalog: readonly Pick<Product, 'id' | 'allergens'>[] = []
+): CartAllergens {
+  const labelled = items.map((item) => catalog.find((product) => product.id === item.id) ?? item);
+  const present = new Set(labelled.flatMap((item) => item.allergens ?? []));
+  return {
+    listed: ALLERGENS.filter((allergen) => present.has(allergen)),
+    unlisted: labelled.filter((item) => item.allergens === null).map((item) => item.id),
+  };
+}
+
+// Products saved before ingredients were recorded pick them up from the
+// bundled catalog when it has the same dessert. Otherwise they start out
+// empty, except allergens, which are unlisted until staff check them.
+export function withDietaryInfo<T extends { id: number } & Partial<DietaryInfo>>(
+  product: T,
+  catalog: readonly Product[]
+): T & DietaryInfo {
+  const bundled = catalog.find((candidate) => candidate.id === product.id);
+  return {
+    ...product,
+    ingredients: Array.isArray(product.ingredients) ? product.ingredients : (bundled?.ingredients ?? []),
+    allergens:
+      Array.isArray(product.allergens) || product.allergens === null ? product.allergens : (bundled?.allergens ?? null),
+    dietary: Array.isArray(product.dietary) ? product.dietary : (bundled?.dietary ?? []),
+  };
+}
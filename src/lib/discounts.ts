@@ -0,0 +1,116 @@
+import type { CartItem } from '../context/cart';
+import { ZERO, add, minMoney, multiply, percentOf, subtract, type Money } from './money';
+
+export type DiscountRule =
+  | { kind: 'percent'; percent: number }
+  | { kind: 'fixed'; amount: Money }
+  | { kind: 'category-percent'; category: string; percent: number }
+  | { kind: 'buy-x-get-y'; category: string; buy: number; get: number };
+
+export interface Promotion {
+  code: string;
+  rule: DiscountRule;
+  minSpend?: Money;
+  startsAt?: string;
+  expiresAt?: string;
+}
+
+// The rule is kept rather than a description so the UI can word it per
+// language. Orders placed before that keep the English wording they were
+// saved with instead, since the code may since have been withdrawn or changed.
+export interface AppliedDiscount {
+  code: string;
+  rule: DiscountRule | null;
+  minSpend: Money | null;
+  amount: Money;
+  legacyDescription?: string;
+}
+
+// Reasons are codes rather than sentences so the UI can word them per language
+export type IneligibleReason = 'not-started' | 'expired' | 'min-spend' | 'not-applicable';
+
+export type PromotionResult =
+  | { eligible: true; amount: Money }
+  | { eligible: false; reason: IneligibleReason };
+
+export function normalizeCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function lineTotal(item: CartItem) {
+  return multiply(item.price, item.quantity);
+}
+
+export function cartSubtotal(items: CartItem[]) {
+  return add(...items.map(lineTotal));
+}
+
+function ruleAmount(rule: DiscountRule, items: CartItem[], subtotal: Money): Money {
+  switch (rule.kind) {
+    case 'percent':
+      return percentOf(subtotal, rule.percent);
+
+    case 'fixed':
+      return rule.amount;
+
+    case 'category-percent':
+      return percentOf(
+        cartSubtotal(items.filter(item => item.category === rule.category)),
+        rule.percent
+      );
+
+    case 'buy-x-get-y': {
+      // Every full group of buy + get units makes the cheapest `get` units free
+      const units = items
+        .filter(item => item.category === rule.category)
+        .flatMap(item => Array<Money>(item.quantity).fill(item.price))
+        .sort((a, b) => a - b);
+      const freeUnits = Math.floor(units.length / (rule.buy + rule.get)) * rule.get;
+      return add(...units.slice(0, freeUnits));
+    }
+  }
+}
+
+export function evaluatePromotion(
+  promotion: Promotion,
+  items: CartItem[],
+  now = new Date()
+): PromotionResult {
+  const subtotal = cartSubtotal(items);
+
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+    return { eligible: false, reason: 'not-started' };
+  }
+  if (promotion.expiresAt && now > new Date(promotion.expiresAt)) {
+    return { eligible: false, reason: 'expired' };
+  }
+  if (promotion.minSpend && subtotal < promotion.minSpend) {
+    return { eligible: false, reason: 'min-spend' };
+  }
+
+  const amount = minMoney(ruleAmount(promotion.rule, items, subtotal), subtotal);
+  if (amount <= 0) {
+    return { eligible: false, reason: 'not-applicable' };
+  }
+
+  return { eligible: true, amount };
+}
+
+// Each code is priced against the undiscounted subtotal; the combined
+// discount is capped so the order total never drops below zero
+export function applyPromotions(
+  promotions: Promotion[],
+  items: CartItem[],
+  now = new Date()
+): AppliedDiscount[] {
+  let remaining = cartSubtotal(items);
+
+  return promotions.flatMap(promotion => {
+    const result = evaluatePromotion(promotion, items, now);
+    if (!result.eligible || remaining <= ZERO) return [];
+
+    const amount = minMoney(result.amount, remaining);
+    remaining = subtract(remaining, amount);
+    return [{ code: promotion.code, rule: promotion.rule, minSpend: promotion.minSpend ?? null, amount }];
+  });
+}
@@ -0,0 +1,28 @@
+import type { TranslationKey } from '../i18n/catalogs';
+import type { TranslationParams } from '../i18n/translate';
+
+// A problem worded the same way, for code that reports it rather than
+// throwing, e.g. validation shared with the mock API
+export interface TranslatableProblem {
+  key: TranslationKey;
+  message: string;
+  params?: TranslationParams;
+}
+
+// For failures whose message is shown to customers or staff. The UI words
+// `key` in the current language; `message` stays English for the console.
+export class TranslatableError extends Error {
+  readonly key: TranslationKey;
+  readonly params?: TranslationParams;
+
+  constructor(key: TranslationKey, message: string, params?: TranslationParams) {
+    super(message);
+    this.name = 'TranslatableError';
+    this.key = key;
+    this.params = params;
+  }
+
+  static from({ key, message, params }: TranslatableProblem) {
+    return new TranslatableError(key, message, params);
+  }
+}
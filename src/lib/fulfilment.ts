@@ -0,0 +1,3 @@
+// How an order reaches the customer. Kept on its own so the mock server can
+// share the order status rules without pulling in pricing and currency.
+export type Fulfilment = 'delivery' | 'pickup';
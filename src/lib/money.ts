@@ -0,0 +1,44 @@
+// Amounts are integers in the base currency's minor unit (US cents; other
+// display currencies are converted by lib/currency), so arithmetic is exact
+// and never drifts the way 0.1 + 0.2 does. The brand stops a plain float from
+// being passed as Money.
+export type Money = number & { readonly __brand: 'Money' };
+
+export function money(minorUnits: number): Money {
+  if (!Number.isSafeInteger(minorUnits)) {
+    throw new RangeError(`Money must be a whole number of minor units, got ${minorUnits}`);
+  }
+  return minorUnits as Money;
+}
+
+export const ZERO = money(0);
+
+export function isMoney(value: unknown): value is Money {
+  return typeof value === 'number' && Number.isSafeInteger(value);
+}
+
+export function add(...amounts: Money[]): Money {
+  return money(amounts.reduce((sum, amount) => sum + amount, 0));
+}
+
+export function subtract(a: Money, b: Money): Money {
+  return money(a - b);
+}
+
+export function multiply(amount: Money, quantity: number): Money {
+  return money(Math.round(amount * quantity));
+}
+
+// Rounds half away from zero to the nearest minor unit
+export function percentOf(amount: Money, percent: number): Money {
+  const exact = (amount * percent) / 100;
+  return money(Math.sign(exact) * Math.round(Math.abs(exact)));
+}
+
+export function minMoney(...amounts: Money[]): Money {
+  return money(Math.min(...amounts));
+}
+
+export function maxMoney(...amounts: Money[]): Money {
+  return money(Math.max(...amounts));
+}
@@ -0,0 +1,115 @@
+import type { Fulfilment } from './fulfilment';
+
+// Labels live in the translation catalogs under `order.status.<status>`
+export const ORDER_STATUSES = [
+  'placed',
+  'accepted',
+  'preparing',
+  'ready',
+  'out-for-delivery',
+  'delivered',
+  'cancelled',
+  'refunded',
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export interface StatusChange {
+  readonly status: OrderStatus;
+  readonly at: string;
+}
+
+// What the order event server pushes when an order moves on
+export interface OrderStatusUpdate {
+  readonly orderId: string;
+  readonly history: readonly StatusChange[];
+}
+
+// Pickup orders wait on the counter ("ready") while delivery orders go out
+// with a courier; either way "delivered" means the customer has them.
+// Cancelled and refunded are side branches: an order can be called off
+// until it is handed over, and money goes back once it is cancelled or after
+// a complaint about a delivered order.
+const TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  placed: ['accepted', 'cancelled'],
+  accepted: ['preparing', 'cancelled'],
+  preparing: ['ready', 'out-for-delivery', 'cancelled'],
+  ready: ['delivered', 'cancelled'],
+  'out-for-delivery': ['delivered', 'cancelled'],
+  delivered: ['refunded'],
+  cancelled: ['refunded'],
+  refunded: [],
+};
+
+const HANDOVER: Record<Fulfilment, OrderStatus> = {
+  pickup: 'ready',
+  delivery: 'out-for-delivery',
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return ORDER_STATUSES.some((status) => status === value);
+}
+
+// The happy path an order follows, for progress timelines. Orders from
+// before checkout asked how they'd be fulfilled are treated as deliveries.
+export function progressSteps(fulfilment: Fulfilment | null): OrderStatus[] {
+  return ['placed', 'accepted', 'preparing', HANDOVER[fulfilment ?? 'delivery'], 'delivered'];
+}
+
+// Where an order can go next; only the hand-over step that matches its
+// fulfilment is offered
+export function nextStatuses(status: OrderStatus, fulfilment: Fulfilment | null): OrderStatus[] {
+  const wrongHandover = fulfilment && HANDOVER[fulfilment === 'pickup' ? 'delivery' : 'pickup'];
+  return TRANSITIONS[status].filter((next) => next !== wrongHandover);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus, fulfilment: Fulfilment | null) {
+  return nextStatuses(from, fulfilment).includes(to);
+}
+
+export function currentStatus(history: readonly StatusChange[]): OrderStatus {
+  return history[history.length - 1]?.status ?? 'placed';
+}
+
+// Appends a timestamped step, refusing anything the state machine doesn't allow
+export function recordTransition(
+  history: readonly StatusChange[],
+  to: OrderStatus,
+  fulfilment: Fulfilment | null,
+  now = new Date()
+): StatusChange[] {
+  const from = currentStatus(history);
+  if (!canTransition(from, to, fulfilment)) {
+    throw new Error(`An order that is ${from} cannot be marked ${to}`);
+  }
+  return [...history, { status: to, at: now.toISOString() }];
+}
+
+// Whether `history` is a run of legal, timestamped moves starting from "placed"
+export function isValidHistory(history: unknown, fulfilment: Fulfilment | null): history is StatusChange[] {
+  if (!Array.isArray(history) || history.length === 0) return false;
+
+  return history.every((change: Partial<StatusChange> | null, index) => {
+    if (!isOrderStatus(change?.status) || typeof change.at !== 'string' || Number.isNaN(Date.parse(change.at))) {
+      return false;
+    }
+    const previous: StatusChange | undefined = history[index - 1];
+    return previous ? canTransition(previous.status, change.status, fulfilment) : change.status === 'placed';
+  });
+}
+
+// Whether `next` carries on from `current`: the same steps so far, then more.
+// Anything else is a stale or replayed update.
+export function extendsHistory(current: readonly StatusChange[], next: readonly StatusChange[]) {
+  return (
+    next.length > current.length &&
+    current.every((change, index) => next[index].status === change.status && next[index].at === change.at)
+  );
+}
+
+// Updates arrive over the network; anything else is ignored rather than trusted
+export function isOrderStatusUpdate(value: unknown): value is OrderStatusUpdate {
+  if (typeof value !== 'object' || value === null) return false;
+  const update = value as Partial<Record<keyof OrderStatusUpdate, unknown>>;
+  return typeof update.orderId === 'string' && isValidHistory(update.history, null);
+}
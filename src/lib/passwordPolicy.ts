@@ -0,0 +1,176 @@
+import { commonPasswords } from '../data/commonPasswords';
+import type { TranslationKey } from '../i18n/catalogs';
+import type { TranslationParams } from '../i18n/translate';
+
+export const PASSWORD_MIN_LENGTH = 8;
+// Below this many bits a password falls to an offline guessing attack in minutes
+export const PASSWORD_MIN_ENTROPY = 40;
+
+export type PasswordStrength = 'very-weak' | 'weak' | 'fair' | 'strong' | 'very-strong';
+
+export interface PasswordFeedback {
+  key: TranslationKey;
+  params?: TranslationParams;
+  // Blocking feedback makes the password unacceptable; the rest are suggestions
+  blocking: boolean;
+}
+
+export interface PasswordEvaluation {
+  entropy: number;
+  // 0 (very weak) to 4 (very strong), for meters
+  score: 0 | 1 | 2 | 3 | 4;
+  strength: PasswordStrength;
+  acceptable: boolean;
+  feedback: PasswordFeedback[];
+}
+
+// Shorter name or email pieces aren't treated as personal details
+const PERSONAL_WORD_MIN_LENGTH = 4;
+
+const STRENGTHS: readonly PasswordStrength[] = ['very-weak', 'weak', 'fair', 'strong', 'very-strong'];
+// Entropy in bits needed to reach scores 1 to 4
+const SCORE_THRESHOLDS = [28, PASSWORD_MIN_ENTROPY, 60, 80];
+
+const COMMON = new Set(commonPasswords);
+// Only longer entries are worth looking for inside a password; "love" or
+// "1234" turn up by accident far too often
+const COMMON_FRAGMENTS = commonPasswords.filter((word) => word.length >= 5);
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm', '1234567890', 'azertyuiop'];
+// What an attacker pays to guess a password's dictionary word: roughly log2 of the list size
+const DICTIONARY_BITS = Math.log2(commonPasswords.length);
+
+function poolSize(password: string) {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/\d/.test(password)) size += 10;
+  if (/[ -/:-@[-`{-~]/.test(password)) size += 33;
+  if (/[\u0080-\uFFFF]/.test(password)) size += 100;
+  return size;
+}
+
+// "Password1!" is "password" wearing a disguise; undo the usual substitutions
+// and strip trailing digits and symbols before checking the list
+function baseWord(password: string) {
+  return password
+    .toLowerCase()
+    .replace(/[@4]/g, 'a')
+    .replace(/3/g, 'e')
+    .replace(/[1!|]/g, 'i')
+    .replace(/0/g, 'o')
+    .replace(/\$/g, 's')
+    .replace(/[^a-z]+$/, '');
+}
+
+function isCommon(password: string) {
+  const lower = password.toLowerCase();
+  return COMMON.has(lower) || COMMON.has(lower.replace(/[^a-z0-9]+$/, '')) || COMMON.has(baseWord(password));
+}
+
+function step(a: string, b: string) {
+  if (!/[a-z\d]/.test(a) || !/[a-z\d]/.test(b)) return 0;
+  return b.charCodeAt(0) - a.charCodeAt(0);
+}
+
+// Characters that extend a run of three or more ("aaa", "abc", "321",
+// "asd") add almost nothing for a guesser, so they count for a quarter
+function effectiveLength(password: string) {
+  const lower = password.toLowerCase();
+  let length = 0;
+  let repeated = false;
+  let sequential = false;
+
+  for (let i = 0; i < lower.length; i++) {
+    const window = lower.slice(i - 2, i + 1);
+    const [first, second, third] = window;
+    if (i >= 2 && first === second && second === third) {
+      repeated = true;
+      length += 0.25;
+    } else if (
+      i >= 2 &&
+      ((Math.abs(step(first, second)) === 1 && step(first, second) === step(second, third)) ||
+        KEYBOARD_ROWS.some((row) => row.includes(window)))
+    ) {
+      sequential = true;
+      length += 0.25;
+    } else {
+      length += 1;
+    }
+  }
+
+  return { length, repeated, sequential };
+}
+
+// Words an attacker would try from the customer's details. Only the local
+// part of an email counts, since "gmail" or "com" say nothing about the
+// customer, and very short pieces match too many strong passwords by chance.
+function personalWords(context: readonly string[]) {
+  return context
+    .flatMap((value) => value.split('@')[0].toLowerCase().split(/[^a-z0-9]+/))
+    .filter((word) => word.length >= PERSONAL_WORD_MIN_LENGTH);
+}
+
+// Scores a password the way a guesser would attack it: character pool times
+// effective length, with dictionary words and personal details priced as a
+// single guess each. `context` holds the customer's own name and email.
+export function evaluatePassword(password: string, context: readonly string[] = []): PasswordEvaluation {
+  const lower = password.toLowerCase();
+  const feedback: PasswordFeedback[] = [];
+  const { length, repeated, sequential } = effectiveLength(password);
+  const bitsPerChar = Math.log2(Math.max(poolSize(password), 1));
+  let entropy = length * bitsPerChar;
+
+  const common = isCommon(password);
+  const fragment = common ? undefined : COMMON_FRAGMENTS.find((word) => lower.includes(word));
+  if (fragment) {
+    entropy -= fragment.length * bitsPerChar - DICTIONARY_BITS;
+  }
+
+  const personal = personalWords(context).find((word) => lower.includes(word));
+  if (personal) {
+    entropy -= personal.length * bitsPerChar;
+  }
+
+  entropy = common ? Math.min(entropy, DICTIONARY_BITS) : Math.max(0, entropy);
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    feedback.push({ key: 'password.feedback.tooShort', params: { min: PASSWORD_MIN_LENGTH }, blocking: true });
+  }
+  if (common) {
+    feedback.push({ key: 'password.feedback.common', blocking: true });
+  }
+  if (personal) {
+    feedback.push({ key: 'password.feedback.personal', blocking: true });
+  }
+  if (fragment) {
+    feedback.push({ key: 'password.feedback.dictionaryWord', params: { word: fragment }, blocking: false });
+  }
+  if (repeated) {
+    feedback.push({ key: 'password.feedback.repeated', blocking: false });
+  }
+  if (sequential) {
+    feedback.push({ key: 'password.feedback.sequence', blocking: false });
+  }
+
+  const blocked = feedback.some((item) => item.blocking);
+  if (!blocked && entropy < PASSWORD_MIN_ENTROPY) {
+    feedback.push({ key: 'password.feedback.tooGuessable', blocking: true });
+  }
+  // Only worth suggesting once nothing more fundamental is wrong
+  if (!blocked && entropy < SCORE_THRESHOLDS[2]) {
+    feedback.push({
+      key: poolSize(password) < 62 ? 'password.feedback.addVariety' : 'password.feedback.addLength',
+      blocking: false,
+    });
+  }
+
+  const score = SCORE_THRESHOLDS.filter((threshold) => entropy >= threshold).length as PasswordEvaluation['score'];
+
+  return {
+    entropy: Math.round(entropy),
+    score,
+    strength: STRENGTHS[score],
+    acceptable: !feedback.some((item) => item.blocking),
+    feedback,
+  };
+}
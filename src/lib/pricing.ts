@@ -0,0 +1,76 @@
+import type { CartItem } from '../context/cart';
+import { applyPromotions, cartSubtotal, type AppliedDiscount, type Promotion } from './discounts';
+import type { Fulfilment } from './fulfilment';
+import { ZERO, add, maxMoney, percentOf, subtract, type Money } from './money';
+
+export interface TaxRate {
+  name: string;
+  percent: number;
+}
+
+export interface PricingConfig {
+  taxRates: TaxRate[];
+  deliveryFee: Money;
+  // Orders at or above this (after discounts) ship free; null disables it
+  freeDeliveryThreshold: Money | null;
+}
+
+export interface TaxLine extends TaxRate {
+  amount: Money;
+}
+
+export interface PriceBreakdown {
+  subtotal: Money;
+  discounts: AppliedDiscount[];
+  discountTotal: Money;
+  taxes: TaxLine[];
+  taxTotal: Money;
+  deliveryFee: Money;
+  // How much more to spend for free delivery, or null when it doesn't apply
+  amountToFreeDelivery: Money | null;
+  total: Money;
+}
+
+export interface PricingOptions {
+  promotions?: Promotion[];
+  fulfilment?: Fulfilment;
+  now?: Date;
+}
+
+// The single source of every number shown for a cart or an order: discounts
+// come off the subtotal first, tax is charged on the discounted goods, and
+// delivery is added last (untaxed) unless the order qualifies for free delivery
+export function calculatePrice(
+  items: CartItem[],
+  config: PricingConfig,
+  { promotions = [], fulfilment = 'delivery', now = new Date() }: PricingOptions = {}
+): PriceBreakdown {
+  const subtotal = cartSubtotal(items);
+  const discounts = applyPromotions(promotions, items, now);
+  const discountTotal = add(...discounts.map(discount => discount.amount));
+  const discounted = maxMoney(ZERO, subtract(subtotal, discountTotal));
+
+  const taxes = config.taxRates.map(rate => ({ ...rate, amount: percentOf(discounted, rate.percent) }));
+  const taxTotal = add(...taxes.map(tax => tax.amount));
+
+  const isEmpty = items.length === 0;
+  const threshold = config.freeDeliveryThreshold;
+  const qualifiesForFreeDelivery = threshold !== null && discounted >= threshold;
+  const deliveryFee =
+    fulfilment === 'pickup' || isEmpty || qualifiesForFreeDelivery ? ZERO : config.deliveryFee;
+  const amountToFreeDelivery =
+    fulfilment === 'delivery' && !isEmpty && threshold !== null && !qualifiesForFreeDelivery
+      ? subtract(threshold, discounted)
+      : null;
+
+  return {
+    subtotal,
+    discounts,
+    discountTotal,
+    taxes,
+    taxTotal,
+    deliveryFee,
+    amountToFreeDelivery,
+    total: add(discounted, taxTotal, deliveryFee),
+  };
+}
@@ -0,0 +1,91 @@
+import type { Product, ProductImage } from '../data/products';
+import { parseMoney, toMajorUnits } from './currency';
+import { parseIngredients } from './dietary';
+import { isValidProductId } from './productRules';
+import { required, type FormSchema, type Rule } from './validation';
+
+// Everything the admin form types in, as text; images, allergens and
+// dietary tags are picked separately
+export interface ProductValues {
+  id: string;
+  name: string;
+  price: string;
+  category: string;
+  stock: string;
+  // Comma-separated
+  ingredients: string;
+}
+
+export type ProductLabels = Pick<Product, 'allergens' | 'dietary'>;
+
+// New products start with their allergens unlisted; staff confirm them,
+// even when there are none
+export const EMPTY_LABELS: ProductLabels = { allergens: null, dietary: [] };
+
+export function emptyProductValues(nextId: number): ProductValues {
+  return { id: String(nextId), name: '', price: '', category: '', stock: '0', ingredients: '' };
+}
+
+export function productToValues(product: Product): ProductValues {
+  return {
+    id: String(product.id),
+    name: product.name,
+    price: toMajorUnits(product.price),
+    category: product.category,
+    stock: String(product.stock),
+    ingredients: product.ingredients.join(', '),
+  };
+}
+
+// Only call once the schema passes; the numbers are known to parse by then
+export function valuesToProduct(
+  values: ProductValues,
+  image: ProductImage,
+  { allergens, dietary }: ProductLabels,
+  archived = false
+): Product {
+  return {
+    id: Number(values.id),
+    name: values.name.trim(),
+    price: parseMoney(values.price)!,
+    category: values.category.trim(),
+    image,
+    stock: Number(values.stock),
+    ingredients: parseIngredients(values.ingredients),
+    allergens,
+    dietary,
+    archived,
+  };
+}
+
+const wholeNumber = /^\d+$/;
+
+const uniqueId =
+  (takenIds: readonly number[]): Rule<string> =>
+  (value) => {
+    if (!value) return null;
+    if (!wholeNumber.test(value.trim()) || !isValidProductId(Number(value))) return { key: 'validation.productIdInvalid' };
+    return takenIds.includes(Number(value)) ? { key: 'validation.productIdTaken', params: { id: value.trim() } } : null;
+  };
+
+const positivePrice: Rule<string> = (value) => {
+  if (!value) return null;
+  const price = parseMoney(value);
+  if (price === null) return { key: 'validation.priceInvalid' };
+  return price > 0 ? null : { key: 'validation.pricePositive' };
+};
+
+const stockCount: Rule<string> = (value) =>
+  wholeNumber.test(value.trim()) && Number.isSafeInteger(Number(value)) ? null : { key: 'validation.stockInvalid' };
+
+// `takenIds` are the ids a new product may not reuse; leave it empty when
+// editing, where the id is fixed
+export function productSchema(takenIds: readonly number[]): FormSchema<ProductValues> {
+  return {
+    id: { rules: [required('validation.productIdRequired'), uniqueId(takenIds)] },
+    name: { rules: [required('validation.nameRequired')] },
+    price: { rules: [required('validation.priceRequired'), positivePrice] },
+    category: { rules: [required('validation.categoryRequired')] },
+    stock: { rules: [stockCount] },
+  };
+}
@@ -0,0 +1,73 @@
+import type { Product, ProductImage } from '../data/products';
+import { dietaryConflict, isAllergen, isDietaryTag } from './dietary';
+import type { TranslatableProblem } from './errors';
+
+// Every product needs a picture for each breakpoint `ResponsiveImage` serves
+export const IMAGE_SLOTS = ['desktop', 'tablet', 'mobile', 'thumbnail'] as const satisfies readonly (keyof ProductImage)[];
+
+export type ImageSlot = (typeof IMAGE_SLOTS)[number];
+
+// Uploads larger than this are refused; product photos don't need more
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const EMPTY_IMAGE: ProductImage = { desktop: '', tablet: '', mobile: '', thumbnail: '' };
+
+export function isValidProductId(id: number) {
+  return Number.isSafeInteger(id) && id > 0;
+}
+
+export function nextProductId(catalog: readonly Product[]) {
+  return catalog.reduce((max, product) => Math.max(max, product.id), 0) + 1;
+}
+
+// What stops a product from being saved into `catalog`, or null when it can
+// be. Repositories report it to staff as a `TranslatableError`.
+// `isNew` products must bring an unused id; edits must match an existing one.
+export function productProblem(product: Product, catalog: readonly Product[], isNew: boolean): TranslatableProblem | null {
+  const { id } = product;
+  if (!isValidProductId(id)) {
+    return { key: 'admin.product.problem.invalidId', message: 'Product ids must be positive whole numbers' };
+  }
+
+  const exists = catalog.some((existing) => existing.id === id);
+  if (isNew && exists) {
+    return { key: 'admin.product.problem.idTaken', message: `A product with id ${id} already exists`, params: { id } };
+  }
+  if (!isNew && !exists) {
+    return { key: 'admin.product.notFound', message: `There is no product with id ${id}`, params: { id } };
+  }
+
+  if (!product.name.trim()) return { key: 'admin.product.problem.nameRequired', message: 'Products need a name' };
+  if (!product.category.trim()) {
+    return { key: 'admin.product.problem.categoryRequired', message: 'Products need a category' };
+  }
+  if (!Number.isSafeInteger(product.price) || product.price <= 0) {
+    return { key: 'admin.product.problem.invalidPrice', message: 'Prices must be greater than zero' };
+  }
+  if (!Number.isSafeInteger(product.stock) || product.stock < 0) {
+    return { key: 'admin.product.problem.invalidStock', message: 'Stock must be zero or more' };
+  }
+
+  const missing = IMAGE_SLOTS.filter((slot) => !product.image?.[slot]);
+  if (missing.length > 0) return { key: 'admin.product.imagesMissing', message: `Missing images: ${missing.join(', ')}` };
+
+  if (!product.ingredients.every((ingredient) => typeof ingredient === 'string' && ingredient.trim())) {
+    return { key: 'admin.product.problem.blankIngredient', message: 'Ingredients cannot be blank' };
+  }
+  if (product.allergens !== null && !product.allergens.every(isAllergen)) {
+    return { key: 'admin.product.problem.unknownAllergen', message: 'Unknown allergen' };
+  }
+  if (!product.dietary.every(isDietaryTag)) {
+    return { key: 'admin.product.problem.unknownDietaryTag', message: 'Unknown dietary tag' };
+  }
+  return dietaryConflict(product);
+}
+
+// Puts the catalog into the order of `ids`, which must list every product once
+export function applyOrder<T extends { id: number }>(catalog: readonly T[], ids: readonly number[]): T[] {
+  const byId = new Map(catalog.map((product) => [product.id, product]));
+  if (ids.length !== byId.size || new Set(ids).size !== ids.length || ids.some((id) => !byId.has(id))) {
+    throw new Error('The new order must list every product exactly once');
+  }
+  return ids.map((id) => byId.get(id)!);
+}
@@ -0,0 +1,102 @@
+import type { Order } from '../services/orderStore';
+import { maxLength, minLength, required, type FormSchema, type Rule } from './validation';
+
+// New and edited reviews wait for staff before anyone else sees them.
+// Labels live in the translation catalogs under `reviews.status.<status>`.
+export const REVIEW_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const RATINGS = [1, 2, 3, 4, 5] as const;
+
+export type Rating = (typeof RATINGS)[number];
+
+export interface Review {
+  readonly id: string;
+  readonly productId: number;
+  readonly userId: string;
+  // Shown with the review; only the first name and initial, e.g. "Amina K."
+  readonly authorName: string;
+  readonly rating: Rating;
+  readonly body: string;
+  readonly createdAt: string;
+  readonly status: ReviewStatus;
+  readonly moderatedAt: string | null;
+  // Accounts that found the review helpful; one vote each
+  readonly helpfulVoters: readonly string[];
+}
+
+export interface RatingSummary {
+  // Null until a review has been approved
+  average: number | null;
+  count: number;
+}
+
+export const REVIEW_MIN_LENGTH = 10;
+export const REVIEW_MAX_LENGTH = 1000;
+
+export interface ReviewValues {
+  // Radio values are strings; "" until a star is picked
+  rating: string;
+  body: string;
+}
+
+export const EMPTY_REVIEW: ReviewValues = { rating: '', body: '' };
+
+export function isRating(value: unknown): value is Rating {
+  return RATINGS.some((rating) => rating === value);
+}
+
+const validRating: Rule<string> = (value) => (isRating(Number(value)) ? null : { key: 'validation.ratingRequired' });
+
+export const reviewSchema: FormSchema<ReviewValues> = {
+  rating: { rules: [validRating] },
+  body: {
+    rules: [
+      required('validation.reviewRequired'),
+      minLength(REVIEW_MIN_LENGTH, 'validation.reviewMin'),
+      maxLength(REVIEW_MAX_LENGTH, 'validation.reviewMax'),
+    ],
+  },
+};
+
+export function authorName(firstName: string, lastName: string) {
+  const initial = lastName.trim().charAt(0);
+  return initial ? `${firstName.trim()} ${initial.toUpperCase()}.` : firstName.trim();
+}
+
+// Only people who have had the dessert handed to them can review it
+export function hasReceived(productId: number, orders: readonly Order[]) {
+  return orders.some(
+    (order) =>
+      order.history.some((change) => change.status === 'delivered') &&
+      order.items.some((item) => item.productId === productId)
+  );
+}
+
+export function summarizeRatings(reviews: readonly Review[]): RatingSummary {
+  const approved = reviews.filter((review) => review.status === 'approved');
+  if (approved.length === 0) return { average: null, count: 0 };
+
+  const total = approved.reduce((sum, review) => sum + review.rating, 0);
+  return { average: total / approved.length, count: approved.length };
+}
+
+// "4.5" in English, "4,5" in French
+export function formatAverage(average: number, locale: string) {
+  return new Intl.NumberFormat(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 }).format(average);
+}
+
+// Every product's summary at once, for cards and sorting
+export function ratingSummaries(reviews: readonly Review[]) {
+  const byProduct = new Map<number, Review[]>();
+  for (const review of reviews) {
+    byProduct.set(review.productId, [...(byProduct.get(review.productId) ?? []), review]);
+  }
+  return new Map([...byProduct].map(([productId, productReviews]) => [productId, summarizeRatings(productReviews)]));
+}
+
+// Most helpful first, then newest
+export function compareReviews(a: Review, b: Review) {
+  return b.helpfulVoters.length - a.helpfulVoters.length || b.createdAt.localeCompare(a.createdAt);
+}
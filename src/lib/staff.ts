@@ -0,0 +1,9 @@
+import { staffEmails } from '../data/staff';
+
+export function isStaffEmail(email: string) {
+  return staffEmails.includes(email.trim().toLowerCase());
+}
+
+export function isStaff(user: { email: string } | null) {
+  return user !== null && isStaffEmail(user.email);
+}
@@ -0,0 +1,36 @@
+import type { Product } from '../data/products';
+
+// At or below this many units a card starts warning that stock is running out
+export const LOW_STOCK_THRESHOLD = 5;
+
+export type StockLevel = 'in-stock' | 'low' | 'sold-out';
+
+export function stockLevel(stock: number): StockLevel {
+  if (stock <= 0) return 'sold-out';
+  return stock <= LOW_STOCK_THRESHOLD ? 'low' : 'in-stock';
+}
+
+export function clampToStock(quantity: number, stock: number) {
+  return Math.max(0, Math.min(quantity, stock));
+}
+
+export interface StockShortage {
+  productId: number;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+// Lines asking for more than the catalog can currently supply; products
+// missing from the catalog have been withdrawn and count as sold out
+export function findShortages(
+  lines: readonly { id: number; name: string; quantity: number }[],
+  catalog: readonly Product[]
+): StockShortage[] {
+  return lines.flatMap((line) => {
+    const available = Math.max(0, catalog.find((product) => product.id === line.id)?.stock ?? 0);
+    return line.quantity > available
+      ? [{ productId: line.id, name: line.name, requested: line.quantity, available }]
+      : [];
+  });
+}
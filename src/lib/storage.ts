@@ -0,0 +1,30 @@
+const NAMESPACE = 'dessert-shop';
+
+export function storageKey(name: string) {
+  return `${NAMESPACE}:${name}`;
+}
+
+export function readJSON<T>(key: string, fallback: T, storage: Storage = localStorage): T {
+  try {
+    const raw = storage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeJSON<T>(key: string, value: T, storage: Storage = localStorage) {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota exceeded or storage disabled (private mode) - keep running in memory
+  }
+}
+
+export function removeKey(key: string, storage: Storage = localStorage) {
+  try {
+    storage.removeItem(key);
+  } catch {
+    // Storage disabled - nothing to remove
+  }
+}
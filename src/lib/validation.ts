@@ -0,0 +1,88 @@
+import type { TranslationKey } from '../i18n/catalogs';
+import type { TranslationParams } from '../i18n/translate';
+
+// Rules return a catalog key rather than text so messages follow the language switcher
+export interface FieldError {
+  key: TranslationKey;
+  params?: TranslationParams;
+}
+
+export type Rule<TValue, TValues = unknown> = (value: TValue, values: TValues) => FieldError | null;
+
+// For checks that need a round trip, e.g. whether an email is already registered
+export type AsyncRule<TValue, TValues = unknown> = (value: TValue, values: TValues) => Promise<FieldError | null>;
+
+export interface FieldSchema<TValue, TValues> {
+  rules?: Rule<TValue, TValues>[];
+  // Only run once every sync rule passes, on blur and on submit
+  asyncRules?: AsyncRule<TValue, TValues>[];
+}
+
+export type FormSchema<TValues> = { [K in keyof TValues]?: FieldSchema<TValues[K], TValues> };
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(value: string) {
+  return EMAIL_PATTERN.test(value.trim());
+}
+
+const fail = (key: TranslationKey, params?: TranslationParams): FieldError => (params ? { key, params } : { key });
+
+export function required(key: TranslationKey): Rule<string | boolean> {
+  return (value) => (typeof value === 'string' ? value.trim() : value) ? null : fail(key);
+}
+
+// Empty values pass so `required` decides whether the field may be left blank
+export function email(key: TranslationKey = 'validation.emailInvalid'): Rule<string> {
+  return (value) => (!value.trim() || isValidEmail(value) ? null : fail(key));
+}
+
+export function minLength(min: number, key: TranslationKey): Rule<string> {
+  return (value) => (!value || value.length >= min ? null : fail(key, { min }));
+}
+
+export function maxLength(max: number, key: TranslationKey): Rule<string> {
+  return (value) => (value.length <= max ? null : fail(key, { max }));
+}
+
+export function pattern(regex: RegExp, key: TranslationKey): Rule<string> {
+  return (value) => (!value || regex.test(value) ? null : fail(key));
+}
+
+export function matchesField<TValues>(field: keyof TValues, key: TranslationKey): Rule<unknown, TValues> {
+  return (value, values) => (!value || value === values[field] ? null : fail(key));
+}
+
+export function validateField<TValues, K extends keyof TValues>(
+  schema: FormSchema<TValues>,
+  name: K,
+  values: TValues
+): FieldError | null {
+  for (const rule of schema[name]?.rules ?? []) {
+    const error = rule(values[name], values);
+    if (error) return error;
+  }
+  return null;
+}
+
+export async function validateFieldAsync<TValues, K extends keyof TValues>(
+  schema: FormSchema<TValues>,
+  name: K,
+  values: TValues
+): Promise<FieldError | null> {
+  for (const rule of schema[name]?.asyncRules ?? []) {
+    const error = await rule(values[name], values);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Every field's first failing rule, for checking a whole submission at once
+export function validateForm<TValues>(schema: FormSchema<TValues>, values: TValues) {
+  const errors: Partial<Record<keyof TValues, FieldError>> = {};
+  for (const name of Object.keys(schema) as (keyof TValues)[]) {
+    const error = validateField(schema, name, values);
+    if (error) errors[name] = error;
+  }
+  return errors;
+}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Package } from "lucide-react";
+import { useOrders } from "../hooks/useOrders";
+import { useToast } from "../hooks/useToast";
+import { useTranslation } from "../hooks/useTranslation";
+import { formatMoney } from "../lib/currency";
+import { TranslatableError } from "../lib/errors";
+import { currentStatus, nextStatuses, type OrderStatus } from "../lib/orderStatus";
+import OrderStatusBadge from "../shared/components/OrderStatusBadge";
+import type { Order } from "../services/orderStore";
+
+// Cancelling and refunding can't be taken back, so they look different
+const isSideBranch = (status: OrderStatus) => status === "cancelled" || status === "refunded";
+
+const AdminOrders = () => {
+  const { allOrders, updateStatus } = useOrders();
+  const { showToast } = useToast();
+  const { language, t } = useTranslation();
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const handleUpdate = async (order: Order, status: OrderStatus) => {
+    setUpdatingId(order.id);
+    try {
+      await updateStatus(order.id, status);
+      showToast({
+        message: t("admin.orders.updated", { id: order.id, status: t(`order.status.${status}`) }),
+        variant: "success",
+      });
+    } catch (error) {
+      showToast({
+        message: error instanceof TranslatableError ? t(error.key, error.params) : t("admin.orders.updateFailed"),
+        variant: "error",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-5xl mx-auto">
+        <h1 className="text-4xl font-bold text-gray-900 mb-8">{t("admin.orders.title")}</h1>
+
+        {allOrders.length === 0 ? (
+          <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+            <Package size={48} className="mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600">{t("admin.orders.empty")}</p>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {allOrders.map((order) => {
+              const status = currentStatus(order.history);
+              const fulfilment = order.details?.fulfilment ?? null;
+
+              return (
+                <li key={order.id} className="bg-white p-6 rounded-xl shadow-lg">
+                  <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                    <div>
+                      <h2 className="font-semibold text-gray-900">{order.id}</h2>
+                      <p className="text-sm text-gray-600">
+                        {new Date(order.createdAt).toLocaleString(language)}
+                        {order.details && ` · ${order.details.contact.name} · ${t(`admin.orders.fulfilment.${order.details.fulfilment}`)}`}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {t("orders.itemCount", { count: order.itemCount })} · {formatMoney(order.pricing.total)}
+                        {order.payment && ` · ${t(`admin.orders.payment.${order.payment.status}`)}`}
+                      </p>
+                    </div>
+                    <OrderStatusBadge status={status} />
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {nextStatuses(status, fulfilment).map((next) => (
+                      <button
+                        key={next}
+                        onClick={() => handleUpdate(order, next)}
+                        disabled={updatingId !== null}
+                        className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          isSideBranch(next)
+                            ? "bg-white border border-red-300 text-red-600 hover:bg-red-50"
+                            : "bg-red-600 text-white hover:bg-red-700"
+                        }`}
+                      >
+                        {t(`admin.orders.action.${next}`)}
+                      </button>
+                    ))}
+                    <Link to={`/orders/${order.id}/track`} className="ml-auto text-sm text-red-600 hover:underline font-medium">
+                      {t("admin.orders.viewTimeline")}
+                    </Link>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminOrders;
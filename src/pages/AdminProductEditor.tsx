@@ -0,0 +1,343 @@
+import { useState, type ChangeEvent } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Copy, ImagePlus, Package, Save } from "lucide-react";
+import { useAdminCatalog } from "../hooks/useAdminCatalog";
+import { useForm } from "../hooks/useForm";
+import { useTranslation } from "../hooks/useTranslation";
+import { getCategories } from "../lib/catalog";
+import { BASE_CURRENCY } from "../lib/currency";
+import { ALLERGENS, DIETARY_TAGS } from "../lib/dietary";
+import { TranslatableError } from "../lib/errors";
+import {
+  EMPTY_LABELS,
+  emptyProductValues,
+  productSchema,
+  productToValues,
+  valuesToProduct,
+  type ProductLabels,
+  type ProductValues,
+} from "../lib/productForm";
+import { EMPTY_IMAGE, IMAGE_SLOTS, MAX_IMAGE_BYTES, nextProductId, type ImageSlot } from "../lib/productRules";
+import type { Product, ProductImage } from "../data/products";
+import type { TranslationKey } from "../i18n/catalogs";
+import type { ProductEditor } from "../services/productRepository";
+
+type SlotFlags = Partial<Record<ImageSlot, boolean>>;
+type SlotErrors = Partial<Record<ImageSlot, string>>;
+
+interface ProductFormProps {
+  // Undefined when creating a product
+  product?: Product;
+  catalog: Product[];
+  editor: ProductEditor;
+}
+
+const ProductForm = ({ product, catalog, editor }: ProductFormProps) => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const [image, setImage] = useState<ProductImage>(product?.image ?? EMPTY_IMAGE);
+  const [uploading, setUploading] = useState<SlotFlags>({});
+  const [imageErrors, setImageErrors] = useState<SlotErrors>({});
+  const [showMissingImages, setShowMissingImages] = useState(false);
+  const [labels, setLabels] = useState<ProductLabels>(
+    product ? { allergens: product.allergens, dietary: product.dietary } : EMPTY_LABELS
+  );
+
+  const missingSlots = IMAGE_SLOTS.filter((slot) => !image[slot]);
+
+  const form = useForm({
+    initialValues: product ? productToValues(product) : emptyProductValues(nextProductId(catalog)),
+    schema: productSchema(product ? [] : catalog.map((existing) => existing.id)),
+    onSubmit: async (values) => {
+      setShowMissingImages(true);
+      if (missingSlots.length > 0) throw new Error(t("admin.product.imagesMissing"));
+
+      const next = valuesToProduct(values, image, labels, product?.archived);
+      const saved = product ? await editor.update(next) : await editor.create(next);
+      navigate("/admin/products", {
+        state: { message: t(product ? "admin.product.updated" : "admin.product.created", { name: saved.name }) },
+      });
+    },
+  });
+
+  const handleFile = async (slot: ImageSlot, e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const reject = (key: TranslationKey) =>
+      setImageErrors((prev) => ({ ...prev, [slot]: t(key, { max: MAX_IMAGE_BYTES / 1024 / 1024 }) }));
+    if (!file.type.startsWith("image/")) return reject("admin.product.image.notImage");
+    if (file.size > MAX_IMAGE_BYTES) return reject("admin.product.image.tooLarge");
+
+    setImageErrors((prev) => ({ ...prev, [slot]: undefined }));
+    setUploading((prev) => ({ ...prev, [slot]: true }));
+    try {
+      const url = await editor.uploadImage(file);
+      setImage((prev) => ({ ...prev, [slot]: url }));
+    } catch (error) {
+      setImageErrors((prev) => ({
+        ...prev,
+        [slot]: error instanceof TranslatableError ? t(error.key, error.params) : t("admin.product.image.uploadFailed"),
+      }));
+    } finally {
+      setUploading((prev) => ({ ...prev, [slot]: false }));
+    }
+  };
+
+  // One photo is often good enough for every size to start with
+  const fillEmptySlots = (source: ImageSlot) => {
+    setImage((prev) => {
+      const next = { ...prev };
+      for (const slot of IMAGE_SLOTS) next[slot] ||= prev[source];
+      return next;
+    });
+  };
+
+  const toggleLabel = <K extends keyof ProductLabels>(field: K, label: NonNullable<ProductLabels[K]>[number]) => {
+    setLabels((prev) => {
+      const current: readonly string[] = prev[field] ?? [];
+      return {
+        ...prev,
+        [field]: current.includes(label) ? current.filter((existing) => existing !== label) : [...current, label],
+      };
+    });
+  };
+
+  const inputClass = (name: keyof ProductValues) =>
+    `w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors ${
+      form.error(name) ? "border-red-300 bg-red-50" : "border-gray-300"
+    }`;
+
+  const fieldError = (name: keyof ProductValues) =>
+    form.error(name) && <p id={form.errorId(name)} className="mt-1 text-sm text-red-600">{form.error(name)}</p>;
+
+  const isUploading = IMAGE_SLOTS.some((slot) => uploading[slot]);
+
+  return (
+    <form onSubmit={form.handleSubmit} noValidate className="bg-white p-8 rounded-xl shadow-lg space-y-6">
+      {form.formError && (
+        <div role="alert" className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {form.formError}
+        </div>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor={form.fieldId("id")} className="block text-sm font-semibold text-gray-700 mb-2">{t("admin.product.id")}</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            {...form.register("id")}
+            readOnly={!!product}
+            className={`${inputClass("id")} read-only:bg-gray-100 read-only:text-gray-500`}
+          />
+          {fieldError("id")}
+        </div>
+
+        <div>
+          <label htmlFor={form.fieldId("name")} className="block text-sm font-semibold text-gray-700 mb-2">{t("admin.product.name")}</label>
+          <input type="text" {...form.register("name")} className={inputClass("name")} />
+          {fieldError("name")}
+        </div>
+
+        <div>
+          <label htmlFor={form.fieldId("price")} className="block text-sm font-semibold text-gray-700 mb-2">
+            {t("admin.product.price", { currency: BASE_CURRENCY })}
+          </label>
+          <input type="text" inputMode="decimal" {...form.register("price")} className={inputClass("price")} />
+          {fieldError("price")}
+        </div>
+
+        <div>
+          <label htmlFor={form.fieldId("category")} className="block text-sm font-semibold text-gray-700 mb-2">{t("admin.product.category")}</label>
+          <input type="text" list="admin-product-categories" {...form.register("category")} className={inputClass("category")} />
+          <datalist id="admin-product-categories">
+            {getCategories(catalog).map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+          {fieldError("category")}
+        </div>
+
+        <div>
+          <label htmlFor={form.fieldId("stock")} className="block text-sm font-semibold text-gray-700 mb-2">{t("admin.product.stock")}</label>
+          <input type="text" inputMode="numeric" {...form.register("stock")} className={inputClass("stock")} />
+          {fieldError("stock")}
+        </div>
+
+        <div className="sm:col-span-2">
+          <label htmlFor={form.fieldId("ingredients")} className="block text-sm font-semibold text-gray-700 mb-2">
+            {t("admin.product.ingredients")}
+          </label>
+          <input
+            type="text"
+            {...form.register("ingredients")}
+            aria-describedby={`${form.fieldId("ingredients")}-hint`}
+            className={inputClass("ingredients")}
+          />
+          <p id={`${form.fieldId("ingredients")}-hint`} className="mt-1 text-sm text-gray-500">{t("admin.product.ingredientsHint")}</p>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-6">
+        <fieldset>
+          <legend className="block text-sm font-semibold text-gray-700 mb-2">{t("admin.product.allergens")}</legend>
+          <label className="inline-flex items-center gap-2 text-gray-700 mb-2">
+            <input
+              type="checkbox"
+              checked={labels.allergens === null}
+              onChange={() => setLabels((prev) => ({ ...prev, allergens: prev.allergens === null ? [] : null }))}
+              className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
+            />
+            {t("admin.product.allergensUnlisted")}
+          </label>
+          <div className="flex flex-wrap gap-4">
+            {ALLERGENS.map((allergen) => (
+              <label key={allergen} className="inline-flex items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={labels.allergens?.includes(allergen) ?? false}
+                  onChange={() => toggleLabel("allergens", allergen)}
+                  disabled={labels.allergens === null}
+                  className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
+                />
+                {t(`allergen.${allergen}`)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-semibold text-gray-700 mb-2">{t("admin.product.dietary")}</legend>
+          <div className="flex flex-wrap gap-4">
+            {DIETARY_TAGS.map((tag) => (
+              <label key={tag} className="inline-flex items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={labels.dietary.includes(tag)}
+                  onChange={() => toggleLabel("dietary", tag)}
+                  className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
+                />
+                {t(`diet.${tag}`)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-semibold text-gray-700 mb-2">{t("admin.product.images")}</legend>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {IMAGE_SLOTS.map((slot) => {
+            const error = imageErrors[slot] ?? (showMissingImages && !image[slot] ? t("admin.product.image.required") : undefined);
+            const inputId = `admin-product-image-${slot}`;
+
+            return (
+              <div key={slot}>
+                <label
+                  htmlFor={inputId}
+                  className={`flex flex-col items-center justify-center aspect-square rounded-lg border-2 border-dashed cursor-pointer overflow-hidden transition-colors ${
+                    error ? "border-red-300 bg-red-50" : "border-gray-300 hover:border-red-400"
+                  }`}
+                >
+                  {image[slot] ? (
+                    <img src={image[slot]} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <ImagePlus size={28} className="text-gray-400" />
+                  )}
+                  <span className="sr-only">{t(`admin.product.image.${slot}`)}</span>
+                </label>
+                <input
+                  id={inputId}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,image/gif"
+                  onChange={(e) => handleFile(slot, e)}
+                  disabled={uploading[slot]}
+                  aria-invalid={!!error}
+                  aria-describedby={error ? `${inputId}-error` : undefined}
+                  className="sr-only"
+                />
+                <p className="mt-1 text-sm font-medium text-gray-700" aria-hidden="true">
+                  {uploading[slot] ? t("admin.product.image.uploading") : t(`admin.product.image.${slot}`)}
+                </p>
+                {image[slot] && missingSlots.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => fillEmptySlots(slot)}
+                    className="inline-flex items-center gap-1 text-xs text-red-600 hover:underline"
+                  >
+                    <Copy size={12} />
+                    {t("admin.product.image.fillEmpty")}
+                  </button>
+                )}
+                {error && <p id={`${inputId}-error`} className="mt-1 text-sm text-red-600">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <button
+        type="submit"
+        disabled={form.isSubmitting || isUploading}
+        className="w-full flex items-center justify-center gap-2 bg-red-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Save size={16} />
+        {form.isSubmitting ? t("admin.product.saving") : t("admin.product.save")}
+      </button>
+    </form>
+  );
+};
+
+// Serves both /admin/products/new and /admin/products/:id/edit
+const AdminProductEditor = () => {
+  const { id } = useParams();
+  const { status, products, error, editor, reload } = useAdminCatalog();
+  const { t } = useTranslation();
+  const product = id === undefined ? undefined : products.find((existing) => String(existing.id) === id);
+
+  let content;
+  if (status === "error") {
+    content = (
+      <div className="bg-white p-8 rounded-xl shadow-lg text-center" role="alert">
+        <p className="text-gray-600 mb-4">{error.message}</p>
+        <button onClick={reload} className="text-red-600 hover:underline font-medium">
+          {t("admin.products.retry")}
+        </button>
+      </div>
+    );
+  } else if (status === "loading") {
+    content = <p className="text-gray-600 text-center py-12" role="status">{t("admin.products.loading")}</p>;
+  } else if (id !== undefined && !product) {
+    content = (
+      <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+        <Package size={48} className="mx-auto mb-4 text-gray-400" />
+        <p className="text-gray-600">{t("admin.product.notFound", { id })}</p>
+      </div>
+    );
+  } else {
+    content = <ProductForm key={product?.id ?? "new"} product={product} catalog={products} editor={editor} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-3xl mx-auto">
+        <Link to="/admin/products" className="inline-flex items-center gap-2 text-gray-600 hover:text-red-600 mb-6 font-medium">
+          <ArrowLeft size={16} />
+          {t("admin.products.back")}
+        </Link>
+        <h1 className="text-4xl font-bold text-gray-900 mb-8">
+          {id === undefined
+            ? t("admin.product.newTitle")
+            : product
+              ? t("admin.product.editTitle", { name: product.name })
+              : t("admin.products.edit")}
+        </h1>
+        {content}
+      </div>
+    </div>
+  );
+};
+
+export default AdminProductEditor;
@@ -0,0 +1,142 @@
+import { Link } from "react-router-dom";
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Package, Pencil, Plus } from "lucide-react";
+import { useState } from "react";
+import { useAdminCatalog } from "../hooks/useAdminCatalog";
+import { useToast } from "../hooks/useToast";
+import { useTranslation } from "../hooks/useTranslation";
+import { formatMoney } from "../lib/currency";
+import { TranslatableError } from "../lib/errors";
+import type { Product } from "../data/products";
+
+const AdminProducts = () => {
+  const { status, products, error, reload, setArchived, move } = useAdminCatalog();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const run = async (product: Product, action: () => Promise<void>) => {
+    setBusyId(product.id);
+    try {
+      await action();
+    } catch (error) {
+      showToast({
+        message: error instanceof TranslatableError ? t(error.key, error.params) : t("admin.products.updateFailed"),
+        variant: "error",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleArchive = (product: Product) =>
+    run(product, async () => {
+      await setArchived(product.id, !product.archived);
+      showToast({
+        message: t(product.archived ? "admin.products.restored" : "admin.products.archived", { name: product.name }),
+        variant: "success",
+      });
+    });
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h1 className="text-4xl font-bold text-gray-900">{t("admin.products.title")}</h1>
+          <Link
+            to="/admin/products/new"
+            className="inline-flex items-center gap-2 bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors"
+          >
+            <Plus size={18} />
+            {t("admin.products.new")}
+          </Link>
+        </div>
+
+        {status === "error" ? (
+          <div className="bg-white p-8 rounded-xl shadow-lg text-center" role="alert">
+            <p className="text-gray-600 mb-4">{error.message}</p>
+            <button onClick={reload} className="text-red-600 hover:underline font-medium">
+              {t("admin.products.retry")}
+            </button>
+          </div>
+        ) : status === "loading" && products.length === 0 ? (
+          <p className="text-gray-600 text-center py-12" role="status">{t("admin.products.loading")}</p>
+        ) : products.length === 0 ? (
+          <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+            <Package size={48} className="mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600">{t("admin.products.empty")}</p>
+          </div>
+        ) : (
+          <ol className="bg-white rounded-xl shadow-lg divide-y divide-gray-100">
+            {products.map((product, index) => (
+              <li
+                key={product.id}
+                className={`flex flex-wrap items-center gap-4 p-4 ${product.archived ? "bg-gray-50" : ""}`}
+              >
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => run(product, () => move(product.id, -1))}
+                    disabled={index === 0 || busyId !== null}
+                    aria-label={t("admin.products.moveUp", { name: product.name })}
+                    className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => run(product, () => move(product.id, 1))}
+                    disabled={index === products.length - 1 || busyId !== null}
+                    aria-label={t("admin.products.moveDown", { name: product.name })}
+                    className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <ArrowDown size={16} />
+                  </button>
+                </div>
+
+                <img
+                  src={product.image.thumbnail}
+                  alt=""
+                  className={`w-14 h-14 rounded-md object-cover ${product.archived ? "grayscale" : ""}`}
+                />
+
+                <div className="flex-1 min-w-40">
+                  <h2 className="font-semibold text-gray-900">
+                    {product.name}
+                    {product.archived && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-200 text-gray-600 text-xs font-medium">
+                        {t("admin.products.archivedBadge")}
+                      </span>
+                    )}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    #{product.id} · {product.category} · {t("admin.products.stock", { count: product.stock })}
+                  </p>
+                </div>
+
+                <strong className="text-lg font-bold text-gray-900">{formatMoney(product.price)}</strong>
+
+                <div className="flex items-center gap-2">
+                  <Link
+                    to={`/admin/products/${product.id}/edit`}
+                    className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+                  >
+                    <Pencil size={14} />
+                    {t("admin.products.edit")}
+                  </Link>
+                  <button
+                    onClick={() => handleArchive(product)}
+                    disabled={busyId !== null}
+                    className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {product.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                    {product.archived ? t("admin.products.restore") : t("admin.products.archive")}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminProducts;
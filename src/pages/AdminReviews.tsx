@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Check, MessageSquare, X } from "lucide-react";
+import { useProducts } from "../hooks/useProducts";
+import { useReviews } from "../hooks/useReviews";
+import { useToast } from "../hooks/useToast";
+import { useTranslation } from "../hooks/useTranslation";
+import { TranslatableError } from "../lib/errors";
+import { REVIEW_STATUSES, type Review, type ReviewStatus } from "../lib/reviews";
+import StarRating from "../shared/components/StarRating";
+
+type ReviewFilter = ReviewStatus | "all";
+
+const FILTERS: ReviewFilter[] = [...REVIEW_STATUSES, "all"];
+
+const AdminReviews = () => {
+  const { reviews, moderate } = useReviews();
+  const { products } = useProducts();
+  const { showToast } = useToast();
+  const { language, t } = useTranslation();
+  const [filter, setFilter] = useState<ReviewFilter>("pending");
+
+  const visible = reviews.filter((review) => filter === "all" || review.status === filter);
+  const pendingCount = reviews.filter((review) => review.status === "pending").length;
+  // Archived desserts aren't in the storefront catalog, so fall back to the id
+  const productName = (productId: number) =>
+    products.find((product) => product.id === productId)?.name ?? `#${productId}`;
+
+  const handleModerate = (review: Review, status: ReviewStatus) => {
+    try {
+      moderate(review.id, status);
+      showToast({ message: t(`admin.reviews.${status}`, { name: review.authorName }), variant: "success" });
+    } catch (error) {
+      showToast({
+        message: error instanceof TranslatableError ? t(error.key, error.params) : t("admin.reviews.updateFailed"),
+        variant: "error",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">{t("admin.reviews.title")}</h1>
+        <p className="text-gray-600 mb-8">{t("admin.reviews.pendingCount", { count: pendingCount })}</p>
+
+        <div className="flex flex-wrap gap-2 mb-6" role="group" aria-label={t("admin.reviews.filter")}>
+          {FILTERS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              aria-pressed={filter === option}
+              className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                filter === option ? "bg-red-600 text-white" : "bg-white text-gray-700 hover:bg-gray-100"
+              }`}
+            >
+              {option === "all" ? t("admin.reviews.filter.all") : t(`reviews.status.${option}`)}
+            </button>
+          ))}
+        </div>
+
+        {visible.length === 0 ? (
+          <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+            <MessageSquare size={48} className="mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600">{t("admin.reviews.empty")}</p>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {visible.map((review) => (
+              <li key={review.id} className="bg-white p-6 rounded-xl shadow-lg">
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-3">
+                  <div>
+                    <Link to={`/products/${review.productId}`} className="font-semibold text-gray-900 hover:text-red-600">
+                      {productName(review.productId)}
+                    </Link>
+                    <p className="flex items-center gap-2 text-sm text-gray-600">
+                      <StarRating value={review.rating} label={t("reviews.form.stars", { count: review.rating })} />
+                      {review.authorName} · {new Date(review.createdAt).toLocaleString(language)}
+                    </p>
+                  </div>
+                  <span className="text-sm text-gray-500">
+                    {t(`reviews.status.${review.status}`)} · {t("reviews.helpful", { count: review.helpfulVoters.length })}
+                  </span>
+                </div>
+
+                <p className="text-gray-700 whitespace-pre-line mb-4">{review.body}</p>
+
+                <div className="flex flex-wrap gap-2">
+                  {review.status !== "approved" && (
+                    <button
+                      onClick={() => handleModerate(review, "approved")}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-green-600 text-white hover:bg-green-700 transition-colors"
+                    >
+                      <Check size={16} />
+                      {t("admin.reviews.approve")}
+                    </button>
+                  )}
+                  {review.status !== "rejected" && (
+                    <button
+                      onClick={() => handleModerate(review, "rejected")}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-white border border-red-300 text-red-600 hover:bg-red-50 transition-colors"
+                    >
+                      <X size={16} />
+                      {t("admin.reviews.reject")}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminReviews;
@@ -0,0 +1,756 @@
+import { useState, type ReactNode } from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeft,
+  ArrowRight,
+  Banknote,
+  Check,
+  CreditCard,
+  Home as HomeIcon,
+  Loader2,
+  ShoppingCart,
+  Smartphone,
+  Store,
+  TriangleAlert,
+} from "lucide-react";
+import { useAuth } from "../hooks/useAuth";
+import { useCart } from "../hooks/useCart";
+import { useOrders } from "../hooks/useOrders";
+import { useProducts } from "../hooks/useProducts";
+import { useCheckout } from "../hooks/useCheckout";
+import { useTranslation } from "../hooks/useTranslation";
+import { buildCartState } from "../context/cart";
+import {
+  formatSlot,
+  getTimeSlots,
+  type CheckoutDetails,
+  type CheckoutErrors,
+  type CheckoutStep,
+  type PaymentMethod,
+} from "../lib/checkout";
+import type { Fulfilment } from "../lib/fulfilment";
+import { formatCardNumber, maskCardNumber } from "../lib/cards";
+import { formatMoney } from "../lib/currency";
+import { cartAllergens, type Allergen, type CartAllergens } from "../lib/dietary";
+import { findShortages, type StockShortage } from "../lib/stock";
+import { lineTotal } from "../lib/discounts";
+import type { Product } from "../data/products";
+import type { TranslationKey } from "../i18n/catalogs";
+import type { Order } from "../services/orderStore";
+import type { Payment, PaymentFailureReason } from "../services/paymentProvider";
+import { TEST_CARDS, TEST_MOBILE_NUMBERS } from "../services/paymentSimulators";
+import { productRepository } from "../services/productRepository";
+import { recordSale, releaseSale } from "../services/inventory";
+import { authorizeCheckout, isOnlinePayment, providerFor } from "../services/checkoutPayment";
+import ConfirmOrder from "../shared/components/ConfirmOrder";
+import PriceSummary from "../shared/components/PriceSummary";
+
+type SubmitState =
+  | { status: "idle" }
+  | { status: "processing" }
+  | { status: "awaiting-approval"; payment: Payment }
+  | { status: "failed"; reason: PaymentFailureReason }
+  | { status: "out-of-stock"; shortages: StockShortage[] }
+  | { status: "error" };
+
+const testNumber = <T,>(numbers: Record<string, T>, outcome: T) =>
+  Object.keys(numbers).find((number) => numbers[number] === outcome) ?? "";
+
+const TEST_CARD_APPROVED = testNumber(TEST_CARDS, null);
+const TEST_CARD_DECLINED = testNumber(TEST_CARDS, "declined");
+const TEST_MOBILE_DECLINED = testNumber(TEST_MOBILE_NUMBERS, "declined");
+const TEST_MOBILE_TIMEOUT = testNumber(TEST_MOBILE_NUMBERS, "timeout");
+
+interface FieldProps {
+  id: string;
+  label: string;
+  error?: TranslationKey;
+  children: (props: { id: string; "aria-invalid": boolean; "aria-describedby"?: string; className: string }) => ReactNode;
+}
+
+const Field = ({ id, label, error, children }: FieldProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-semibold text-gray-700 mb-2">{label}</label>
+      {children({
+        id,
+        "aria-invalid": !!error,
+        "aria-describedby": error ? `${id}-error` : undefined,
+        className: `w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors ${
+          error ? "border-red-300 bg-red-50" : "border-gray-300"
+        }`,
+      })}
+      {error && <p id={`${id}-error`} className="mt-1 text-sm text-red-600">{t(error)}</p>}
+    </div>
+  );
+};
+
+interface ChoiceProps {
+  name: string;
+  checked: boolean;
+  onChange: () => void;
+  icon: ReactNode;
+  title: string;
+  hint: string;
+}
+
+const Choice = ({ name, checked, onChange, icon, title, hint }: ChoiceProps) => (
+  <label
+    className={`flex items-start gap-4 p-4 border-2 rounded-xl cursor-pointer transition-colors ${
+      checked ? "border-red-600 bg-red-50" : "border-gray-200 hover:border-red-300"
+    }`}
+  >
+    <input type="radio" name={name} checked={checked} onChange={onChange} className="mt-1 accent-red-600" />
+    <span className="text-red-600 mt-0.5">{icon}</span>
+    <span>
+      <span className="block font-semibold text-gray-900">{title}</span>
+      <span className="block text-sm text-gray-600">{hint}</span>
+    </span>
+  </label>
+);
+
+interface StepProps {
+  details: CheckoutDetails;
+  errors: CheckoutErrors;
+  update: ReturnType<typeof useCheckout>["update"];
+}
+
+const ContactStep = ({ details, errors, update }: StepProps) => {
+  const { t } = useTranslation();
+  const { contact } = details;
+
+  return (
+    <div className="space-y-6">
+      <Field id="checkout-name" label={t("checkout.contact.name")} error={errors.name}>
+        {(props) => (
+          <input {...props} type="text" autoComplete="name" value={contact.name}
+            onChange={(e) => update({ contact: { name: e.target.value } })} />
+        )}
+      </Field>
+      <Field id="checkout-email" label={t("checkout.contact.email")} error={errors.email}>
+        {(props) => (
+          <input {...props} type="email" autoComplete="email" value={contact.email}
+            onChange={(e) => update({ contact: { email: e.target.value } })} />
+        )}
+      </Field>
+      <Field id="checkout-phone" label={t("checkout.contact.phone")} error={errors.phone}>
+        {(props) => (
+          <input {...props} type="tel" autoComplete="tel" value={contact.phone}
+            onChange={(e) => update({ contact: { phone: e.target.value } })} />
+        )}
+      </Field>
+    </div>
+  );
+};
+
+const FulfilmentStep = ({ details, update }: StepProps) => {
+  const { t } = useTranslation();
+  const choose = (fulfilment: Fulfilment) => update({ fulfilment });
+
+  return (
+    <fieldset className="space-y-4">
+      <legend className="sr-only">{t("checkout.step.fulfilment")}</legend>
+      <Choice
+        name="fulfilment"
+        checked={details.fulfilment === "delivery"}
+        onChange={() => choose("delivery")}
+        icon={<HomeIcon size={20} />}
+        title={t("checkout.fulfilment.delivery")}
+        hint={t("checkout.fulfilment.deliveryHint")}
+      />
+      <Choice
+        name="fulfilment"
+        checked={details.fulfilment === "pickup"}
+        onChange={() => choose("pickup")}
+        icon={<Store size={20} />}
+        title={t("checkout.fulfilment.pickup")}
+        hint={t("checkout.fulfilment.pickupHint")}
+      />
+    </fieldset>
+  );
+};
+
+const AddressStep = ({ details, errors, update }: StepProps) => {
+  const { t } = useTranslation();
+  const { address } = details;
+
+  return (
+    <div className="space-y-6">
+      <Field id="checkout-line1" label={t("checkout.address.line1")} error={errors.line1}>
+        {(props) => (
+          <input {...props} type="text" autoComplete="address-line1" value={address.line1}
+            onChange={(e) => update({ address: { line1: e.target.value } })} />
+        )}
+      </Field>
+      <Field id="checkout-line2" label={t("checkout.address.line2")}>
+        {(props) => (
+          <input {...props} type="text" autoComplete="address-line2" value={address.line2}
+            onChange={(e) => update({ address: { line2: e.target.value } })} />
+        )}
+      </Field>
+      <div className="grid sm:grid-cols-2 gap-6">
+        <Field id="checkout-city" label={t("checkout.address.city")} error={errors.city}>
+          {(props) => (
+            <input {...props} type="text" autoComplete="address-level2" value={address.city}
+              onChange={(e) => update({ address: { city: e.target.value } })} />
+          )}
+        </Field>
+        <Field id="checkout-postal-code" label={t("checkout.address.postalCode")}>
+          {(props) => (
+            <input {...props} type="text" autoComplete="postal-code" value={address.postalCode}
+              onChange={(e) => update({ address: { postalCode: e.target.value } })} />
+          )}
+        </Field>
+      </div>
+      <Field id="checkout-instructions" label={t("checkout.address.instructions")}>
+        {(props) => (
+          <textarea {...props} rows={3} value={address.instructions}
+            onChange={(e) => update({ address: { instructions: e.target.value } })} />
+        )}
+      </Field>
+    </div>
+  );
+};
+
+const SlotStep = ({ details, errors, update }: StepProps) => {
+  const { language, t } = useTranslation();
+  const [slots] = useState(() => getTimeSlots());
+
+  if (slots.length === 0) {
+    return <p className="text-gray-600">{t("checkout.slot.none")}</p>;
+  }
+
+  return (
+    <fieldset aria-describedby={errors.slot ? "checkout-slot-error" : undefined}>
+      <legend className="font-semibold text-gray-900 mb-4">
+        {t(details.fulfilment === "delivery" ? "checkout.slot.delivery" : "checkout.slot.pickup")}
+      </legend>
+      <div className="grid sm:grid-cols-2 gap-3">
+        {slots.map((slot) => (
+          <label
+            key={slot}
+            className={`flex items-center gap-3 px-4 py-3 border-2 rounded-lg cursor-pointer text-sm transition-colors ${
+              details.slot === slot ? "border-red-600 bg-red-50" : "border-gray-200 hover:border-red-300"
+            }`}
+          >
+            <input
+              type="radio"
+              name="slot"
+              checked={details.slot === slot}
+              onChange={() => update({ slot })}
+              className="accent-red-600"
+            />
+            {formatSlot(slot, language)}
+          </label>
+        ))}
+      </div>
+      {errors.slot && <p id="checkout-slot-error" className="mt-2 text-sm text-red-600">{t(errors.slot)}</p>}
+    </fieldset>
+  );
+};
+
+const PaymentStep = ({ details, errors, update }: StepProps) => {
+  const { t } = useTranslation();
+  const choose = (paymentMethod: PaymentMethod) => update({ paymentMethod });
+  const { card } = details;
+
+  return (
+    <fieldset className="space-y-4" aria-describedby={errors.paymentMethod ? "checkout-payment-error" : undefined}>
+      <legend className="sr-only">{t("checkout.step.payment")}</legend>
+      <Choice
+        name="payment"
+        checked={details.paymentMethod === "card"}
+        onChange={() => choose("card")}
+        icon={<CreditCard size={20} />}
+        title={t("checkout.payment.card")}
+        hint={t("checkout.payment.cardHint")}
+      />
+      {details.paymentMethod === "card" && (
+        <div className="grid sm:grid-cols-2 gap-4 pl-4">
+          <div className="sm:col-span-2">
+            <Field id="checkout-card-number" label={t("checkout.card.number")} error={errors.cardNumber}>
+              {(props) => (
+                <input {...props} type="text" inputMode="numeric" autoComplete="cc-number" value={card.number}
+                  onChange={(e) => update({ card: { number: formatCardNumber(e.target.value) } })} />
+              )}
+            </Field>
+          </div>
+          <Field id="checkout-card-expiry" label={t("checkout.card.expiry")} error={errors.cardExpiry}>
+            {(props) => (
+              <input {...props} type="text" inputMode="numeric" autoComplete="cc-exp" placeholder="MM/YY" value={card.expiry}
+                onChange={(e) => update({ card: { expiry: e.target.value } })} />
+            )}
+          </Field>
+          <Field id="checkout-card-cvc" label={t("checkout.card.cvc")} error={errors.cardCvc}>
+            {(props) => (
+              <input {...props} type="text" inputMode="numeric" autoComplete="cc-csc" maxLength={4} value={card.cvc}
+                onChange={(e) => update({ card: { cvc: e.target.value } })} />
+            )}
+          </Field>
+          <div className="sm:col-span-2">
+            <Field id="checkout-card-name" label={t("checkout.card.name")} error={errors.cardName}>
+              {(props) => (
+                <input {...props} type="text" autoComplete="cc-name" value={card.name}
+                  onChange={(e) => update({ card: { name: e.target.value } })} />
+              )}
+            </Field>
+          </div>
+          {import.meta.env.DEV && (
+            <p className="sm:col-span-2 text-xs text-gray-500">
+              {t("checkout.card.testHint", {
+                approve: formatCardNumber(TEST_CARD_APPROVED),
+                decline: formatCardNumber(TEST_CARD_DECLINED),
+              })}
+            </p>
+          )}
+        </div>
+      )}
+      <Choice
+        name="payment"
+        checked={details.paymentMethod === "mobile-money"}
+        onChange={() => choose("mobile-money")}
+        icon={<Smartphone size={20} />}
+        title={t("checkout.payment.mobileMoney")}
+        hint={t("checkout.payment.mobileMoneyHint")}
+      />
+      {details.paymentMethod === "mobile-money" && (
+        <div className="space-y-2 pl-4">
+          <Field id="checkout-mobile-money-phone" label={t("checkout.mobileMoney.phone")} error={errors.mobileMoneyPhone}>
+            {(props) => (
+              <input {...props} type="tel" autoComplete="tel" value={details.mobileMoneyPhone}
+                onChange={(e) => update({ mobileMoneyPhone: e.target.value })} />
+            )}
+          </Field>
+          {import.meta.env.DEV && (
+            <p className="text-xs text-gray-500">
+              {t("checkout.mobileMoney.testHint", { decline: TEST_MOBILE_DECLINED, timeout: TEST_MOBILE_TIMEOUT })}
+            </p>
+          )}
+        </div>
+      )}
+      <Choice
+        name="payment"
+        checked={details.paymentMethod === "cash"}
+        onChange={() => choose("cash")}
+        icon={<Banknote size={20} />}
+        title={t(details.fulfilment === "delivery" ? "checkout.payment.cashDelivery" : "checkout.payment.cashPickup")}
+        hint={t("checkout.payment.cashHint")}
+      />
+      {errors.paymentMethod && (
+        <p id="checkout-payment-error" className="text-sm text-red-600">{t(errors.paymentMethod)}</p>
+      )}
+    </fieldset>
+  );
+};
+
+interface ReviewStepProps {
+  details: CheckoutDetails;
+  onEdit: (step: CheckoutStep) => void;
+}
+
+const ReviewStep = ({ details, onEdit }: ReviewStepProps) => {
+  const { language, t } = useTranslation();
+  const { contact, address } = details;
+
+  const paymentLine = () => {
+    if (details.paymentMethod === "card") {
+      return t("checkout.payment.cardReference", { reference: maskCardNumber(details.card.number) });
+    }
+    if (details.paymentMethod === "mobile-money") {
+      return t("checkout.payment.mobileMoneyReference", { reference: details.mobileMoneyPhone });
+    }
+    return t(details.fulfilment === "delivery" ? "checkout.payment.cashDelivery" : "checkout.payment.cashPickup");
+  };
+
+  const sections: { step: CheckoutStep; lines: string[] }[] = [
+    { step: "contact", lines: [contact.name, contact.email, contact.phone] },
+    {
+      step: "fulfilment",
+      lines: [t(details.fulfilment === "delivery" ? "checkout.fulfilment.delivery" : "checkout.fulfilment.pickup")],
+    },
+    ...(details.fulfilment === "delivery"
+      ? [{
+          step: "address" as const,
+          lines: [address.line1, address.line2, [address.postalCode, address.city].filter(Boolean).join(" "), address.instructions],
+        }]
+      : []),
+    { step: "slot", lines: details.slot ? [formatSlot(details.slot, language)] : [] },
+    { step: "payment", lines: [paymentLine()] },
+  ];
+
+  return (
+    <dl className="divide-y divide-gray-200">
+      {sections.map(({ step, lines }) => (
+        <div key={step} className="flex items-start justify-between gap-4 py-4">
+          <div>
+            <dt className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-1">
+              {t(`checkout.step.${step}`)}
+            </dt>
+            {lines.filter(Boolean).map((line) => (
+              <dd key={line} className="text-gray-900">{line}</dd>
+            ))}
+          </div>
+          <button
+            onClick={() => onEdit(step)}
+            className="text-sm text-red-600 hover:underline font-medium"
+          >
+            {t("checkout.edit")}
+          </button>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+interface AllergenNoticeProps {
+  allergens: CartAllergens;
+  // As the catalog currently labels them
+  items: Pick<Product, "id" | "name" | "allergens">[];
+  acknowledged: boolean;
+  showError: boolean;
+  disabled: boolean;
+  onAcknowledge: (acknowledged: boolean) => void;
+}
+
+const AllergenNotice = ({ allergens, items, acknowledged, showError, disabled, onAcknowledge }: AllergenNoticeProps) => {
+  const { t } = useTranslation();
+  const hasError = showError && !acknowledged;
+  const names = (list: Allergen[]) => list.map((allergen) => t(`allergen.${allergen}`)).join(", ");
+  const { listed, unlisted } = allergens;
+
+  return (
+    <div className="mt-6 p-4 rounded-lg bg-amber-50 border border-amber-200">
+      <p className="flex items-center gap-2 font-semibold text-amber-900 mb-1">
+        <TriangleAlert size={16} aria-hidden="true" />
+        {listed.length > 0
+          ? t("checkout.allergens.title", { allergens: names(listed) })
+          : t("checkout.allergens.unlistedTitle")}
+      </p>
+      <ul className="list-disc pl-5 mb-3 text-sm text-amber-900">
+        {items
+          .filter((item) => item.allergens === null || item.allergens.length > 0)
+          .map((item) => (
+            <li key={item.id}>
+              {item.allergens === null
+                ? t("checkout.allergens.unlistedItem", { name: item.name })
+                : t("checkout.allergens.item", {
+                    name: item.name,
+                    allergens: names(listed.filter((allergen) => item.allergens?.includes(allergen))),
+                  })}
+            </li>
+          ))}
+      </ul>
+      <label className="flex items-start gap-2 text-sm text-gray-900 cursor-pointer">
+        <input
+          id="checkout-allergens"
+          type="checkbox"
+          checked={acknowledged}
+          onChange={(e) => onAcknowledge(e.target.checked)}
+          disabled={disabled}
+          aria-invalid={hasError}
+          aria-describedby={hasError ? "checkout-allergens-error" : undefined}
+          className="mt-0.5 h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
+        />
+        {t(unlisted.length > 0 ? "checkout.allergens.acknowledgeUnlisted" : "checkout.allergens.acknowledge")}
+      </label>
+      {hasError && (
+        <p id="checkout-allergens-error" className="mt-1 text-sm text-red-600">{t("checkout.allergens.required")}</p>
+      )}
+    </div>
+  );
+};
+
+const CheckoutWizard = ({ onComplete }: { onComplete: (order: Order) => void }) => {
+  const { user } = useAuth();
+  const cart = useCart();
+  const { placeOrder } = useOrders();
+  const { products } = useProducts();
+  const { t } = useTranslation();
+  const checkout = useCheckout(user ? { name: `${user.firstName} ${user.lastName}`, email: user.email } : {});
+  const { step, steps, details, errors, update } = checkout;
+
+  // The cart is priced for delivery; re-price it for the chosen fulfilment
+  const pricedCart = buildCartState(cart.items, cart.promoCodes, details.fulfilment);
+  const stepNumber = steps.indexOf(step) + 1;
+  const [submitState, setSubmitState] = useState<SubmitState>({ status: "idle" });
+
+  // The acknowledgement covers the allergens and unlisted desserts shown when
+  // it was given; a dessert that brings a new one into the cart needs
+  // agreeing to again
+  const allergens = cartAllergens(pricedCart.items, products);
+  const allergenWarning = [...allergens.listed, ...allergens.unlisted.map((id) => `#${id}`)].join(",");
+  const [acknowledgedAllergens, setAcknowledgedAllergens] = useState<string | null>(null);
+  const [showAllergenError, setShowAllergenError] = useState(false);
+  const allergensAcknowledged = !allergenWarning || acknowledgedAllergens === allergenWarning;
+
+  // Re-reads the catalog and this browser's sales so purchases made in
+  // another tab count; on a shortage the cart is trimmed to what is left
+  const hasStock = async () => {
+    const catalog = await productRepository.list();
+    const shortages = findShortages(pricedCart.items, catalog);
+    if (shortages.length === 0) return true;
+
+    cart.syncStock(catalog);
+    setSubmitState({ status: "out-of-stock", shortages });
+    return false;
+  };
+
+  const handlePlaceOrder = async () => {
+    if (!checkout.next() || !details.slot || !details.paymentMethod) return;
+    if (!allergensAcknowledged) {
+      setShowAllergenError(true);
+      document.getElementById("checkout-allergens")?.focus();
+      return;
+    }
+
+    const orderDetails = {
+      contact: details.contact,
+      fulfilment: details.fulfilment,
+      address: details.fulfilment === "delivery" ? details.address : null,
+      slot: details.slot,
+      paymentMethod: details.paymentMethod,
+    };
+    const lines = pricedCart.items.map(({ id, quantity }) => ({ id, quantity }));
+
+    setSubmitState({ status: "processing" });
+    try {
+      if (!(await hasStock())) return;
+
+      let payment: Payment | null = null;
+      if (isOnlinePayment(details.paymentMethod)) {
+        const authorized = await authorizeCheckout(details.paymentMethod, details, pricedCart.total, (pending) =>
+          setSubmitState({ status: "awaiting-approval", payment: pending })
+        );
+        if (authorized.status !== "authorized") {
+          setSubmitState({ status: "failed", reason: authorized.failureReason ?? "declined" });
+          return;
+        }
+        setSubmitState({ status: "processing" });
+
+        try {
+          // Approval on the phone can take a while; release the money rather
+          // than charge for desserts that sold out in the meantime
+          if (!(await hasStock())) {
+            await providerFor(authorized).fail(authorized.id, "cancelled");
+            return;
+          }
+
+          recordSale(lines);
+          try {
+            payment = await providerFor(authorized).capture(authorized.id);
+          } catch (error) {
+            releaseSale(lines);
+            throw error;
+          }
+        } catch (error) {
+          // Never leave the customer's money held for an order that wasn't placed
+          await providerFor(authorized).fail(authorized.id, "cancelled").catch(() => undefined);
+          throw error;
+        }
+      } else {
+        recordSale(lines);
+      }
+
+      const order = placeOrder(pricedCart, orderDetails, payment);
+      cart.clearCart();
+      checkout.reset();
+      onComplete(order);
+    } catch {
+      // e.g. the catalog couldn't be reached, or the payment was cancelled as it settled
+      setSubmitState({ status: "error" });
+    }
+  };
+
+  const cancelPayment = () => {
+    if (submitState.status !== "awaiting-approval") return;
+    const { payment } = submitState;
+    // Losing the race to an approval is fine: capture then fails and the order isn't placed
+    providerFor(payment).fail(payment.id, "cancelled").catch(() => undefined);
+  };
+
+  const isPaying = submitState.status === "processing" || submitState.status === "awaiting-approval";
+
+  const stepProps = { details, errors, update };
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <h1 className="text-4xl font-bold text-gray-900 mb-8">{t("checkout.title")}</h1>
+
+      <nav aria-label={t("checkout.progress")} className="mb-8">
+        <ol className="flex flex-wrap gap-2">
+          {steps.map((item, index) => {
+            const isCurrent = item === step;
+            const isDone = index < stepNumber - 1;
+            return (
+              <li key={item}>
+                <button
+                  onClick={() => checkout.goTo(item)}
+                  disabled={!isDone || isPaying}
+                  aria-current={isCurrent ? "step" : undefined}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold transition-colors ${
+                    isCurrent
+                      ? "bg-red-600 text-white"
+                      : isDone
+                        ? "bg-white text-red-600 border border-red-600 hover:bg-red-50"
+                        : "bg-white text-gray-400 border border-gray-200"
+                  }`}
+                >
+                  {isDone && <Check size={14} />}
+                  {t(`checkout.step.${item}`)}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </nav>
+
+      <div className="grid lg:grid-cols-3 gap-8 items-start">
+        <section className="lg:col-span-2 bg-white p-8 rounded-xl shadow-lg">
+          <p className="text-sm text-gray-500 mb-1">{t("checkout.stepOf", { current: stepNumber, total: steps.length })}</p>
+          <h2 className="text-2xl font-semibold text-gray-900 mb-6">{t(`checkout.step.${step}`)}</h2>
+
+          <form
+            noValidate
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (step === "review") {
+                void handlePlaceOrder();
+              } else {
+                checkout.next();
+              }
+            }}
+          >
+            {step === "contact" && <ContactStep {...stepProps} />}
+            {step === "fulfilment" && <FulfilmentStep {...stepProps} />}
+            {step === "address" && <AddressStep {...stepProps} />}
+            {step === "slot" && <SlotStep {...stepProps} />}
+            {step === "payment" && <PaymentStep {...stepProps} />}
+            {step === "review" && <ReviewStep details={details} onEdit={isPaying ? () => undefined : checkout.goTo} />}
+            {step === "review" && allergenWarning && (
+              <AllergenNotice
+                allergens={allergens}
+                items={pricedCart.items.map((item) => products.find((product) => product.id === item.id) ?? item)}
+                acknowledged={allergensAcknowledged}
+                showError={showAllergenError}
+                disabled={isPaying}
+                onAcknowledge={(acknowledged) => setAcknowledgedAllergens(acknowledged ? allergenWarning : null)}
+              />
+            )}
+
+            {step === "review" && submitState.status !== "idle" && (
+              <div
+                role={isPaying ? "status" : "alert"}
+                className={`mt-6 p-4 rounded-lg text-sm ${isPaying ? "bg-orange-50 text-gray-700" : "bg-red-50 text-red-700"}`}
+              >
+                {submitState.status === "failed" && t(`payment.failure.${submitState.reason}`)}
+                {submitState.status === "error" && t("checkout.error")}
+                {submitState.status === "out-of-stock" && (
+                  <>
+                    <p className="font-semibold mb-1">{t("checkout.stock.title")}</p>
+                    <ul className="list-disc pl-5">
+                      {submitState.shortages.map(({ productId, name, available }) => (
+                        <li key={productId}>
+                          {available > 0
+                            ? t("checkout.stock.low", { name, count: available })
+                            : t("checkout.stock.soldOut", { name })}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                {submitState.status === "processing" && (
+                  <span className="flex items-center gap-2">
+                    <Loader2 size={16} className="animate-spin" />
+                    {t("checkout.payment.processing")}
+                  </span>
+                )}
+                {submitState.status === "awaiting-approval" && (
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <span className="flex items-center gap-2">
+                      <Loader2 size={16} className="animate-spin" />
+                      {t("checkout.payment.awaitingApproval", { phone: submitState.payment.reference })}
+                    </span>
+                    <button type="button" onClick={cancelPayment} className="text-red-600 hover:underline font-medium">
+                      {t("checkout.payment.cancel")}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-between gap-4 mt-8">
+              {checkout.isFirstStep ? (
+                <span />
+              ) : (
+                <button
+                  type="button"
+                  onClick={checkout.back}
+                  disabled={isPaying}
+                  className="flex items-center gap-2 px-6 py-3 rounded-full font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ArrowLeft size={16} />
+                  {t("checkout.back")}
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isPaying}
+                className="flex items-center gap-2 px-6 py-3 rounded-full font-semibold bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {step === "review" ? t("checkout.placeOrder") : t("checkout.continue")}
+                {step !== "review" && <ArrowRight size={16} />}
+              </button>
+            </div>
+          </form>
+        </section>
+
+        <aside className="bg-white p-6 rounded-xl shadow-lg">
+          <h2 className="text-xl font-bold text-red-600 mb-4">{t("checkout.summary")}</h2>
+          <ul className="mb-4">
+            {pricedCart.items.map((item) => (
+              <li key={item.id} className="flex justify-between gap-4 py-2 text-sm">
+                <span className="text-gray-700">
+                  <span className="text-red-600 font-semibold">{item.quantity}x</span> {item.name}
+                </span>
+                <span className="text-gray-900 font-semibold">{formatMoney(lineTotal(item))}</span>
+              </li>
+            ))}
+          </ul>
+          <PriceSummary pricing={pricedCart.pricing} />
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+const Checkout = () => {
+  const { itemCount } = useCart();
+  const { t } = useTranslation();
+  const [confirmedOrder, setConfirmedOrder] = useState<Order | null>(null);
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      {confirmedOrder ? (
+        <ConfirmOrder order={confirmedOrder} />
+      ) : itemCount === 0 ? (
+        <div className="max-w-2xl mx-auto bg-white p-8 rounded-xl shadow-lg text-center">
+          <ShoppingCart size={48} className="mx-auto mb-4 text-gray-400" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{t("checkout.empty.title")}</h1>
+          <p className="text-gray-600 mb-6">{t("checkout.empty.body")}</p>
+          <Link
+            to="/"
+            className="inline-block bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors"
+          >
+            {t("checkout.empty.browse")}
+          </Link>
+        </div>
+      ) : (
+        <CheckoutWizard onComplete={setConfirmedOrder} />
+      )}
+    </div>
+  );
+};
+
+export default Checkout;
@@ -1,59 +1,76 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { MapPin, Phone, Mail, Clock, Send, CheckCircle } from 'lucide-react';
-
-interface ContactForm {
-  name: string;
-  email: string;
-  message: string;
-}
+import { useTranslation } from "../hooks/useTranslation";
+import { useForm } from "../hooks/useForm";
+import { EMPTY_CONTACT, contactSchema } from "../lib/contact";
+import { requestFormToken, sendContactMessage } from "../services/contactMessages";
 
 const Contact = () => {
-  const [form, setForm] = useState<ContactForm>({
-    name: "",
-    email: "",
-    message: ""
-  });
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { t } = useTranslation();
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [formToken, setFormToken] = useState<string | null>(null);
+
+  const refreshFormToken = () =>
+    requestFormToken()
+      .then(setFormToken)
+      .catch(() => setFormToken(null));
+
+  useEffect(() => {
+    void refreshFormToken();
+  }, []);
+
+  const form = useForm({
+    initialValues: EMPTY_CONTACT,
+    schema: contactSchema,
+    onSubmit: async (values) => {
+      if (!formToken) throw new Error(t("contact.error.unavailable"));
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    setForm(prev => ({ ...prev, [name]: value }));
-  };
+      const result = await sendContactMessage({ ...values, formToken });
+      if (!result.ok) {
+        switch (result.reason) {
+          case "too-fast":
+            throw new Error(t("contact.error.tooFast"));
+          case "rate-limited":
+            throw new Error(t("contact.error.rateLimited", { count: Math.ceil(result.retryAfterSeconds / 60) }));
+          case "expired":
+            await refreshFormToken();
+            throw new Error(t("contact.error.expired"));
+          case "invalid":
+            throw new Error(t("contact.error.invalid"));
+        }
+      }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    setIsSubmitting(false);
-    setIsSubmitted(true);
-    setForm({ name: "", email: "", message: "" });
-    
-    setTimeout(() => setIsSubmitted(false), 3000);
-  };
+      setIsSubmitted(true);
+      form.reset();
+      // The next message is a new visit as far as the fill-time check goes
+      void refreshFormToken();
+    },
+  });
+
+  useEffect(() => {
+    if (!isSubmitted) return;
+    const timer = setTimeout(() => setIsSubmitted(false), 3000);
+    return () => clearTimeout(timer);
+  }, [isSubmitted]);
 
   return (
     <div className="min-h-screen bg-orange-50 py-8 px-4">
       <div className="max-w-6xl mx-auto">
         <section>
-          <h1 className="text-4xl font-bold text-gray-900 mb-8 text-center">Contact Us</h1>
+          <h1 className="text-4xl font-bold text-gray-900 mb-8 text-center">{t("contact.title")}</h1>
           
           <div className="grid lg:grid-cols-2 gap-12">
             <div>
-              <h2 className="text-2xl font-semibold mb-4 text-gray-900">Get in Touch</h2>
+              <h2 className="text-2xl font-semibold mb-4 text-gray-900">{t("contact.getInTouch")}</h2>
               <p className="text-gray-600 mb-8">
-                Have questions about our desserts or need help with your order? 
-                We'd love to hear from you!
+                {t("contact.intro")}
               </p>
               
               <div className="space-y-6">
                 <div className="flex items-start gap-4">
                   <MapPin size={20} className="text-red-600 mt-1 flex-shrink-0" />
                   <div>
-                    <h3 className="text-lg font-semibold mb-1 text-gray-900">Address</h3>
+                    <h3 className="text-lg font-semibold mb-1 text-gray-900">{t("contact.address")}</h3>
                     <p className="text-gray-600">123 Sweet Street<br />Dessert District, DD 12345</p>
                   </div>
                 </div>
@@ -61,7 +78,7 @@ const Contact = () => {
                 <div className="flex items-start gap-4">
                   <Phone size={20} className="text-red-600 mt-1 flex-shrink-0" />
                   <div>
-                    <h3 className="text-lg font-semibold mb-1 text-gray-900">Phone</h3>
+                    <h3 className="text-lg font-semibold mb-1 text-gray-900">{t("contact.phone")}</h3>
                     <p className="text-gray-600">+1 (555) 123-CAKE</p>
                   </div>
                 </div>
@@ -69,7 +86,7 @@ const Contact = () => {
                 <div className="flex items-start gap-4">
                   <Mail size={20} className="text-red-600 mt-1 flex-shrink-0" />
                   <div>
-                    <h3 className="text-lg font-semibold mb-1 text-gray-900">Email</h3>
+                    <h3 className="text-lg font-semibold mb-1 text-gray-900">{t("contact.email")}</h3>
                     <p className="text-gray-600">hello@dessertshop.com</p>
                   </div>
                 </div>
@@ -77,8 +94,8 @@ const Contact = () => {
                 <div className="flex items-start gap-4">
                   <Clock size={20} className="text-red-600 mt-1 flex-shrink-0" />
                   <div>
-                    <h3 className="text-lg font-semibold mb-1 text-gray-900">Hours</h3>
-                    <p className="text-gray-600">Mon-Sat: 8AM - 8PM<br />Sunday: 10AM - 6PM</p>
+                    <h3 className="text-lg font-semibold mb-1 text-gray-900">{t("contact.hours")}</h3>
+                    <p className="text-gray-600">{t("contact.hoursWeekdays")}<br />{t("contact.hoursSunday")}</p>
                   </div>
                 </div>
               </div>
@@ -88,57 +105,72 @@ const Contact = () => {
               {isSubmitted ? (
                 <div className="text-center py-8">
                   <CheckCircle size={48} className="mx-auto mb-4 text-green-500" />
-                  <h3 className="text-xl font-semibold text-green-600 mb-2">Message Sent!</h3>
-                  <p className="text-gray-600">Thank you for contacting us. We'll get back to you soon!</p>
+                  <h3 className="text-xl font-semibold text-green-600 mb-2">{t("contact.sent.title")}</h3>
+                  <p className="text-gray-600">{t("contact.sent.body")}</p>
                 </div>
               ) : (
-                <form className="space-y-6" onSubmit={handleSubmit}>
+                <form className="space-y-6" onSubmit={form.handleSubmit} noValidate>
+                  {form.formError && (
+                    <div role="alert" className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                      {form.formError}
+                    </div>
+                  )}
+
                   <div>
-                    <label htmlFor="name" className="block text-sm font-semibold text-gray-700 mb-2">Name *</label>
+                    <label htmlFor={form.fieldId("name")} className="block text-sm font-semibold text-gray-700 mb-2">{t("contact.form.name")}</label>
                     <input
                       type="text"
-                      id="name"
-                      name="name"
-                      value={form.name}
-                      onChange={handleChange}
-                      required
-                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors"
+                      {...form.register("name")}
+                      className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors ${
+                        form.error("name") ? "border-red-300 bg-red-50" : "border-gray-300"
+                      }`}
                     />
+                    {form.error("name") && (
+                      <p id={form.errorId("name")} className="mt-1 text-sm text-red-600">{form.error("name")}</p>
+                    )}
                   </div>
                   
                   <div>
-                    <label htmlFor="email" className="block text-sm font-semibold text-gray-700 mb-2">Email *</label>
+                    <label htmlFor={form.fieldId("email")} className="block text-sm font-semibold text-gray-700 mb-2">{t("contact.form.email")}</label>
                     <input
                       type="email"
-                      id="email"
-                      name="email"
-                      value={form.email}
-                      onChange={handleChange}
-                      required
-                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors"
+                      {...form.register("email")}
+                      className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors ${
+                        form.error("email") ? "border-red-300 bg-red-50" : "border-gray-300"
+                      }`}
                     />
+                    {form.error("email") && (
+                      <p id={form.errorId("email")} className="mt-1 text-sm text-red-600">{form.error("email")}</p>
+                    )}
                   </div>
                   
                   <div>
-                    <label htmlFor="message" className="block text-sm font-semibold text-gray-700 mb-2">Message *</label>
+                    <label htmlFor={form.fieldId("message")} className="block text-sm font-semibold text-gray-700 mb-2">{t("contact.form.message")}</label>
                     <textarea
-                      id="message"
-                      name="message"
-                      value={form.message}
-                      onChange={handleChange}
-                      required
+                      {...form.register("message")}
                       rows={5}
-                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors resize-vertical"
+                      className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors resize-vertical ${
+                        form.error("message") ? "border-red-300 bg-red-50" : "border-gray-300"
+                      }`}
                     />
+                    {form.error("message") && (
+                      <p id={form.errorId("message")} className="mt-1 text-sm text-red-600">{form.error("message")}</p>
+                    )}
                   </div>
                   
+                  {/* Honeypot: off-screen and skipped by keyboard and screen readers */}
+                  <div className="absolute -left-[9999px]" aria-hidden="true">
+                    <label htmlFor={form.fieldId("website")}>{t("contact.form.website")}</label>
+                    <input type="text" {...form.register("website")} tabIndex={-1} autoComplete="off" />
+                  </div>
+
                   <button 
                     type="submit" 
                     className="w-full flex items-center justify-center gap-2 bg-red-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    disabled={isSubmitting}
+                    disabled={form.isSubmitting}
                   >
                     <Send size={16} />
-                    {isSubmitting ? "Sending..." : "Send Message"}
+                    {form.isSubmitting ? t("contact.form.sending") : t("contact.form.send")}
                   </button>
                 </form>
               )}
@@ -0,0 +1,40 @@
+import { Link } from "react-router-dom";
+import { User, Package, ShoppingBag } from "lucide-react";
+import { useAuth } from "../hooks/useAuth";
+import { useTranslation } from "../hooks/useTranslation";
+
+const Dashboard = () => {
+  const { user } = useAuth();
+  const { t } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">{t("dashboard.welcome", { name: user?.firstName ?? "" })}</h1>
+        <p className="text-gray-600 mb-8">{t("dashboard.subtitle")}</p>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <Link to="/" className="bg-white p-6 rounded-xl shadow-lg hover:shadow-xl transition-shadow">
+            <ShoppingBag size={32} className="text-red-600 mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">{t("dashboard.shop.title")}</h2>
+            <p className="text-gray-600">{t("dashboard.shop.body")}</p>
+          </Link>
+
+          <Link to="/orders" className="bg-white p-6 rounded-xl shadow-lg hover:shadow-xl transition-shadow">
+            <Package size={32} className="text-red-600 mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">{t("dashboard.orders.title")}</h2>
+            <p className="text-gray-600">{t("dashboard.orders.body")}</p>
+          </Link>
+
+          <Link to="/profile" className="bg-white p-6 rounded-xl shadow-lg hover:shadow-xl transition-shadow">
+            <User size={32} className="text-red-600 mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">{t("dashboard.profile.title")}</h2>
+            <p className="text-gray-600">{t("dashboard.profile.body")}</p>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
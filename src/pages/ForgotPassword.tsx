@@ -1,68 +1,39 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Mail, ArrowLeft, ArrowRight, CheckCircle, RotateCcw } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { useForm } from '../hooks/useForm';
+import { passwordResetSchema } from '../services/authForms';
 
 const ForgotPassword: React.FC = () => {
-  const [email, setEmail] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
   const [isEmailSent, setIsEmailSent] = useState(false);
-  const [errors, setErrors] = useState<{ [key: string]: string }>({});
   
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setEmail(e.target.value);
-    // Clear error when user starts typing
-    if (errors.email) {
-      setErrors({});
-    }
-  };
-
-  const validateEmail = () => {
-    const newErrors: { [key: string]: string } = {};
-    
-    if (!email) {
-      newErrors.email = 'Email is required';
-    } else if (!/\S+@\S+\.\S+/.test(email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
-    
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateEmail()) return;
-    
-    setIsLoading(true);
-    
-    try {
+  const form = useForm({
+    initialValues: { email: '' },
+    schema: passwordResetSchema,
+    failureMessage: 'auth.forgot.sendFailed',
+    onSubmit: async () => {
       // Simulate API call
       await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock successful email send
-      console.log('Password reset email sent to:', email);
       setIsEmailSent(true);
-    } catch (error) {
-      setErrors({ general: 'Failed to send reset email. Please try again.' });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    },
+  });
+  const { email } = form.values;
 
   const handleResendEmail = async () => {
-    setIsLoading(true);
+    setIsResending(true);
     
     try {
       // Simulate API call
       await new Promise(resolve => setTimeout(resolve, 1500));
-      console.log('Password reset email resent to:', email);
-    } catch (error) {
-      setErrors({ general: 'Failed to resend email. Please try again.' });
+    } catch {
+      form.setFormError(t('auth.forgot.resendFailed'));
     } finally {
-      setIsLoading(false);
+      setIsResending(false);
     }
   };
 
@@ -79,8 +50,8 @@ const ForgotPassword: React.FC = () => {
             <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-green-500 to-blue-500 rounded-full mb-4">
               <CheckCircle className="w-8 h-8 text-white" />
             </div>
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">Check Your Email</h1>
-            <p className="text-gray-600">We've sent password reset instructions to</p>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('auth.forgot.sent.title')}</h1>
+            <p className="text-gray-600">{t('auth.forgot.sent.body')}</p>
             <p className="text-gray-900 font-medium">{email}</p>
           </div>
 
@@ -90,17 +61,17 @@ const ForgotPassword: React.FC = () => {
               {/* Instructions */}
               <div className="space-y-4">
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                  <h3 className="font-medium text-blue-900 mb-2">What's next?</h3>
+                  <h3 className="font-medium text-blue-900 mb-2">{t('auth.forgot.next.title')}</h3>
                   <ul className="text-sm text-blue-800 space-y-1 text-left">
-                    <li>• Check your email inbox</li>
-                    <li>• Click the reset link in the email</li>
-                    <li>• Create a new password</li>
-                    <li>• Sign in with your new password</li>
+                    <li>• {t('auth.forgot.next.inbox')}</li>
+                    <li>• {t('auth.forgot.next.link')}</li>
+                    <li>• {t('auth.forgot.next.password')}</li>
+                    <li>• {t('auth.forgot.next.signIn')}</li>
                   </ul>
                 </div>
 
                 <p className="text-sm text-gray-600">
-                  Didn't receive the email? Check your spam folder or try again.
+                  {t('auth.forgot.notReceived')}
                 </p>
               </div>
 
@@ -108,15 +79,15 @@ const ForgotPassword: React.FC = () => {
               <div className="space-y-3">
                 <button
                   onClick={handleResendEmail}
-                  disabled={isLoading}
+                  disabled={isResending}
                   className="w-full bg-gradient-to-r from-blue-600 to-green-600 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-700 hover:to-green-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                 >
-                  {isLoading ? (
+                  {isResending ? (
                     <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                   ) : (
                     <>
                       <RotateCcw className="mr-2 h-5 w-5" />
-                      Resend Email
+                      {t('auth.forgot.resend')}
                     </>
                   )}
                 </button>
@@ -126,16 +97,16 @@ const ForgotPassword: React.FC = () => {
                   className="w-full bg-gray-100 text-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-all duration-200 flex items-center justify-center"
                 >
                   <ArrowLeft className="mr-2 h-5 w-5" />
-                  Back to Sign In
+                  {t('auth.forgot.backToSignIn')}
                 </button>
               </div>
 
               {/* Help Text */}
               <div className="pt-4 border-t border-gray-200">
                 <p className="text-sm text-gray-500">
-                  Still having trouble?{' '}
+                  {t('auth.forgot.stillTrouble')}{' '}
                   <Link to="/contact" className="text-blue-600 hover:text-blue-500 font-medium">
-                    Contact Support
+                    {t('auth.forgot.contactSupport')}
                   </Link>
                 </p>
               </div>
@@ -154,24 +125,24 @@ const ForgotPassword: React.FC = () => {
           <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-indigo-600 to-cyan-600 rounded-full mb-4">
             <Mail className="w-8 h-8 text-white" />
           </div>
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Forgot Password?</h1>
-          <p className="text-gray-600">No worries! Enter your email and we'll send you reset instructions</p>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('auth.forgot.title')}</h1>
+          <p className="text-gray-600">{t('auth.forgot.subtitle')}</p>
         </div>
 
         {/* Reset Form */}
         <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-          <form onSubmit={handleSubmit} className="space-y-6">
+          <form onSubmit={form.handleSubmit} noValidate className="space-y-6">
             {/* General Error */}
-            {errors.general && (
-              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
-                {errors.general}
+            {form.formError && (
+              <div role="alert" className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {form.formError}
               </div>
             )}
 
             {/* Email Field */}
             <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
+              <label htmlFor={form.fieldId('email')} className="block text-sm font-medium text-gray-700 mb-2">
+                {t('auth.forgot.email')}
               </label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -179,35 +150,32 @@ const ForgotPassword: React.FC = () => {
                 </div>
                 <input
                   type="email"
-                  id="email"
-                  name="email"
-                  value={email}
-                  onChange={handleInputChange}
+                  {...form.register('email')}
                   className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors ${
-                    errors.email ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                    form.error('email') ? 'border-red-300 bg-red-50' : 'border-gray-300'
                   }`}
-                  placeholder="Enter your email address"
+                  placeholder={t('auth.forgot.emailPlaceholder')}
                 />
               </div>
-              {errors.email && (
-                <p className="mt-1 text-sm text-red-600">{errors.email}</p>
+              {form.error('email') && (
+                <p id={form.errorId('email')} className="mt-1 text-sm text-red-600">{form.error('email')}</p>
               )}
               <p className="mt-2 text-sm text-gray-500">
-                We'll send password reset instructions to this email address.
+                {t('auth.forgot.emailHint')}
               </p>
             </div>
 
             {/* Submit Button */}
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={form.isSubmitting}
               className="w-full bg-gradient-to-r from-indigo-600 to-cyan-600 text-white py-3 px-4 rounded-lg font-medium hover:from-indigo-700 hover:to-cyan-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
             >
-              {isLoading ? (
+              {form.isSubmitting ? (
                 <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
               ) : (
                 <>
-                  Send Reset Instructions
+                  {t('auth.forgot.submit')}
                   <ArrowRight className="ml-2 h-5 w-5" />
                 </>
               )}
@@ -220,22 +188,22 @@ const ForgotPassword: React.FC = () => {
               className="w-full bg-gray-100 text-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-all duration-200 flex items-center justify-center"
             >
               <ArrowLeft className="mr-2 h-5 w-5" />
-              Back to Sign In
+              {t('auth.forgot.backToSignIn')}
             </button>
           </form>
 
           {/* Help Section */}
           <div className="mt-6 pt-6 border-t border-gray-200">
             <div className="text-center">
-              <h3 className="text-sm font-medium text-gray-900 mb-2">Need help?</h3>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">{t('auth.forgot.help.title')}</h3>
               <p className="text-sm text-gray-600 mb-3">
-                If you're having trouble accessing your account, our support team is here to help.
+                {t('auth.forgot.help.body')}
               </p>
               <Link
                 to="/contact"
                 className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-500 font-medium"
               >
-                Contact Support
+                {t('auth.forgot.contactSupport')}
                 <ArrowRight className="ml-1 h-4 w-4" />
               </Link>
             </div>
@@ -243,9 +211,9 @@ const ForgotPassword: React.FC = () => {
 
           {/* Sign Up Link */}
           <p className="mt-6 text-center text-sm text-gray-600">
-            Don't have an account?{' '}
+            {t('auth.noAccount')}{' '}
             <Link to="/register" className="font-medium text-indigo-600 hover:text-indigo-500">
-              Sign up for free
+              {t('auth.signUpFree')}
             </Link>
           </p>
         </div>
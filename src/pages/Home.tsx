@@ -1,45 +1,105 @@
-import { useState } from "react";
-import { products } from "../data/products";
 import ProductCard from "../shared/components/ProductCard";
 import Cart from "../shared/components/Cart";
-import ConfirmOrder from "../shared/components/ConfirmOrder";
-import { useCart } from "../hooks/useCart";
+import CatalogFilters from "../shared/components/CatalogFilters";
+import { useProducts } from "../hooks/useProducts";
+import { useReviews } from "../hooks/useReviews";
+import { useCatalogFilters } from "../hooks/useCatalogFilters";
+import { useTranslation } from "../hooks/useTranslation";
+import { filterProducts, getCategories } from "../lib/catalog";
+import { AlertCircle, RotateCcw, Search } from "lucide-react";
 
 const Home = () => {
-  const [isOrderModalVisible, setIsOrderModalVisible] = useState(false);
-  const { itemCount } = useCart();
-
-  const handleConfirmOrder = () => {
-    if (itemCount > 0) {
-      setIsOrderModalVisible(true);
-    }
-  };
-
-  const handleCloseModal = () => {
-    setIsOrderModalVisible(false);
-  };
+  const { status, products, error, reload } = useProducts();
+  const filters = useCatalogFilters();
+  const { ratings } = useReviews();
+  const { t } = useTranslation();
+  const visibleProducts = filterProducts(products, filters, ratings);
 
   return (
     <div className="min-h-screen bg-orange-50">
       <main className="py-8 px-4">
         <div className="max-w-7xl mx-auto flex gap-8 flex-wrap">
           <section className="flex-1 min-w-80">
-            <h1 className="text-4xl font-bold text-gray-900 mb-8">Desserts</h1>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {products.map((product) => (
-                <ProductCard key={product.id} product={product} />
-              ))}
-            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-8">{t("home.title")}</h1>
+
+            {status === "success" && products.length > 0 && (
+              <CatalogFilters
+                categories={getCategories(products)}
+                category={filters.category}
+                query={filters.query}
+                sort={filters.sort}
+                excludeAllergens={filters.excludeAllergens}
+                onCategoryChange={filters.setCategory}
+                onQueryChange={filters.setQuery}
+                onSortChange={filters.setSort}
+                onExcludeAllergensChange={filters.setExcludeAllergens}
+              />
+            )}
+
+            {status === "loading" && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6" aria-busy="true" aria-label={t("home.loading")}>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <div key={index} className="bg-white rounded-xl overflow-hidden shadow-lg animate-pulse">
+                    <div className="h-60 bg-gray-200" />
+                    <div className="p-5 space-y-3">
+                      <div className="h-3 w-1/3 bg-gray-200 rounded" />
+                      <div className="h-5 w-2/3 bg-gray-200 rounded" />
+                      <div className="h-6 w-1/4 bg-gray-200 rounded" />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {status === "error" && (
+              <div className="bg-white p-8 rounded-xl shadow-lg text-center" role="alert">
+                <AlertCircle size={48} className="mx-auto mb-4 text-red-500" />
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">{t("home.error.title")}</h2>
+                <p className="text-gray-600 mb-6">{error.message}</p>
+                <button
+                  onClick={reload}
+                  className="inline-flex items-center gap-2 bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors"
+                >
+                  <RotateCcw size={16} />
+                  {t("home.error.retry")}
+                </button>
+              </div>
+            )}
+
+            {status === "success" && products.length === 0 && (
+              <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+                <Search size={48} className="mx-auto mb-4 text-gray-400" />
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">{t("home.empty.title")}</h2>
+                <p className="text-gray-600">{t("home.empty.body")}</p>
+              </div>
+            )}
+
+            {status === "success" && products.length > 0 && visibleProducts.length === 0 && (
+              <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+                <Search size={48} className="mx-auto mb-4 text-gray-400" />
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">{t("home.noMatches.title")}</h2>
+                <p className="text-gray-600 mb-6">{t("home.noMatches.body")}</p>
+                <button
+                  onClick={filters.clearFilters}
+                  className="inline-block bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors"
+                >
+                  {t("home.noMatches.clear")}
+                </button>
+              </div>
+            )}
+
+            {status === "success" && visibleProducts.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {visibleProducts.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+            )}
           </section>
 
-          <Cart onConfirmOrder={handleConfirmOrder} />
+          <Cart />
         </div>
       </main>
-
-      <ConfirmOrder
-        isVisible={isOrderModalVisible}
-        onClose={handleCloseModal}
-      />
     </div>
   );
 };
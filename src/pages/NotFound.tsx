@@ -1,7 +1,10 @@
 import { Link } from 'react-router-dom';
 import { Home, ArrowLeft, Search } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
 
 const NotFound = () => {
+  const { t } = useTranslation();
+
   return (
     <div className="min-h-screen bg-orange-50 flex items-center justify-center px-4">
       <div className="text-center max-w-2xl">
@@ -10,11 +13,10 @@ const NotFound = () => {
         </div>
         
         <h1 className="text-8xl font-extrabold text-red-600 mb-4 leading-none">404</h1>
-        <h2 className="text-3xl font-bold text-gray-800 mb-4">Page Not Found</h2>
+        <h2 className="text-3xl font-bold text-gray-800 mb-4">{t('notFound.title')}</h2>
         
         <p className="text-lg text-gray-600 mb-12 leading-relaxed">
-          Oops! The page you're looking for doesn't exist. 
-          It might have been moved, deleted, or you entered the wrong URL.
+          {t('notFound.body')}
         </p>
         
         <div className="flex flex-wrap gap-4 justify-center mb-12">
@@ -23,7 +25,7 @@ const NotFound = () => {
             className="flex items-center gap-2 px-6 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors"
           >
             <Home size={20} />
-            Go Home
+            {t('notFound.home')}
           </Link>
           
           <button 
@@ -31,16 +33,16 @@ const NotFound = () => {
             className="flex items-center gap-2 px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
           >
             <ArrowLeft size={20} />
-            Go Back
+            {t('notFound.back')}
           </button>
         </div>
         
         <div className="bg-gray-100 p-8 rounded-xl">
-          <h3 className="text-xl font-semibold text-gray-800 mb-4">You might be looking for:</h3>
+          <h3 className="text-xl font-semibold text-gray-800 mb-4">{t('notFound.suggestions')}</h3>
           <ul className="space-y-2">
-            <li><Link to="/" className="text-red-600 hover:underline font-medium">Our Dessert Collection</Link></li>
-            <li><Link to="/about" className="text-red-600 hover:underline font-medium">About Our Shop</Link></li>
-            <li><Link to="/contact" className="text-red-600 hover:underline font-medium">Contact Us</Link></li>
+            <li><Link to="/" className="text-red-600 hover:underline font-medium">{t('notFound.collection')}</Link></li>
+            <li><Link to="/about" className="text-red-600 hover:underline font-medium">{t('notFound.about')}</Link></li>
+            <li><Link to="/contact" className="text-red-600 hover:underline font-medium">{t('notFound.contact')}</Link></li>
           </ul>
         </div>
       </div>
@@ -0,0 +1,90 @@
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, MapPin, Package } from "lucide-react";
+import { useOrders } from "../hooks/useOrders";
+import PriceSummary from "../shared/components/PriceSummary";
+import { formatMoney } from "../lib/currency";
+import { formatSlot } from "../lib/checkout";
+import { useTranslation } from "../hooks/useTranslation";
+import { currentStatus } from "../lib/orderStatus";
+import OrderStatusBadge from "../shared/components/OrderStatusBadge";
+
+const OrderDetail = () => {
+  const { id = "" } = useParams();
+  const { getOrder } = useOrders();
+  const { language, t } = useTranslation();
+  const order = getOrder(id);
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-orange-50 py-8 px-4">
+        <div className="max-w-2xl mx-auto bg-white p-8 rounded-xl shadow-lg text-center">
+          <Package size={48} className="mx-auto mb-4 text-gray-400" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{t("orders.notFound.title")}</h1>
+          <p className="text-gray-600 mb-6">{t("orders.notFound.body", { id })}</p>
+          <Link to="/orders" className="text-red-600 hover:underline font-medium">
+            {t("orders.notFound.back")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        <Link to="/orders" className="inline-flex items-center gap-2 text-gray-600 hover:text-red-600 mb-6 font-medium">
+          <ArrowLeft size={16} />
+          {t("orders.all")}
+        </Link>
+
+        <div className="bg-white p-8 rounded-xl shadow-lg">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-1">
+            <h1 className="text-2xl font-bold text-gray-900">{t("order.number", { id: order.id })}</h1>
+            <OrderStatusBadge status={currentStatus(order.history)} />
+          </div>
+          <p className="text-gray-600 mb-6">{t("orders.placed", { date: new Date(order.createdAt).toLocaleString(language) })}</p>
+          {order.details && (
+            <p className="text-gray-600 mb-6 -mt-4">
+              {t(`order.slot.${order.details.fulfilment}`, { slot: formatSlot(order.details.slot, language) })}
+            </p>
+          )}
+          {order.payment && (
+            <p className="text-gray-600 mb-6 -mt-4">
+              {t("order.paid", { reference: order.payment.reference, id: order.payment.id })}
+            </p>
+          )}
+
+          <div className="bg-gray-100 rounded-lg p-4 mb-6">
+            {order.items.map((item) => (
+              <div key={item.productId} className="flex items-center gap-4 py-3 border-b border-gray-200 last:border-b-0">
+                <img src={item.thumbnail} alt={item.name} className="w-12 h-12 rounded-md object-cover" />
+                <div className="flex-1">
+                  <strong className="block font-semibold text-gray-900 mb-1">{item.name}</strong>
+                  <div className="flex gap-3 text-sm text-gray-600">
+                    <span className="text-red-600 font-semibold">{item.quantity}x</span>
+                    <span>@ {formatMoney(item.unitPrice)}</span>
+                  </div>
+                </div>
+                <span className="font-semibold text-gray-900">
+                  {formatMoney(item.lineTotal)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <PriceSummary pricing={order.pricing} />
+
+          <Link
+            to={`/orders/${order.id}/track`}
+            className="mt-6 w-full inline-flex items-center justify-center gap-2 bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors"
+          >
+            <MapPin size={18} />
+            {t("track.link")}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderDetail;
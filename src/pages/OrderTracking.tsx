@@ -0,0 +1,121 @@
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Check, Package, X } from "lucide-react";
+import { useOrders } from "../hooks/useOrders";
+import { useTranslation } from "../hooks/useTranslation";
+import { currentStatus, progressSteps, type OrderStatus } from "../lib/orderStatus";
+import OrderStatusBadge from "../shared/components/OrderStatusBadge";
+
+type StepState = "done" | "current" | "upcoming" | "skipped";
+
+const SIDE_BRANCHES: OrderStatus[] = ["cancelled", "refunded"];
+
+const OrderTracking = () => {
+  const { id = "" } = useParams();
+  const { getOrder, allOrders, liveUpdates } = useOrders();
+  const { language, t } = useTranslation();
+  // Staff can follow any customer's order from the admin list
+  const order = getOrder(id) ?? allOrders.find((order) => order.id === id);
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-orange-50 py-8 px-4">
+        <div className="max-w-2xl mx-auto bg-white p-8 rounded-xl shadow-lg text-center">
+          <Package size={48} className="mx-auto mb-4 text-gray-400" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{t("orders.notFound.title")}</h1>
+          <p className="text-gray-600 mb-6">{t("orders.notFound.body", { id })}</p>
+          <Link to="/orders" className="text-red-600 hover:underline font-medium">
+            {t("orders.notFound.back")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const status = currentStatus(order.history);
+  const reachedAt = new Map(order.history.map((change) => [change.status, change.at]));
+  const offPath = SIDE_BRANCHES.includes(status) || status === "delivered";
+  const steps = progressSteps(order.details?.fulfilment ?? null);
+  const sideSteps = SIDE_BRANCHES.filter((step) => reachedAt.has(step));
+
+  const stepState = (step: OrderStatus): StepState => {
+    if (step === status) return offPath ? "done" : "current";
+    if (reachedAt.has(step)) return "done";
+    return sideSteps.length > 0 ? "skipped" : "upcoming";
+  };
+
+  const timeline = [...steps, ...sideSteps].map((step) => ({
+    step,
+    state: stepState(step),
+    at: reachedAt.get(step),
+    isSideBranch: SIDE_BRANCHES.includes(step),
+  }));
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        <Link to={`/orders/${order.id}`} className="inline-flex items-center gap-2 text-gray-600 hover:text-red-600 mb-6 font-medium">
+          <ArrowLeft size={16} />
+          {t("track.backToOrder")}
+        </Link>
+
+        <div className="bg-white p-8 rounded-xl shadow-lg">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+            <h1 className="text-2xl font-bold text-gray-900">{t("track.title", { id: order.id })}</h1>
+            <OrderStatusBadge status={status} />
+          </div>
+          <div className="mb-8">
+            <p className="text-gray-600" aria-live="polite">{t(`track.description.${status}`)}</p>
+            {/* Only the customer's own orders are followed live */}
+            {liveUpdates !== "off" && getOrder(order.id) && (
+              <p className="flex items-center gap-2 mt-2 text-sm text-gray-500">
+                <span
+                  aria-hidden="true"
+                  className={`w-2 h-2 rounded-full ${liveUpdates === "live" ? "bg-green-500" : "bg-yellow-400"}`}
+                />
+                {t(`track.live.${liveUpdates}`)}
+              </p>
+            )}
+          </div>
+
+          <ol className="relative">
+            {timeline.map(({ step, state, at, isSideBranch }, index) => (
+              <li key={step} className="relative flex gap-4 pb-8 last:pb-0" aria-current={state === "current" ? "step" : undefined}>
+                {index < timeline.length - 1 && (
+                  <span
+                    aria-hidden="true"
+                    className={`absolute left-4 top-8 -ml-px h-full w-0.5 ${state === "done" ? "bg-green-500" : "bg-gray-200"}`}
+                  />
+                )}
+                <span
+                  className={`relative z-10 flex items-center justify-center w-8 h-8 rounded-full shrink-0 ${
+                    isSideBranch
+                      ? "bg-red-600 text-white"
+                      : state === "done"
+                        ? "bg-green-500 text-white"
+                        : state === "current"
+                          ? "bg-white border-2 border-red-600"
+                          : "bg-white border-2 border-gray-200"
+                  }`}
+                >
+                  {isSideBranch ? (
+                    <X size={16} />
+                  ) : state === "done" ? (
+                    <Check size={16} />
+                  ) : state === "current" ? (
+                    <span className="w-3 h-3 rounded-full bg-red-600 animate-pulse" />
+                  ) : null}
+                </span>
+                <div className={state === "upcoming" || state === "skipped" ? "text-gray-400" : "text-gray-900"}>
+                  <p className={`font-semibold ${state === "skipped" ? "line-through" : ""}`}>{t(`order.status.${step}`)}</p>
+                  {at && <p className="text-sm text-gray-500">{new Date(at).toLocaleString(language)}</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTracking;
@@ -0,0 +1,57 @@
+import { Link } from "react-router-dom";
+import { Package, ChevronRight } from "lucide-react";
+import { useOrders } from "../hooks/useOrders";
+import { formatMoney } from "../lib/currency";
+import { useTranslation } from "../hooks/useTranslation";
+import { currentStatus } from "../lib/orderStatus";
+import OrderStatusBadge from "../shared/components/OrderStatusBadge";
+
+const Orders = () => {
+  const { orders } = useOrders();
+  const { language, t } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-4xl font-bold text-gray-900 mb-8">{t("orders.title")}</h1>
+
+        {orders.length === 0 ? (
+          <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+            <Package size={48} className="mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600 mb-6">{t("orders.empty")}</p>
+            <Link
+              to="/"
+              className="inline-block bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors"
+            >
+              {t("orders.browse")}
+            </Link>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {orders.map((order) => (
+              <li key={order.id}>
+                <Link
+                  to={`/orders/${order.id}`}
+                  className="flex items-center gap-4 bg-white p-6 rounded-xl shadow-lg hover:shadow-xl transition-shadow"
+                >
+                  <Package size={32} className="text-red-600 flex-shrink-0" />
+                  <div className="flex-1">
+                    <h2 className="font-semibold text-gray-900">{order.id}</h2>
+                    <p className="text-sm text-gray-600">
+                      {new Date(order.createdAt).toLocaleString(language)} · {t("orders.itemCount", { count: order.itemCount })}
+                    </p>
+                  </div>
+                  <OrderStatusBadge status={currentStatus(order.history)} />
+                  <strong className="text-xl font-bold text-gray-900">{formatMoney(order.pricing.total)}</strong>
+                  <ChevronRight size={20} className="text-gray-400" />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Orders;
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { AlertCircle, ArrowLeft, Minus, Plus, SearchX, ShoppingCart } from "lucide-react";
+import { useCart } from "../hooks/useCart";
+import { useProduct } from "../hooks/useProduct";
+import { useProducts } from "../hooks/useProducts";
+import type { Product } from "../data/products";
+import DietaryBadges from "../shared/components/DietaryBadges";
+import ResponsiveImage from "../shared/components/ResponsiveImage";
+import { formatMoney } from "../lib/currency";
+import { stockLevel } from "../lib/stock";
+import { useTranslation } from "../hooks/useTranslation";
+import ProductReviews from "../shared/components/ProductReviews";
+import RichText from "../shared/components/RichText";
+import WishlistButton from "../shared/components/WishlistButton";
+
+const RELATED_LIMIT = 3;
+
+// Same-category desserts first, then the rest of the catalog to fill the strip
+function getRelatedProducts(product: Product, catalog: Product[]) {
+  const others = catalog.filter((item) => item.id !== product.id);
+  return [
+    ...others.filter((item) => item.category === product.category),
+    ...others.filter((item) => item.category !== product.category),
+  ].slice(0, RELATED_LIMIT);
+}
+
+const ProductDetailView = ({ id }: { id: number }) => {
+  const { status, product, error } = useProduct(id);
+  const { products: catalog } = useProducts();
+  const { addItem, items } = useCart();
+  const { t } = useTranslation();
+  const [quantity, setQuantity] = useState(1);
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-orange-50 py-8 px-4">
+        <div className="max-w-6xl mx-auto grid md:grid-cols-2 gap-8 animate-pulse" aria-busy="true">
+          <div className="h-96 bg-gray-200 rounded-xl" />
+          <div className="space-y-4">
+            <div className="h-4 w-1/4 bg-gray-200 rounded" />
+            <div className="h-8 w-2/3 bg-gray-200 rounded" />
+            <div className="h-8 w-1/5 bg-gray-200 rounded" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === "error") {
+    return (
+      <div className="min-h-screen bg-orange-50 py-8 px-4">
+        <div className="max-w-2xl mx-auto bg-white p-8 rounded-xl shadow-lg text-center" role="alert">
+          <AlertCircle size={48} className="mx-auto mb-4 text-red-500" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{t("product.error.title")}</h1>
+          <p className="text-gray-600 mb-6">{error.message}</p>
+          <Link to="/" className="text-red-600 hover:underline font-medium">
+            {t("product.error.back")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="min-h-screen bg-orange-50 py-8 px-4">
+        <div className="max-w-2xl mx-auto bg-white p-8 rounded-xl shadow-lg text-center">
+          <SearchX size={48} className="mx-auto mb-4 text-gray-400" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{t("product.notFound.title")}</h1>
+          <p className="text-gray-600 mb-6">
+            {t("product.notFound.body")}
+          </p>
+          <Link
+            to="/"
+            className="inline-block bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors"
+          >
+            {t("product.notFound.browse")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const inCart = items.find((item) => item.id === product.id)?.quantity ?? 0;
+  const related = getRelatedProducts(product, catalog);
+  // What is left once the cart's share is set aside
+  const remaining = Math.max(0, product.stock - inCart);
+  const level = stockLevel(product.stock);
+
+  const handleAddToCart = () => {
+    addItem(product, quantity);
+    setQuantity(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <Link to="/" className="inline-flex items-center gap-2 text-gray-600 hover:text-red-600 mb-6 font-medium">
+          <ArrowLeft size={16} />
+          {t("product.back")}
+        </Link>
+
+        <div className="grid md:grid-cols-2 gap-8 bg-white rounded-xl shadow-lg overflow-hidden">
+          <ResponsiveImage
+            image={product.image}
+            alt={product.name}
+            className="w-full h-full min-h-80 object-cover"
+            loading="eager"
+          />
+
+          <div className="p-8 flex flex-col justify-center">
+            <p className="text-gray-500 text-sm uppercase tracking-wide font-medium mb-2">{product.category}</p>
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <h1 className="text-4xl font-bold text-gray-900 leading-tight">{product.name}</h1>
+              <WishlistButton product={product} className="shrink-0 border border-gray-200" />
+            </div>
+            <p className="text-3xl font-extrabold text-red-600 mb-8">{formatMoney(product.price)}</p>
+            {level !== "in-stock" && (
+              <p className={`-mt-6 mb-6 text-sm font-semibold ${level === "sold-out" ? "text-gray-900" : "text-orange-700"}`}>
+                {level === "sold-out" ? t("product.soldOut") : t("product.lowStock", { count: product.stock })}
+              </p>
+            )}
+
+            <DietaryBadges product={product} className="mb-4" />
+            {product.ingredients.length > 0 && (
+              <div className="mb-6">
+                <h2 className="text-sm font-semibold text-gray-700 mb-1">{t("product.ingredients")}</h2>
+                <p className="text-gray-600">{product.ingredients.join(", ")}</p>
+              </div>
+            )}
+
+            <div className="flex items-center gap-4 mb-6">
+              <div className="flex items-center gap-4 border-2 border-red-600 rounded-full px-4 py-2">
+                <button
+                  onClick={() => setQuantity((prev) => Math.max(1, prev - 1))}
+                  disabled={quantity <= 1}
+                  className="w-6 h-6 rounded-full flex items-center justify-center text-red-600 disabled:opacity-40"
+                  aria-label={t("product.decrease")}
+                >
+                  <Minus size={16} />
+                </button>
+                <span className="font-bold w-6 text-center" aria-live="polite">{quantity}</span>
+                <button
+                  onClick={() => setQuantity((prev) => Math.min(remaining, prev + 1))}
+                  disabled={quantity >= remaining}
+                  className="w-6 h-6 rounded-full flex items-center justify-center text-red-600 disabled:opacity-40"
+                  aria-label={t("product.increase")}
+                >
+                  <Plus size={16} />
+                </button>
+              </div>
+
+              <button
+                onClick={handleAddToCart}
+                disabled={remaining === 0}
+                className="flex-1 flex items-center justify-center gap-2 bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <ShoppingCart size={16} />
+                {t("product.addToCart")}
+              </button>
+            </div>
+
+            {inCart > 0 && (
+              <p className="text-sm text-gray-600">
+                <RichText
+                  text={t("product.inCart", { count: inCart })}
+                  components={{ strong: (chunk) => <strong>{chunk}</strong> }}
+                />
+              </p>
+            )}
+          </div>
+        </div>
+
+        <ProductReviews productId={product.id} />
+
+        {related.length > 0 && (
+          <section className="mt-12">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">{t("product.related")}</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+              {related.map((item) => (
+                <Link
+                  key={item.id}
+                  to={`/products/${item.id}`}
+                  className="bg-white rounded-xl overflow-hidden shadow-lg hover:shadow-xl transition-shadow"
+                >
+                  <ResponsiveImage image={item.image} alt={item.name} className="w-full h-40 object-cover" />
+                  <div className="p-4">
+                    <p className="text-gray-500 text-xs uppercase tracking-wide font-medium mb-1">{item.category}</p>
+                    <h3 className="font-bold text-gray-900 mb-1">{item.name}</h3>
+                    <p className="font-extrabold text-red-600">{formatMoney(item.price)}</p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Keyed by id so the quantity selector resets when following a related dessert
+const ProductDetail = () => {
+  const { id } = useParams();
+  return <ProductDetailView key={id} id={Number(id)} />;
+};
+
+export default ProductDetail;
@@ -0,0 +1,53 @@
+import { User, Mail, Calendar } from "lucide-react";
+import { useAuth } from "../hooks/useAuth";
+import { useTranslation } from "../hooks/useTranslation";
+
+const Profile = () => {
+  const { user, logout } = useAuth();
+  const { language, t } = useTranslation();
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-4xl font-bold text-gray-900 mb-8">{t("profile.title")}</h1>
+
+        <div className="bg-white p-8 rounded-xl shadow-lg space-y-6">
+          <div className="flex items-start gap-4">
+            <User size={20} className="text-red-600 mt-1 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-1">{t("profile.name")}</h3>
+              <p className="text-lg text-gray-900">{user.firstName} {user.lastName}</p>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-4">
+            <Mail size={20} className="text-red-600 mt-1 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-1">{t("profile.email")}</h3>
+              <p className="text-lg text-gray-900">{user.email}</p>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-4">
+            <Calendar size={20} className="text-red-600 mt-1 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-1">{t("profile.memberSince")}</h3>
+              <p className="text-lg text-gray-900">{new Date(user.createdAt).toLocaleDateString(language)}</p>
+            </div>
+          </div>
+
+          <button
+            onClick={logout}
+            className="w-full bg-red-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-red-700 transition-colors"
+          >
+            {t("nav.logout")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
@@ -1,120 +1,35 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Eye, EyeOff, Mail, Lock, User, ArrowRight } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useTranslation } from '../hooks/useTranslation';
+import RichText from '../shared/components/RichText';
+import { useRedirectBack } from '../hooks/useRedirectBack';
+import { useForm } from '../hooks/useForm';
+import PasswordStrengthMeter from '../shared/components/PasswordStrengthMeter';
+import { EMPTY_REGISTRATION, registerSchema, registrationContext } from '../services/authForms';
 
 const Register: React.FC = () => {
-  const [formData, setFormData] = useState({
-    firstName: '',
-    lastName: '',
-    email: '',
-    password: '',
-    confirmPassword: ''
-  });
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [errors, setErrors] = useState<{ [key: string]: string }>({});
-  const [acceptTerms, setAcceptTerms] = useState(false);
   
   const navigate = useNavigate();
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-    // Clear error when user starts typing
-    if (errors[name]) {
-      setErrors(prev => ({ ...prev, [name]: '' }));
-    }
-  };
-
-  const validateForm = () => {
-    const newErrors: { [key: string]: string } = {};
-    
-    if (!formData.firstName.trim()) {
-      newErrors.firstName = 'First name is required';
-    }
-    
-    if (!formData.lastName.trim()) {
-      newErrors.lastName = 'Last name is required';
-    }
-    
-    if (!formData.email) {
-      newErrors.email = 'Email is required';
-    } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email';
-    }
-    
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    } else if (formData.password.length < 8) {
-      newErrors.password = 'Password must be at least 8 characters';
-    } else if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(formData.password)) {
-      newErrors.password = 'Password must contain uppercase, lowercase, and number';
-    }
-    
-    if (!formData.confirmPassword) {
-      newErrors.confirmPassword = 'Please confirm your password';
-    } else if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
-    }
-    
-    if (!acceptTerms) {
-      newErrors.terms = 'You must accept the terms and conditions';
-    }
-    
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) return;
-    
-    setIsLoading(true);
-    
-    try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock successful registration
-      console.log('Registration successful:', formData);
-      navigate('/login', { 
-        state: { message: 'Account created successfully! Please sign in.' }
+  const { register } = useAuth();
+  const { t } = useTranslation();
+  const { redirectTo, from } = useRedirectBack();
+
+  const form = useForm({
+    initialValues: EMPTY_REGISTRATION,
+    schema: registerSchema,
+    failureMessage: 'validation.registrationFailed',
+    onSubmit: async ({ firstName, lastName, email, password }) => {
+      await register({ firstName, lastName, email, password });
+      navigate(redirectTo, { 
+        replace: true,
+        state: { message: t('auth.register.success') }
       });
-    } catch (error) {
-      setErrors({ general: 'Registration failed. Please try again.' });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const getPasswordStrength = () => {
-    const password = formData.password;
-    let strength = 0;
-    
-    if (password.length >= 8) strength++;
-    if (/[a-z]/.test(password)) strength++;
-    if (/[A-Z]/.test(password)) strength++;
-    if (/\d/.test(password)) strength++;
-    if (/[^A-Za-z0-9]/.test(password)) strength++;
-    
-    return strength;
-  };
-
-  const getStrengthColor = () => {
-    const strength = getPasswordStrength();
-    if (strength <= 2) return 'bg-red-500';
-    if (strength <= 3) return 'bg-yellow-500';
-    return 'bg-green-500';
-  };
-
-  const getStrengthText = () => {
-    const strength = getPasswordStrength();
-    if (strength <= 2) return 'Weak';
-    if (strength <= 3) return 'Medium';
-    return 'Strong';
-  };
+    },
+  });
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center p-4">
@@ -124,25 +39,25 @@ const Register: React.FC = () => {
           <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-purple-600 to-blue-600 rounded-full mb-4">
             <User className="w-8 h-8 text-white" />
           </div>
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Create Account</h1>
-          <p className="text-gray-600">Join us and start your journey today</p>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('auth.register.title')}</h1>
+          <p className="text-gray-600">{t('auth.register.subtitle')}</p>
         </div>
 
         {/* Registration Form */}
         <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-          <form onSubmit={handleSubmit} className="space-y-6">
+          <form onSubmit={form.handleSubmit} noValidate className="space-y-6">
             {/* General Error */}
-            {errors.general && (
-              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
-                {errors.general}
+            {form.formError && (
+              <div role="alert" className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {form.formError}
               </div>
             )}
 
             {/* Name Fields */}
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-2">
-                  First Name
+                <label htmlFor={form.fieldId('firstName')} className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('auth.firstName')}
                 </label>
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -150,46 +65,40 @@ const Register: React.FC = () => {
                   </div>
                   <input
                     type="text"
-                    id="firstName"
-                    name="firstName"
-                    value={formData.firstName}
-                    onChange={handleInputChange}
+                    {...form.register('firstName')}
                     className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors ${
-                      errors.firstName ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                      form.error('firstName') ? 'border-red-300 bg-red-50' : 'border-gray-300'
                     }`}
                     placeholder="John"
                   />
                 </div>
-                {errors.firstName && (
-                  <p className="mt-1 text-sm text-red-600">{errors.firstName}</p>
+                {form.error('firstName') && (
+                  <p id={form.errorId('firstName')} className="mt-1 text-sm text-red-600">{form.error('firstName')}</p>
                 )}
               </div>
 
               <div>
-                <label htmlFor="lastName" className="block text-sm font-medium text-gray-700 mb-2">
-                  Last Name
+                <label htmlFor={form.fieldId('lastName')} className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('auth.lastName')}
                 </label>
                 <input
                   type="text"
-                  id="lastName"
-                  name="lastName"
-                  value={formData.lastName}
-                  onChange={handleInputChange}
+                  {...form.register('lastName')}
                   className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors ${
-                    errors.lastName ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                    form.error('lastName') ? 'border-red-300 bg-red-50' : 'border-gray-300'
                   }`}
                   placeholder="Doe"
                 />
-                {errors.lastName && (
-                  <p className="mt-1 text-sm text-red-600">{errors.lastName}</p>
+                {form.error('lastName') && (
+                  <p id={form.errorId('lastName')} className="mt-1 text-sm text-red-600">{form.error('lastName')}</p>
                 )}
               </div>
             </div>
 
             {/* Email Field */}
             <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
+              <label htmlFor={form.fieldId('email')} className="block text-sm font-medium text-gray-700 mb-2">
+                {t('auth.email')}
               </label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -197,25 +106,22 @@ const Register: React.FC = () => {
                 </div>
                 <input
                   type="email"
-                  id="email"
-                  name="email"
-                  value={formData.email}
-                  onChange={handleInputChange}
+                  {...form.register('email')}
                   className={`w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors ${
-                    errors.email ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                    form.error('email') ? 'border-red-300 bg-red-50' : 'border-gray-300'
                   }`}
                   placeholder="john@example.com"
                 />
               </div>
-              {errors.email && (
-                <p className="mt-1 text-sm text-red-600">{errors.email}</p>
+              {form.error('email') && (
+                <p id={form.errorId('email')} className="mt-1 text-sm text-red-600">{form.error('email')}</p>
               )}
             </div>
 
             {/* Password Field */}
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
+              <label htmlFor={form.fieldId('password')} className="block text-sm font-medium text-gray-700 mb-2">
+                {t('auth.password')}
               </label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -223,14 +129,11 @@ const Register: React.FC = () => {
                 </div>
                 <input
                   type={showPassword ? 'text' : 'password'}
-                  id="password"
-                  name="password"
-                  value={formData.password}
-                  onChange={handleInputChange}
+                  {...form.register('password')}
                   className={`w-full pl-10 pr-12 py-3 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors ${
-                    errors.password ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                    form.error('password') ? 'border-red-300 bg-red-50' : 'border-gray-300'
                   }`}
-                  placeholder="Create a strong password"
+                  placeholder={t('auth.createStrongPasswordPlaceholder')}
                 />
                 <button
                   type="button"
@@ -245,30 +148,19 @@ const Register: React.FC = () => {
                 </button>
               </div>
               
-              {/* Password Strength Indicator */}
-              {formData.password && (
-                <div className="mt-2">
-                  <div className="flex items-center space-x-2">
-                    <div className="flex-1 bg-gray-200 rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full transition-all duration-300 ${getStrengthColor()}`}
-                        style={{ width: `${(getPasswordStrength() / 5) * 100}%` }}
-                      ></div>
-                    </div>
-                    <span className="text-sm text-gray-600">{getStrengthText()}</span>
-                  </div>
-                </div>
+              {form.values.password && (
+                <PasswordStrengthMeter password={form.values.password} context={registrationContext(form.values)} />
               )}
               
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600">{errors.password}</p>
+              {form.error('password') && (
+                <p id={form.errorId('password')} className="mt-1 text-sm text-red-600">{form.error('password')}</p>
               )}
             </div>
 
             {/* Confirm Password Field */}
             <div>
-              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
-                Confirm Password
+              <label htmlFor={form.fieldId('confirmPassword')} className="block text-sm font-medium text-gray-700 mb-2">
+                {t('auth.confirmPassword')}
               </label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -276,14 +168,11 @@ const Register: React.FC = () => {
                 </div>
                 <input
                   type={showConfirmPassword ? 'text' : 'password'}
-                  id="confirmPassword"
-                  name="confirmPassword"
-                  value={formData.confirmPassword}
-                  onChange={handleInputChange}
+                  {...form.register('confirmPassword')}
                   className={`w-full pl-10 pr-12 py-3 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors ${
-                    errors.confirmPassword ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                    form.error('confirmPassword') ? 'border-red-300 bg-red-50' : 'border-gray-300'
                   }`}
-                  placeholder="Confirm your password"
+                  placeholder={t('auth.confirmPasswordPlaceholder')}
                 />
                 <button
                   type="button"
@@ -297,8 +186,8 @@ const Register: React.FC = () => {
                   )}
                 </button>
               </div>
-              {errors.confirmPassword && (
-                <p className="mt-1 text-sm text-red-600">{errors.confirmPassword}</p>
+              {form.error('confirmPassword') && (
+                <p id={form.errorId('confirmPassword')} className="mt-1 text-sm text-red-600">{form.error('confirmPassword')}</p>
               )}
             </div>
 
@@ -306,38 +195,43 @@ const Register: React.FC = () => {
             <div>
               <label className="flex items-start">
                 <input
-                  type="checkbox"
-                  checked={acceptTerms}
-                  onChange={(e) => setAcceptTerms(e.target.checked)}
+                  {...form.registerCheckbox('acceptTerms')}
                   className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded mt-1"
                 />
                 <span className="ml-3 text-sm text-gray-600">
-                  I agree to the{' '}
-                  <Link to="/terms" className="text-purple-600 hover:text-purple-500 font-medium">
-                    Terms of Service
-                  </Link>{' '}
-                  and{' '}
-                  <Link to="/privacy" className="text-purple-600 hover:text-purple-500 font-medium">
-                    Privacy Policy
-                  </Link>
+                  <RichText
+                    text={t('auth.terms')}
+                    components={{
+                      terms: (chunk) => (
+                        <Link to="/terms" className="text-purple-600 hover:text-purple-500 font-medium">
+                          {chunk}
+                        </Link>
+                      ),
+                      privacy: (chunk) => (
+                        <Link to="/privacy" className="text-purple-600 hover:text-purple-500 font-medium">
+                          {chunk}
+                        </Link>
+                      ),
+                    }}
+                  />
                 </span>
               </label>
-              {errors.terms && (
-                <p className="mt-1 text-sm text-red-600">{errors.terms}</p>
+              {form.error('acceptTerms') && (
+                <p id={form.errorId('acceptTerms')} className="mt-1 text-sm text-red-600">{form.error('acceptTerms')}</p>
               )}
             </div>
 
             {/* Submit Button */}
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={form.isSubmitting}
               className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
             >
-              {isLoading ? (
+              {form.isSubmitting ? (
                 <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
               ) : (
                 <>
-                  Create Account
+                  {t('auth.createAccount')}
                   <ArrowRight className="ml-2 h-5 w-5" />
                 </>
               )}
@@ -346,9 +240,9 @@ const Register: React.FC = () => {
 
           {/* Sign In Link */}
           <p className="mt-6 text-center text-sm text-gray-600">
-            Already have an account?{' '}
-            <Link to="/login" className="font-medium text-purple-600 hover:text-purple-500">
-              Sign in here
+            {t('auth.haveAccount')}{' '}
+            <Link to="/login" state={{ from }} className="font-medium text-purple-600 hover:text-purple-500">
+              {t('auth.signInHere')}
             </Link>
           </p>
         </div>
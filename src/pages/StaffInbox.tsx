@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { CheckCircle, Inbox, Mail, RotateCcw } from "lucide-react";
+import { useContactInbox } from "../hooks/useContactInbox";
+import { useToast } from "../hooks/useToast";
+import { useTranslation } from "../hooks/useTranslation";
+import type { ContactMessage } from "../lib/contact";
+
+type InboxFilter = "open" | "resolved" | "all";
+
+const FILTERS: InboxFilter[] = ["open", "resolved", "all"];
+
+const matchesFilter = (message: ContactMessage, filter: InboxFilter) =>
+  filter === "all" || (filter === "resolved") === (message.resolvedAt !== null);
+
+const StaffInbox = () => {
+  const { status, messages, reload, setResolved } = useContactInbox();
+  const { showToast } = useToast();
+  const { language, t } = useTranslation();
+  const [filter, setFilter] = useState<InboxFilter>("open");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const visible = messages.filter((message) => matchesFilter(message, filter));
+  const openCount = messages.filter((message) => message.resolvedAt === null).length;
+
+  const handleToggle = async (message: ContactMessage) => {
+    setUpdatingId(message.id);
+    try {
+      await setResolved(message.id, message.resolvedAt === null);
+    } catch {
+      showToast({ message: t("inbox.updateFailed"), variant: "error" });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">{t("inbox.title")}</h1>
+        <p className="text-gray-600 mb-8">{t("inbox.openCount", { count: openCount })}</p>
+
+        <div className="flex flex-wrap gap-2 mb-6" role="group" aria-label={t("inbox.filter")}>
+          {FILTERS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              aria-pressed={filter === option}
+              className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                filter === option ? "bg-red-600 text-white" : "bg-white text-gray-700 hover:bg-gray-100"
+              }`}
+            >
+              {t(`inbox.filter.${option}`)}
+            </button>
+          ))}
+        </div>
+
+        {status === "error" ? (
+          <div className="bg-white p-8 rounded-xl shadow-lg text-center" role="alert">
+            <p className="text-gray-600 mb-4">{t("inbox.loadFailed")}</p>
+            <button onClick={reload} className="text-red-600 hover:underline font-medium">
+              {t("inbox.retry")}
+            </button>
+          </div>
+        ) : status === "loading" && messages.length === 0 ? (
+          <p className="text-gray-600 text-center py-12" role="status">{t("inbox.loading")}</p>
+        ) : visible.length === 0 ? (
+          <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+            <Inbox size={48} className="mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600">{t("inbox.empty")}</p>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {visible.map((message) => (
+              <li
+                key={message.id}
+                className={`bg-white p-6 rounded-xl shadow-lg ${message.resolvedAt ? "opacity-75" : ""}`}
+              >
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-3">
+                  <div>
+                    <h2 className="font-semibold text-gray-900">{message.name}</h2>
+                    <a
+                      href={`mailto:${message.email}`}
+                      className="inline-flex items-center gap-1 text-sm text-red-600 hover:underline"
+                    >
+                      <Mail size={14} />
+                      {message.email}
+                    </a>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {new Date(message.createdAt).toLocaleString(language)}
+                  </p>
+                </div>
+
+                <p className="text-gray-700 whitespace-pre-line mb-4">{message.message}</p>
+
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <span className="text-sm text-gray-500">
+                    {message.resolvedAt
+                      ? t("inbox.resolvedAt", { date: new Date(message.resolvedAt).toLocaleString(language) })
+                      : t("inbox.awaitingReply")}
+                  </span>
+                  <button
+                    onClick={() => handleToggle(message)}
+                    disabled={updatingId === message.id}
+                    className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      message.resolvedAt
+                        ? "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        : "bg-green-600 text-white hover:bg-green-700"
+                    }`}
+                  >
+                    {message.resolvedAt ? <RotateCcw size={16} /> : <CheckCircle size={16} />}
+                    {message.resolvedAt ? t("inbox.reopen") : t("inbox.markResolved")}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StaffInbox;
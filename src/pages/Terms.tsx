@@ -0,0 +1,34 @@
+import { useTranslation } from "../hooks/useTranslation";
+
+const Terms = () => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <section>
+          <h1 className="text-4xl font-bold text-gray-900 mb-8 text-center">{t("terms.title")}</h1>
+
+          <div className="bg-white p-8 rounded-xl shadow-lg space-y-6 text-gray-700 leading-relaxed">
+            <div>
+              <h2 className="text-xl font-semibold mb-2 text-gray-900">{t("terms.orders.title")}</h2>
+              <p>{t("terms.orders.body")}</p>
+            </div>
+
+            <div>
+              <h2 className="text-xl font-semibold mb-2 text-gray-900">{t("terms.account.title")}</h2>
+              <p>{t("terms.account.body")}</p>
+            </div>
+
+            <div>
+              <h2 className="text-xl font-semibold mb-2 text-gray-900">{t("terms.freshness.title")}</h2>
+              <p>{t("terms.freshness.body")}</p>
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default Terms;
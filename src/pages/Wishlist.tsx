@@ -0,0 +1,109 @@
+import { Link } from "react-router-dom";
+import { Heart, ShoppingCart, Trash2 } from "lucide-react";
+import { useCart } from "../hooks/useCart";
+import { useProducts } from "../hooks/useProducts";
+import { useToast } from "../hooks/useToast";
+import { useTranslation } from "../hooks/useTranslation";
+import { useWishlist } from "../hooks/useWishlist";
+import { formatMoney } from "../lib/currency";
+import { stockLevel } from "../lib/stock";
+import type { Product } from "../data/products";
+import ResponsiveImage from "../shared/components/ResponsiveImage";
+
+const Wishlist = () => {
+  const { status, products, reload } = useProducts();
+  const { entries, remove } = useWishlist();
+  const { addItem } = useCart();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+
+  // Archived desserts drop out of the catalog but stay saved, so they come
+  // back here if the shop brings them back
+  const saved = entries.flatMap((entry) => products.filter((product) => product.id === entry.productId));
+
+  const handleMoveToCart = (product: Product) => {
+    addItem(product);
+    remove(product.id);
+    showToast({ message: t("wishlist.moved", { name: product.name }), variant: "success" });
+  };
+
+  let content;
+  if (status === "error") {
+    content = (
+      <div className="bg-white p-8 rounded-xl shadow-lg text-center" role="alert">
+        <p className="text-gray-600 mb-4">{t("wishlist.loadFailed")}</p>
+        <button onClick={reload} className="text-red-600 hover:underline font-medium">
+          {t("wishlist.retry")}
+        </button>
+      </div>
+    );
+  } else if (status === "loading" && entries.length > 0) {
+    content = <p className="text-gray-600 text-center py-12" role="status">{t("wishlist.loading")}</p>;
+  } else if (saved.length === 0) {
+    content = (
+      <div className="bg-white p-8 rounded-xl shadow-lg text-center">
+        <Heart size={48} className="mx-auto mb-4 text-gray-400" />
+        <p className="text-gray-600 mb-6">{t("wishlist.empty")}</p>
+        <Link
+          to="/"
+          className="inline-block bg-red-600 text-white py-3 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors"
+        >
+          {t("wishlist.browse")}
+        </Link>
+      </div>
+    );
+  } else {
+    content = (
+      <ul className="space-y-4">
+        {saved.map((product) => {
+          const soldOut = stockLevel(product.stock) === "sold-out";
+
+          return (
+            <li key={product.id} className="flex flex-wrap items-center gap-4 bg-white p-4 rounded-xl shadow-lg">
+              <Link to={`/products/${product.id}`} className="shrink-0">
+                <ResponsiveImage image={product.image} alt={product.name} className="w-20 h-20 rounded-lg object-cover" />
+              </Link>
+              <div className="flex-1 min-w-40">
+                <p className="text-gray-500 text-xs uppercase tracking-wide font-medium">{product.category}</p>
+                <h2 className="font-semibold text-gray-900">
+                  <Link to={`/products/${product.id}`} className="hover:text-red-600 transition-colors">
+                    {product.name}
+                  </Link>
+                </h2>
+                <p className="font-extrabold text-red-600">{formatMoney(product.price)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleMoveToCart(product)}
+                  disabled={soldOut}
+                  className="inline-flex items-center gap-2 bg-red-600 text-white py-2 px-4 rounded-full font-semibold hover:bg-red-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  <ShoppingCart size={16} />
+                  {soldOut ? t("product.soldOut") : t("wishlist.moveToCart")}
+                </button>
+                <button
+                  onClick={() => remove(product.id)}
+                  aria-label={t("wishlist.remove", { name: product.name })}
+                  className="p-2 text-gray-500 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-orange-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-4xl font-bold text-gray-900 mb-8">{t("wishlist.title")}</h1>
+        {content}
+      </div>
+    </div>
+  );
+};
+
+export default Wishlist;
@@ -0,0 +1,72 @@
+import { isEmailRegistered } from './userStore';
+import { evaluatePassword } from '../lib/passwordPolicy';
+import { email, matchesField, required, type FormSchema, type Rule } from '../lib/validation';
+
+// The login forms and the registration forms each share one schema so the
+// page and modal versions can't drift apart again
+
+export interface LoginValues {
+  email: string;
+  password: string;
+}
+
+export const EMPTY_LOGIN: LoginValues = { email: '', password: '' };
+
+// Signing in only checks that something was entered; strength rules apply at sign-up
+export const loginSchema: FormSchema<LoginValues> = {
+  email: { rules: [required('validation.emailRequired'), email()] },
+  password: { rules: [required('validation.passwordRequired')] },
+};
+
+export interface RegisterValues {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+  acceptTerms: boolean;
+}
+
+export const EMPTY_REGISTRATION: RegisterValues = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  password: '',
+  confirmPassword: '',
+  acceptTerms: false,
+};
+
+// Personal details make a password easy to guess for anyone who knows the customer
+export const registrationContext = ({ firstName, lastName, email }: RegisterValues) => [firstName, lastName, email];
+
+const meetsPasswordPolicy: Rule<string, RegisterValues> = (value, values) => {
+  const problem = evaluatePassword(value, registrationContext(values)).feedback.find((item) => item.blocking);
+  return problem ? { key: problem.key, params: problem.params } : null;
+};
+
+export const registerSchema: FormSchema<RegisterValues> = {
+  firstName: { rules: [required('validation.firstNameRequired')] },
+  lastName: { rules: [required('validation.lastNameRequired')] },
+  email: {
+    rules: [required('validation.emailRequired'), email()],
+    asyncRules: [async (value) => ((await isEmailRegistered(value)) ? { key: 'validation.emailTaken' } : null)],
+  },
+  password: {
+    rules: [required('validation.passwordRequired'), meetsPasswordPolicy],
+  },
+  confirmPassword: {
+    rules: [
+      required('validation.confirmPasswordRequired'),
+      matchesField<RegisterValues>('password', 'validation.passwordMismatch'),
+    ],
+  },
+  acceptTerms: { rules: [required('validation.termsRequired')] },
+};
+
+export interface PasswordResetValues {
+  email: string;
+}
+
+export const passwordResetSchema: FormSchema<PasswordResetValues> = {
+  email: { rules: [required('validation.emailRequired'), email()] },
+};
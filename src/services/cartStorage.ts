@@ -0,0 +1,145 @@
+import { buildCartState, type CartItem, type CartState } from '../context/cart';
+import { products } from '../data/products';
+import { withDietaryInfo } from '../lib/dietary';
+import { storageKey } from '../lib/storage';
+import { isMoney } from '../lib/money';
+
+export const CART_STORAGE_KEY = storageKey('cart');
+export const CART_SCHEMA_VERSION = 5;
+
+type StoredCart = Record<string, unknown> & { version: number };
+
+// Each migration upgrades a payload from version `n` to `n + 1`
+const migrations: Record<number, (data: StoredCart) => StoredCart> = {
+  // v0: early builds stored the whole CartState without a version field
+  0: (data) => ({ version: 1, items: data.items }),
+  // v1 -> v2: promo codes are stored alongside the items
+  1: (data) => ({ ...data, version: 2, promoCodes: [] }),
+  // v2 -> v3: prices move from floating-point dollars to integer cents
+  2: (data) => ({
+    ...data,
+    version: 3,
+    items: Array.isArray(data.items)
+      ? data.items.map((item) =>
+          isRecord(item) && typeof item.price === 'number'
+            ? { ...item, price: Math.round(item.price * 100) }
+            : item
+        )
+      : data.items,
+  }),
+  // v3 -> v4: lines carry the product's stock level; checkout refreshes it
+  3: (data) => ({
+    ...data,
+    version: 4,
+    items: Array.isArray(data.items)
+      ? data.items.map((item) =>
+          isRecord(item) ? { ...item, stock: products.find((product) => product.id === item.id)?.stock ?? 0 } : item
+        )
+      : data.items,
+  }),
+  // v4 -> v5: lines carry ingredients, allergens and dietary tags
+  4: (data) => ({
+    ...data,
+    version: 5,
+    items: Array.isArray(data.items)
+      ? data.items.map((item) =>
+          isRecord(item) && typeof item.id === 'number' ? withDietaryInfo({ ...item, id: item.id }, products) : item
+        )
+      : data.items,
+  }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCartItem(value: unknown): value is CartItem {
+  if (!isRecord(value) || !isRecord(value.image)) return false;
+
+  return (
+    typeof value.id === 'number' &&
+    typeof value.name === 'string' &&
+    typeof value.category === 'string' &&
+    isMoney(value.price) && value.price >= 0 &&
+    typeof value.stock === 'number' && Number.isInteger(value.stock) &&
+    (Array.isArray(value.allergens) || value.allergens === null) &&
+    Array.isArray(value.dietary) && Array.isArray(value.ingredients) &&
+    typeof value.quantity === 'number' && Number.isInteger(value.quantity) && value.quantity > 0
+  );
+}
+
+function migrate(data: Record<string, unknown>): StoredCart | null {
+  let stored: StoredCart = {
+    ...data,
+    version: typeof data.version === 'number' ? data.version : 0,
+  };
+
+  // A newer build wrote this - we can't know its shape, so don't guess
+  if (stored.version > CART_SCHEMA_VERSION) return null;
+
+  while (stored.version < CART_SCHEMA_VERSION) {
+    const upgrade = migrations[stored.version];
+    if (!upgrade) return null;
+    stored = upgrade(stored);
+  }
+
+  return stored;
+}
+
+// Turns whatever is in storage into a valid CartState. Anything unreadable
+// becomes an empty cart and malformed lines are dropped rather than failing
+// the whole cart; totals are always recomputed from the surviving items.
+export function parseCart(raw: string | null): CartState {
+  if (raw === null) return buildCartState([]);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return buildCartState([]);
+  }
+
+  const stored = isRecord(data) ? migrate(data) : null;
+  const items = stored && Array.isArray(stored.items) ? stored.items.filter(isCartItem) : [];
+  const promoCodes = stored && Array.isArray(stored.promoCodes)
+    ? stored.promoCodes.filter((code): code is string => typeof code === 'string')
+    : [];
+
+  return buildCartState(items, promoCodes);
+}
+
+// Corrupt payloads are overwritten with a clean one on the provider's first
+// save; carts from a newer build are left alone (see `saveCart`)
+export function loadCart(): CartState {
+  try {
+    return parseCart(localStorage.getItem(CART_STORAGE_KEY));
+  } catch {
+    return buildCartState([]);
+  }
+}
+
+// True when a newer build wrote `raw`; this build reads that as an empty cart
+// but must not write over it, or going back to the newer build loses the cart
+function isFromNewerVersion(raw: string | null) {
+  if (raw === null) return false;
+  try {
+    const data: unknown = JSON.parse(raw);
+    return isRecord(data) && typeof data.version === 'number' && data.version > CART_SCHEMA_VERSION;
+  } catch {
+    return false;
+  }
+}
+
+export function saveCart({ items, promoCodes }: CartState) {
+  const raw = JSON.stringify({ version: CART_SCHEMA_VERSION, items, promoCodes });
+
+  try {
+    const current = localStorage.getItem(CART_STORAGE_KEY);
+    // Skipping identical writes keeps a hydrated tab from echoing the change back
+    if (current !== raw && !isFromNewerVersion(current)) {
+      localStorage.setItem(CART_STORAGE_KEY, raw);
+    }
+  } catch {
+    // Storage unavailable - the cart still works for this session
+  }
+}
@@ -0,0 +1,50 @@
+import type { CheckoutDetails } from '../lib/checkout';
+import { TranslatableError } from '../lib/errors';
+import type { Money } from '../lib/money';
+import { waitForSettlement, type Payment } from './paymentProvider';
+import { paymentProviders } from './paymentSimulators';
+
+export type OnlinePaymentMethod = keyof typeof paymentProviders;
+
+export function isOnlinePayment(method: string | null): method is OnlinePaymentMethod {
+  return method !== null && method in paymentProviders;
+}
+
+export function providerFor(payment: Payment) {
+  if (!isOnlinePayment(payment.provider)) {
+    throw new Error(`No payment provider named ${payment.provider}`);
+  }
+  return paymentProviders[payment.provider];
+}
+
+// Authorizes the checkout total with the chosen provider and waits out any
+// pending approval. The result is `authorized` or `failed`; capturing is left
+// to the caller so it can still back out (via `fail`) before the order exists.
+export async function authorizeCheckout(
+  method: OnlinePaymentMethod,
+  details: CheckoutDetails,
+  amount: Money,
+  onPending?: (payment: Payment) => void
+) {
+  const payment =
+    method === 'card'
+      ? await paymentProviders.card.authorize(amount, details.card)
+      : await paymentProviders['mobile-money'].authorize(amount, { phone: details.mobileMoneyPhone });
+
+  if (payment.status === 'pending') onPending?.(payment);
+  return waitForSettlement(providerFor(payment), payment);
+}
+
+// Gives captured money back; a payment that never got that far has nothing to
+// return. Payments the provider has no record of (e.g. taken in a browser
+// whose storage has since been cleared) are refused before anything changes.
+export async function refundPayment(payment: Payment) {
+  if (payment.status !== 'captured') return payment;
+
+  const provider = providerFor(payment);
+  const recorded = await provider.getPayment(payment.id).catch(() => null);
+  if (!recorded) {
+    throw new TranslatableError('admin.orders.paymentMissing', `Unknown payment ${payment.id}`, { id: payment.id });
+  }
+  return provider.refund(payment.id);
+}
@@ -0,0 +1,56 @@
+import type { ContactMessage, ContactRejection, ContactSubmission } from '../lib/contact';
+
+const BASE_URL = '/api/contact';
+
+export type SendResult = { ok: true; id: string } | ({ ok: false } & ContactRejection);
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    ...init,
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...init.headers },
+  });
+  if (!response.ok) {
+    throw new Error(`Contact request failed (${response.status})`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// Fetched when the form is shown; the server uses it to tell how long filling in took
+export async function requestFormToken() {
+  const { formToken } = await request<{ formToken: string }>('/token');
+  return formToken;
+}
+
+// Spam and validation rejections come back as results for the form to explain;
+// only network and server failures throw
+export async function sendContactMessage(submission: ContactSubmission): Promise<SendResult> {
+  const response = await fetch(BASE_URL, {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission),
+  });
+
+  if (response.ok) {
+    const { id } = (await response.json()) as { id: string };
+    return { ok: true, id };
+  }
+  if (response.status === 400 || response.status === 429) {
+    return { ok: false, ...((await response.json()) as ContactRejection) };
+  }
+  throw new Error(`Failed to send message (${response.status})`);
+}
+
+// The inbox endpoints only answer staff accounts
+const asStaff = (staffEmail: string) => ({ 'X-Staff-Email': staffEmail });
+
+export function listContactMessages(staffEmail: string) {
+  return request<ContactMessage[]>('/messages', { headers: asStaff(staffEmail) });
+}
+
+export function setMessageResolved(staffEmail: string, id: string, resolved: boolean) {
+  return request<ContactMessage>(`/messages/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: asStaff(staffEmail),
+    body: JSON.stringify({ resolved }),
+  });
+}
@@ -0,0 +1,47 @@
+import type { Product } from '../data/products';
+import { readJSON, storageKey, writeJSON } from '../lib/storage';
+
+const INVENTORY_KEY = storageKey('inventory');
+
+interface StoredInventory {
+  // Local calendar day the counts belong to, YYYY-MM-DD
+  date: string;
+  sold: Record<string, number>;
+}
+
+export interface SoldLine {
+  id: number;
+  quantity: number;
+}
+
+function dayOf(now: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// Desserts are baked fresh each morning, so yesterday's sales no longer count
+function loadSold(now: Date): Record<string, number> {
+  const stored = readJSON<StoredInventory | null>(INVENTORY_KEY, null);
+  return stored?.date === dayOf(now) ? stored.sold : {};
+}
+
+function adjustSold(lines: readonly SoldLine[], direction: 1 | -1, now: Date) {
+  const sold = { ...loadSold(now) };
+  for (const { id, quantity } of lines) {
+    sold[id] = Math.max(0, (sold[id] ?? 0) + quantity * direction);
+  }
+  writeJSON<StoredInventory>(INVENTORY_KEY, { date: dayOf(now), sold });
+}
+
+export function availableStock(product: Product, now = new Date()) {
+  return Math.max(0, product.stock - (loadSold(now)[product.id] ?? 0));
+}
+
+export function recordSale(lines: readonly SoldLine[], now = new Date()) {
+  adjustSold(lines, 1, now);
+}
+
+// Puts stock back when an order falls through after it was recorded
+export function releaseSale(lines: readonly SoldLine[], now = new Date()) {
+  adjustSold(lines, -1, now);
+}
@@ -0,0 +1,46 @@
+import { TranslatableError } from '../lib/errors';
+import type { Order } from './orderStore';
+
+const BASE_URL = '/api/orders';
+
+// How a browser is hearing about status changes: "off" when it isn't
+export type FeedConnection = 'off' | 'connecting' | 'live' | 'polling';
+
+// The dev server runs the event server; production builds are static files
+// with nothing to connect to unless VITE_ORDER_EVENTS says otherwise
+export const liveOrderUpdatesEnabled =
+  (import.meta.env.VITE_ORDER_EVENTS ?? (import.meta.env.DEV ? 'on' : 'off')) === 'on';
+
+const watching = (orderIds: readonly string[]) => `ids=${orderIds.map(encodeURIComponent).join(',')}`;
+
+export function orderEventsUrl(orderIds: readonly string[]) {
+  return `${BASE_URL}/events?${watching(orderIds)}`;
+}
+
+// For when the event stream can't be kept open
+export async function fetchOrderStatuses(orderIds: readonly string[]) {
+  const response = await fetch(`${BASE_URL}/status?${watching(orderIds)}`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new Error(`Order status request failed (${response.status})`);
+  }
+  // Checked update by update by the caller
+  return response.json() as Promise<unknown>;
+}
+
+// Staff tell the event server where an order has got to so it can pass it on
+export async function publishOrderStatus(staffEmail: string, order: Order) {
+  const response = await fetch(`${BASE_URL}/${encodeURIComponent(order.id)}/status`, {
+    method: 'PUT',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json', 'X-Staff-Email': staffEmail },
+    body: JSON.stringify({ history: order.history }),
+  });
+  if (!response.ok) {
+    throw new TranslatableError(
+      'admin.orders.notifyFailed',
+      `Order ${order.id} was updated, but customers weren't notified (${response.status})`,
+      { id: order.id }
+    );
+  }
+}
@@ -0,0 +1,343 @@
+import type { CartState } from '../context/cart';
+import { findPromotion } from '../data/promotions';
+import type { Address, ContactDetails, PaymentMethod } from '../lib/checkout';
+import { baseCurrencyConfig, formatMoney } from '../lib/currency';
+import { lineTotal, type Promotion } from '../lib/discounts';
+import type { Fulfilment } from '../lib/fulfilment';
+import { ZERO, isMoney, money, type Money } from '../lib/money';
+import { extendsHistory, isValidHistory, recordTransition, type OrderStatus, type StatusChange } from '../lib/orderStatus';
+import type { PriceBreakdown } from '../lib/pricing';
+import type { Payment } from './paymentProvider';
+import { readJSON, storageKey, writeJSON } from '../lib/storage';
+
+export interface OrderItem {
+  readonly productId: number;
+  readonly name: string;
+  readonly category: string;
+  readonly thumbnail: string;
+  readonly unitPrice: Money;
+  readonly quantity: number;
+  readonly lineTotal: Money;
+}
+
+export interface OrderDetails {
+  readonly contact: ContactDetails;
+  readonly fulfilment: Fulfilment;
+  // Only delivery orders carry an address
+  readonly address: Address | null;
+  readonly slot: string;
+  readonly paymentMethod: PaymentMethod;
+}
+
+export interface Order {
+  readonly id: string;
+  readonly userId: string | null;
+  readonly createdAt: string;
+  readonly items: readonly OrderItem[];
+  readonly itemCount: number;
+  readonly pricing: Readonly<PriceBreakdown>;
+  // Null for orders placed before checkout collected these details
+  readonly details: OrderDetails | null;
+  // Null when paying in cash at the door or counter
+  readonly payment: Payment | null;
+  // Every status the order has been through, oldest first; the last is current
+  readonly history: readonly StatusChange[];
+}
+
+export const ORDERS_STORAGE_KEY = storageKey('orders');
+const ORDERS_SCHEMA_VERSION = 7;
+
+type StoredOrder = Record<string, unknown>;
+
+interface StoredOrders {
+  version: number;
+  orders: unknown[];
+}
+
+// Orders from unreadable payloads are moved here before anything new is saved
+const UNREADABLE_ORDERS_KEY = storageKey('orders:unreadable');
+
+const toMinor = (amount: unknown) => money(Math.round(Number(amount ?? 0) * 100));
+
+// The English wording v6 orders stored for a discount, amounts in US dollars
+function describeLegacy({ rule, minSpend }: Promotion) {
+  const spend = minSpend ? ` on orders over ${formatMoney(minSpend, baseCurrencyConfig)}` : '';
+
+  switch (rule.kind) {
+    case 'percent':
+      return `${rule.percent}% off your order${spend}`;
+    case 'fixed':
+      return `${formatMoney(rule.amount, baseCurrencyConfig)} off${spend}`;
+    case 'category-percent':
+      return `${rule.percent}% off ${rule.category}${spend}`;
+    case 'buy-x-get-y':
+      return `Buy ${rule.buy} ${rule.category}, get ${rule.get} free${spend}`;
+  }
+}
+
+// Each migration upgrades one stored order from version `n` to `n + 1`
+const migrations: Record<number, (order: StoredOrder) => StoredOrder> = {
+  // v1 (bare array): prices were floating-point dollars
+  1: (order) => {
+    const items = order.items as Record<string, unknown>[];
+    const discounts = (order.discounts ?? []) as Record<string, unknown>[];
+    const totals = order.totals as Record<string, unknown>;
+
+    return {
+      ...order,
+      items: items.map((item) => ({
+        ...item,
+        unitPrice: toMinor(item.unitPrice),
+        lineTotal: toMinor(item.lineTotal),
+      })),
+      discounts: discounts.map((discount) => ({ ...discount, amount: toMinor(discount.amount) })),
+      totals: {
+        subtotal: toMinor(totals.subtotal),
+        discount: toMinor(totals.discount),
+        total: toMinor(totals.total),
+      },
+    };
+  },
+  // v2 -> v3: discounts and totals fold into a full price breakdown
+  2: ({ discounts, totals, ...order }) => {
+    const { subtotal, discount, total } = totals as Record<string, Money>;
+
+    return {
+      ...order,
+      pricing: {
+        subtotal,
+        discounts,
+        discountTotal: discount,
+        taxes: [],
+        taxTotal: ZERO,
+        deliveryFee: ZERO,
+        amountToFreeDelivery: null,
+        total,
+      },
+    };
+  },
+  // v3 -> v4: checkout details are recorded with the order
+  3: (order) => ({ ...order, details: null }),
+  // v4 -> v5: online payments are recorded with the order
+  4: (order) => ({ ...order, payment: null }),
+  // v5 -> v6: orders track their status; older ones only know they were placed
+  5: (order) => ({ ...order, history: [{ status: 'placed', at: order.createdAt }] }),
+  // v6 -> v7: discounts keep their rule instead of an English description.
+  // The current promotion is only trusted when it still reads exactly as the
+  // description did; otherwise the stored text is all we know about the deal.
+  6: (order) => {
+    const pricing = order.pricing as Record<string, unknown>;
+    const discounts = pricing.discounts as Record<string, unknown>[];
+
+    return {
+      ...order,
+      pricing: {
+        ...pricing,
+        discounts: discounts.map(({ code, amount, description }) => {
+          const promotion = findPromotion(String(code));
+          if (promotion && describeLegacy(promotion) === description) {
+            return { code, amount, rule: promotion.rule, minSpend: promotion.minSpend ?? null };
+          }
+          return {
+            code,
+            amount,
+            rule: null,
+            minSpend: null,
+            ...(typeof description === 'string' && { legacyDescription: description }),
+          };
+        }),
+      },
+    };
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOrderItem(value: unknown): value is OrderItem {
+  return (
+    isRecord(value) &&
+    Number.isInteger(value.productId) &&
+    typeof value.name === 'string' &&
+    typeof value.category === 'string' &&
+    typeof value.thumbnail === 'string' &&
+    isMoney(value.unitPrice) &&
+    typeof value.quantity === 'number' && Number.isInteger(value.quantity) && value.quantity > 0 &&
+    isMoney(value.lineTotal)
+  );
+}
+
+function isPriceBreakdown(value: unknown): value is PriceBreakdown {
+  return (
+    isRecord(value) &&
+    [value.subtotal, value.discountTotal, value.taxTotal, value.deliveryFee, value.total].every(isMoney) &&
+    (value.amountToFreeDelivery === null || isMoney(value.amountToFreeDelivery)) &&
+    Array.isArray(value.discounts) &&
+    value.discounts.every((discount) => isRecord(discount) && typeof discount.code === 'string' && isMoney(discount.amount)) &&
+    Array.isArray(value.taxes)
+  );
+}
+
+function isPayment(value: unknown): value is Payment {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.provider === 'string' &&
+    typeof value.status === 'string' &&
+    isMoney(value.amount)
+  );
+}
+
+function isOrderDetails(value: unknown): value is OrderDetails {
+  return (
+    isRecord(value) &&
+    isRecord(value.contact) &&
+    (value.fulfilment === 'delivery' || value.fulfilment === 'pickup') &&
+    (value.address === null || isRecord(value.address)) &&
+    typeof value.slot === 'string' &&
+    typeof value.paymentMethod === 'string'
+  );
+}
+
+function isOrder(value: unknown): value is Order {
+  if (!isRecord(value)) return false;
+  const details = value.details === null || isOrderDetails(value.details) ? value.details : undefined;
+
+  return (
+    typeof value.id === 'string' &&
+    (value.userId === null || typeof value.userId === 'string') &&
+    typeof value.createdAt === 'string' &&
+    Array.isArray(value.items) && value.items.every(isOrderItem) &&
+    Number.isInteger(value.itemCount) &&
+    isPriceBreakdown(value.pricing) &&
+    details !== undefined &&
+    (value.payment === null || isPayment(value.payment)) &&
+    isValidHistory(value.history, details?.fulfilment ?? null)
+  );
+}
+
+// Brings one stored order up to date; null when it can't be read, e.g. a
+// legacy amount that isn't a number
+function migrate(order: unknown, fromVersion: number): Order | null {
+  if (!isRecord(order)) return null;
+  try {
+    let migrated: StoredOrder = order;
+    for (let version = fromVersion; version < ORDERS_SCHEMA_VERSION; version++) {
+      migrated = migrations[version](migrated);
+    }
+    return isOrder(migrated) ? migrated : null;
+  } catch {
+    return null;
+  }
+}
+
+// The orders in storage and whether they can safely be written over: a
+// payload from a newer build can't, and one we can't make sense of at all is
+// set aside first (see `saveOrders`)
+function readStoredOrders(): { orders: unknown[]; version: number } | null {
+  const stored = readJSON<unknown>(ORDERS_STORAGE_KEY, []);
+  if (Array.isArray(stored)) return { orders: stored, version: 1 };
+  if (isRecord(stored) && Array.isArray(stored.orders) && typeof stored.version === 'number' && stored.version >= 1) {
+    return { orders: stored.orders, version: stored.version };
+  }
+  return null;
+}
+
+function deepFreeze<T>(value: T): T {
+  if (typeof value === 'object' && value !== null && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+function generateOrderId() {
+  return `ORD-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+}
+
+// Malformed orders are dropped one by one rather than losing the whole history
+export function loadOrders(): readonly Order[] {
+  const stored = readStoredOrders();
+  if (!stored || stored.version > ORDERS_SCHEMA_VERSION) return deepFreeze([]);
+
+  return deepFreeze(
+    stored.orders.flatMap((order) => {
+      const migrated = migrate(order, stored.version);
+      return migrated ? [migrated] : [];
+    })
+  );
+}
+
+// Snapshots each line's price and the full breakdown at the time of ordering,
+// so later catalog or pricing changes never rewrite what the customer paid
+export function createOrder(
+  cart: CartState,
+  userId: string | null,
+  details: OrderDetails,
+  payment: Payment | null = null
+): Order {
+  const orderItems: OrderItem[] = cart.items.map((item) => ({
+    productId: item.id,
+    name: item.name,
+    category: item.category,
+    thumbnail: item.image.thumbnail,
+    unitPrice: item.price,
+    quantity: item.quantity,
+    lineTotal: lineTotal(item),
+  }));
+
+  const createdAt = new Date().toISOString();
+
+  return deepFreeze({
+    id: generateOrderId(),
+    userId,
+    createdAt,
+    items: orderItems,
+    itemCount: cart.itemCount,
+    pricing: structuredClone(cart.pricing),
+    details: structuredClone(details),
+    payment: payment && { ...payment },
+    history: [{ status: 'placed', at: createdAt }],
+  });
+}
+
+// A copy of the order moved on to `status`; throws if the order can't go
+// there from where it is. `payment` replaces the recorded payment, e.g.
+// once it has been refunded.
+export function withStatus(order: Order, status: OrderStatus, payment = order.payment, now = new Date()): Order {
+  return deepFreeze({
+    ...order,
+    payment: payment && { ...payment },
+    history: recordTransition(order.history, status, order.details?.fulfilment ?? null, now),
+  });
+}
+
+// A copy of the order caught up with progress reported elsewhere, e.g. by
+// the order event server; null when `history` doesn't carry on from the
+// order's own or takes a route its fulfilment can't, like a pickup order
+// going out for delivery
+export function withHistory(order: Order, history: readonly StatusChange[]): Order | null {
+  if (!extendsHistory(order.history, history)) return null;
+  if (!isValidHistory(history, order.details?.fulfilment ?? null)) return null;
+  return deepFreeze({ ...order, history: structuredClone(history) });
+}
+
+// Orders saved by a newer build are never written over; going back to that
+// build would lose them. An unreadable payload is kept aside before the
+// first save replaces it.
+export function saveOrders(orders: readonly Order[]) {
+  const stored = readStoredOrders();
+  if (stored && stored.version > ORDERS_SCHEMA_VERSION) return;
+
+  if (!stored) {
+    try {
+      const raw = localStorage.getItem(ORDERS_STORAGE_KEY);
+      if (raw !== null) localStorage.setItem(UNREADABLE_ORDERS_KEY, raw);
+    } catch {
+      // Storage unavailable - nothing to keep aside, and the save below fails too
+    }
+  }
+
+  writeJSON<StoredOrders>(ORDERS_STORAGE_KEY, { version: ORDERS_SCHEMA_VERSION, orders: [...orders] });
+}
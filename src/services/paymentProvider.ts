@@ -0,0 +1,121 @@
+import type { Money } from '../lib/money';
+import { readJSON, storageKey, writeJSON } from '../lib/storage';
+
+export type PaymentStatus = 'pending' | 'authorized' | 'captured' | 'failed' | 'refunded';
+
+export type PaymentFailureReason =
+  | 'declined'
+  | 'insufficient-funds'
+  | 'expired-card'
+  | 'invalid-details'
+  | 'timeout'
+  | 'cancelled';
+
+export interface Payment {
+  readonly id: string;
+  readonly provider: string;
+  readonly amount: Money;
+  readonly status: PaymentStatus;
+  // Safe to show and store: a masked card number or the paying phone number
+  readonly reference: string;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+  readonly failureReason?: PaymentFailureReason;
+}
+
+// Every provider follows the same lifecycle: `authorize` reserves the money
+// (immediately, or via `pending` while the customer approves elsewhere),
+// `capture` takes it once the order is accepted, `fail` releases an
+// authorization that won't be used, and `refund` returns captured money
+export interface PaymentProvider<TDetails> {
+  readonly id: string;
+  authorize(amount: Money, details: TDetails): Promise<Payment>;
+  // Latest state of a payment; providers with a pending step are polled through this
+  getPayment(paymentId: string): Promise<Payment>;
+  capture(paymentId: string): Promise<Payment>;
+  fail(paymentId: string, reason?: PaymentFailureReason): Promise<Payment>;
+  refund(paymentId: string): Promise<Payment>;
+}
+
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['authorized', 'failed'],
+  authorized: ['captured', 'failed'],
+  captured: ['refunded'],
+  failed: [],
+  refunded: [],
+};
+
+// Payment records shared by the simulators; rejects any transition a real
+// gateway would refuse, e.g. refunding an uncaptured payment. Records are kept
+// in storage, like a gateway's would be, so a payment taken before a reload or
+// in another tab can still be refunded.
+export function createPaymentLedger(provider: string, storage: Storage = localStorage) {
+  const key = storageKey(`payments:${provider}`);
+  const load = () => readJSON<Record<string, Payment>>(key, {}, storage) ?? {};
+  const save = (payment: Payment) => writeJSON(key, { ...load(), [payment.id]: payment }, storage);
+
+  const get = (paymentId: string) => {
+    const payment: Payment | undefined = load()[paymentId];
+    if (!payment) {
+      throw new Error(`Unknown payment ${paymentId}`);
+    }
+    return payment;
+  };
+
+  const create = (
+    amount: Money,
+    reference: string,
+    status: PaymentStatus,
+    failureReason?: PaymentFailureReason
+  ) => {
+    const now = new Date().toISOString();
+    const payment: Payment = {
+      id: `PAY-${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+      provider,
+      amount,
+      status,
+      reference,
+      createdAt: now,
+      updatedAt: now,
+      ...(failureReason && { failureReason }),
+    };
+    save(payment);
+    return payment;
+  };
+
+  const transition = (paymentId: string, status: PaymentStatus, failureReason?: PaymentFailureReason) => {
+    const payment = get(paymentId);
+    if (!TRANSITIONS[payment.status].includes(status)) {
+      throw new Error(`Cannot mark a ${payment.status} payment as ${status}`);
+    }
+
+    const updated: Payment = {
+      ...payment,
+      status,
+      updatedAt: new Date().toISOString(),
+      ...(failureReason && { failureReason }),
+    };
+    save(updated);
+    return updated;
+  };
+
+  return { get, create, transition };
+}
+
+export function delay(ms = 600) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Polls a pending payment until the provider settles it one way or the other
+export async function waitForSettlement(
+  provider: Pick<PaymentProvider<unknown>, 'getPayment'>,
+  payment: Payment,
+  interval = 1000
+) {
+  let current = payment;
+  while (current.status === 'pending') {
+    await delay(interval);
+    current = await provider.getPayment(current.id);
+  }
+  return current;
+}
@@ -0,0 +1,155 @@
+import {
+  isExpired,
+  luhnCheck,
+  maskCardNumber,
+  normalizeCardNumber,
+  parseExpiry,
+  type CardDetails,
+} from '../lib/cards';
+import { isValidPhone } from '../lib/checkout';
+import type { Money } from '../lib/money';
+import {
+  createPaymentLedger,
+  delay,
+  type PaymentFailureReason,
+  type PaymentProvider,
+} from './paymentProvider';
+
+export interface MobileMoneyDetails {
+  phone: string;
+}
+
+// Any other Luhn-valid number with a future expiry is approved
+export const TEST_CARDS: Record<string, PaymentFailureReason | null> = {
+  '4242424242424242': null,
+  '4000000000000002': 'declined',
+  '4000000000009995': 'insufficient-funds',
+  '4000000000000069': 'expired-card',
+};
+
+// Any other valid number is approved once the customer "confirms" on their phone
+export const TEST_MOBILE_NUMBERS: Record<string, PaymentFailureReason> = {
+  '0780000002': 'declined',
+  '0780000003': 'insufficient-funds',
+  // Never answered - the request times out
+  '0780000009': 'timeout',
+};
+
+export function createCardSimulator(): PaymentProvider<CardDetails> {
+  const ledger = createPaymentLedger('card');
+
+  return {
+    id: 'card',
+
+    async authorize(amount: Money, card: CardDetails) {
+      await delay();
+
+      const number = normalizeCardNumber(card.number);
+      const expiry = parseExpiry(card.expiry);
+      const reference = maskCardNumber(number);
+
+      if (!luhnCheck(number) || !expiry || !/^\d{3,4}$/.test(card.cvc.trim())) {
+        return ledger.create(amount, reference, 'failed', 'invalid-details');
+      }
+      if (isExpired(expiry)) {
+        return ledger.create(amount, reference, 'failed', 'expired-card');
+      }
+
+      const decline = TEST_CARDS[number];
+      return decline
+        ? ledger.create(amount, reference, 'failed', decline)
+        : ledger.create(amount, reference, 'authorized');
+    },
+
+    async getPayment(paymentId) {
+      return ledger.get(paymentId);
+    },
+
+    async capture(paymentId) {
+      await delay();
+      return ledger.transition(paymentId, 'captured');
+    },
+
+    async fail(paymentId, reason = 'cancelled') {
+      return ledger.transition(paymentId, 'failed', reason);
+    },
+
+    async refund(paymentId) {
+      await delay();
+      return ledger.transition(paymentId, 'refunded');
+    },
+  };
+}
+
+// How long the simulated customer takes to approve the prompt on their phone
+const APPROVAL_DELAY_MS = 4000;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+function localNumber(phone: string) {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('250') ? `0${digits.slice(3)}` : digits;
+}
+
+// Authorization starts `pending` while the customer approves the prompt on
+// their handset; callers poll `getPayment` until it settles either way
+export function createMobileMoneySimulator(): PaymentProvider<MobileMoneyDetails> {
+  const ledger = createPaymentLedger('mobile-money');
+  const outcomes = new Map<string, PaymentFailureReason | null>();
+
+  const settle = (paymentId: string) => {
+    const payment = ledger.get(paymentId);
+    if (payment.status !== 'pending') return payment;
+
+    const elapsed = Date.now() - new Date(payment.createdAt).getTime();
+    const outcome = outcomes.get(paymentId) ?? null;
+
+    if (outcome === 'timeout') {
+      return elapsed >= REQUEST_TIMEOUT_MS ? ledger.transition(paymentId, 'failed', 'timeout') : payment;
+    }
+    if (elapsed < APPROVAL_DELAY_MS) return payment;
+
+    return outcome
+      ? ledger.transition(paymentId, 'failed', outcome)
+      : ledger.transition(paymentId, 'authorized');
+  };
+
+  return {
+    id: 'mobile-money',
+
+    async authorize(amount: Money, { phone }: MobileMoneyDetails) {
+      await delay();
+
+      if (!isValidPhone(phone)) {
+        return ledger.create(amount, phone, 'failed', 'invalid-details');
+      }
+
+      const payment = ledger.create(amount, phone.trim(), 'pending');
+      outcomes.set(payment.id, TEST_MOBILE_NUMBERS[localNumber(phone)] ?? null);
+      return payment;
+    },
+
+    async getPayment(paymentId) {
+      await delay(200);
+      return settle(paymentId);
+    },
+
+    async capture(paymentId) {
+      await delay();
+      return ledger.transition(paymentId, 'captured');
+    },
+
+    async fail(paymentId, reason = 'cancelled') {
+      return ledger.transition(paymentId, 'failed', reason);
+    },
+
+    async refund(paymentId) {
+      await delay();
+      return ledger.transition(paymentId, 'refunded');
+    },
+  };
+}
+
+export const paymentProviders = {
+  card: createCardSimulator(),
+  'mobile-money': createMobileMoneySimulator(),
+};
@@ -0,0 +1,212 @@
+import { products, type Product } from '../data/products';
+import { isTranslationKey } from '../i18n/catalogs';
+import type { TranslationParams } from '../i18n/translate';
+import { withDietaryInfo } from '../lib/dietary';
+import { applyOrder, productProblem } from '../lib/productRules';
+import { TranslatableError } from '../lib/errors';
+import { readJSON, storageKey } from '../lib/storage';
+import { availableStock } from './inventory';
+
+export interface ProductEditor {
+  // The catalog as stored: archived products included, stock as baked for the day
+  list: () => Promise<Product[]>;
+  create: (product: Product) => Promise<Product>;
+  update: (product: Product) => Promise<Product>;
+  setArchived: (id: number, archived: boolean) => Promise<Product>;
+  // `ids` lists every product, archived ones included, in storefront order
+  reorder: (ids: number[]) => Promise<void>;
+  // Resolves to a URL that can go straight into a product's image slot
+  uploadImage: (file: File) => Promise<string>;
+}
+
+export interface ProductRepository {
+  // Archived products are left out of the list but can still be fetched by id
+  list: () => Promise<Product[]>;
+  get: (id: number) => Promise<Product | undefined>;
+  // Catalog changes for the admin area, made on behalf of a staff account
+  edit: (staffEmail: string) => ProductEditor;
+}
+
+const CATALOG_KEY = storageKey('catalog');
+
+// What the product API sends back with a failed request
+interface ErrorBody {
+  message?: string;
+  key?: unknown;
+  params?: TranslationParams;
+}
+
+const forSale = (catalog: Product[]) => catalog.filter((product) => !product.archived);
+
+// localStorage only holds a few megabytes in all, so uploads are scaled down
+// and re-encoded as JPEG before they're kept inline
+const STORED_IMAGE_MAX_SIZE = 800;
+const STORED_IMAGE_QUALITY = 0.8;
+
+async function toStoredImage(file: File) {
+  try {
+    const bitmap = await createImageBitmap(file);
+    try {
+      const scale = Math.min(1, STORED_IMAGE_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(bitmap.width * scale);
+      canvas.height = Math.round(bitmap.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not available');
+      // JPEG has no transparency; a white background suits product photos
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      return canvas.toDataURL('image/jpeg', STORED_IMAGE_QUALITY);
+    } finally {
+      bitmap.close();
+    }
+  } catch {
+    // Not an image the browser can decode
+    throw new TranslatableError('admin.product.image.uploadFailed', `Could not read image ${file.name}`);
+  }
+}
+
+// Without a backend, edits are kept in this browser on top of the bundled
+// catalog, and uploaded images are stored inline as downscaled data URLs.
+// Changes that don't fit in storage are refused rather than lost. Edits saved
+// before ingredients were recorded borrow them from the bundled catalog.
+export function createStaticProductRepository(
+  catalog: Product[] = products,
+  storage: Storage = localStorage
+): ProductRepository {
+  const load = () =>
+    readJSON<Product[] | null>(CATALOG_KEY, null, storage)?.map((product) => withDietaryInfo(product, catalog)) ?? catalog;
+  const persist = (next: Product[]) => {
+    try {
+      storage.setItem(CATALOG_KEY, JSON.stringify(next));
+    } catch {
+      throw new TranslatableError('admin.products.storageFull', 'The catalog is too large to save in this browser');
+    }
+  };
+
+  const save = async (product: Product, isNew: boolean) => {
+    const current = load();
+    const problem = productProblem(product, current, isNew);
+    if (problem) throw TranslatableError.from(problem);
+
+    persist(isNew ? [...current, product] : current.map((existing) => (existing.id === product.id ? product : existing)));
+    return product;
+  };
+
+  const editor: ProductEditor = {
+    list: async () => [...load()],
+    create: (product) => save(product, true),
+    update: (product) => save(product, false),
+    setArchived: async (id, archived) => {
+      const product = load().find((product) => product.id === id);
+      if (!product) throw new TranslatableError('admin.product.notFound', `There is no product with id ${id}`, { id });
+      return save({ ...product, archived }, false);
+    },
+    reorder: async (ids) => persist(applyOrder(load(), ids)),
+    uploadImage: toStoredImage,
+  };
+
+  return {
+    list: async () => forSale(load()),
+    get: async (id) => load().find((product) => product.id === id),
+    edit: () => editor,
+  };
+}
+
+export function createHttpProductRepository(baseUrl = '/api/products'): ProductRepository {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T | undefined> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { Accept: 'application/json', ...init.headers },
+    });
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      // Staff-facing routes explain what was wrong with the change, with a
+      // catalog key so it can be worded in the staff member's language
+      const { message, key, params } = (await response.json().catch(() => ({}))) as ErrorBody;
+      const english = message ?? `Product request failed (${response.status})`;
+      throw isTranslationKey(key) ? new TranslatableError(key, english, params) : new Error(english);
+    }
+    return response.status === 204 ? undefined : (response.json() as Promise<T>);
+  };
+
+  const requestCatalog = async (path: string, init?: RequestInit) => {
+    const catalog = await request<Product[]>(path, init);
+    if (!Array.isArray(catalog)) {
+      throw new Error('Product catalog response was not a list');
+    }
+    return catalog;
+  };
+
+  const edit = (staffEmail: string): ProductEditor => {
+    const send = async (path: string, method: string, body: unknown) => {
+      const product = await request<Product>(path, {
+        method,
+        headers: { 'Content-Type': 'application/json', 'X-Staff-Email': staffEmail },
+        body: JSON.stringify(body),
+      });
+      if (!product) throw new Error('Product not found');
+      return product;
+    };
+
+    return {
+      list: () => requestCatalog('?archived=include', { headers: { 'X-Staff-Email': staffEmail } }),
+      create: (product) => send('', 'POST', product),
+      update: (product) => send(`/${product.id}`, 'PUT', product),
+      setArchived: (id, archived) => send(`/${id}`, 'PATCH', { archived }),
+      reorder: async (ids) => {
+        await request('/order', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', 'X-Staff-Email': staffEmail },
+          body: JSON.stringify({ ids }),
+        });
+      },
+      uploadImage: async (file) => {
+        const uploaded = await request<{ url: string }>('/images', {
+          method: 'POST',
+          headers: { 'Content-Type': file.type, 'X-Staff-Email': staffEmail },
+          body: file,
+        });
+        if (!uploaded) throw new Error('Image upload failed');
+        return uploaded.url;
+      },
+    };
+  };
+
+  return {
+    list: () => requestCatalog(''),
+    get: (id) => request<Product>(`/${id}`),
+    edit,
+  };
+}
+
+// The dev server serves the mock endpoint; production builds are static files,
+// so they read the bundled catalog unless VITE_PRODUCT_SOURCE says otherwise
+function resolveProductSource() {
+  const source = import.meta.env.VITE_PRODUCT_SOURCE;
+  if (source === 'http' || source === 'static') return source;
+  return import.meta.env.DEV ? 'http' : 'static';
+}
+
+// Sources describe the day's full stock; what callers see is what is left of
+// it. Archived products can't be bought, so they have none.
+export function withAvailableStock(repository: ProductRepository): ProductRepository {
+  const withStock = (product: Product) => ({ ...product, stock: product.archived ? 0 : availableStock(product) });
+
+  return {
+    list: async () => (await repository.list()).map(withStock),
+    get: async (id) => {
+      const product = await repository.get(id);
+      return product && withStock(product);
+    },
+    edit: (staffEmail) => repository.edit(staffEmail),
+  };
+}
+
+export const productRepository: ProductRepository = withAvailableStock(
+  resolveProductSource() === 'http'
+    ? createHttpProductRepository()
+    : createStaticProductRepository()
+);
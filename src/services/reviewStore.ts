@@ -0,0 +1,39 @@
+import { REVIEW_STATUSES, isRating, type Review } from '../lib/reviews';
+import { readJSON, storageKey, writeJSON } from '../lib/storage';
+
+export const REVIEWS_STORAGE_KEY = storageKey('reviews');
+const REVIEWS_SCHEMA_VERSION = 1;
+
+interface StoredReviews {
+  version: number;
+  reviews: unknown[];
+}
+
+function isReview(value: unknown): value is Review {
+  if (typeof value !== 'object' || value === null) return false;
+  const review = value as Partial<Record<keyof Review, unknown>>;
+
+  return (
+    typeof review.id === 'string' &&
+    Number.isInteger(review.productId) &&
+    typeof review.userId === 'string' &&
+    typeof review.authorName === 'string' &&
+    isRating(review.rating) &&
+    typeof review.body === 'string' &&
+    typeof review.createdAt === 'string' &&
+    REVIEW_STATUSES.some((status) => status === review.status) &&
+    (review.moderatedAt === null || typeof review.moderatedAt === 'string') &&
+    Array.isArray(review.helpfulVoters)
+  );
+}
+
+// Malformed reviews are dropped one by one rather than losing them all
+export function loadReviews(): readonly Review[] {
+  const stored = readJSON<StoredReviews | null>(REVIEWS_STORAGE_KEY, null);
+  if (stored?.version !== REVIEWS_SCHEMA_VERSION || !Array.isArray(stored.reviews)) return [];
+  return stored.reviews.filter(isReview);
+}
+
+export function saveReviews(reviews: readonly Review[]) {
+  writeJSON<StoredReviews>(REVIEWS_STORAGE_KEY, { version: REVIEWS_SCHEMA_VERSION, reviews: [...reviews] });
+}
@@ -0,0 +1,85 @@
+import { generateSalt, hashPassword, timingSafeEqual } from '../lib/crypto';
+import { TranslatableError } from '../lib/errors';
+import { readJSON, storageKey, writeJSON } from '../lib/storage';
+
+export interface User {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  createdAt: string;
+}
+
+interface StoredUser extends User {
+  passwordHash: string;
+  salt: string;
+}
+
+export interface NewUser {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+}
+
+const USERS_KEY = storageKey('users');
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function loadUsers() {
+  const users = readJSON<StoredUser[]>(USERS_KEY, []);
+  return Array.isArray(users) ? users : [];
+}
+
+function toPublicUser({ id, firstName, lastName, email, createdAt }: StoredUser): User {
+  return { id, firstName, lastName, email, createdAt };
+}
+
+export function findUserById(id: string) {
+  const user = loadUsers().find((user) => user.id === id);
+  return user ? toPublicUser(user) : null;
+}
+
+// Lets the sign-up form warn about a taken email before the customer submits
+export async function isEmailRegistered(email: string) {
+  const normalizedEmail = normalizeEmail(email);
+  return loadUsers().some((user) => user.email === normalizedEmail);
+}
+
+export async function createUser({ firstName, lastName, email, password }: NewUser) {
+  const users = loadUsers();
+  const normalizedEmail = normalizeEmail(email);
+
+  if (users.some((user) => user.email === normalizedEmail)) {
+    throw new TranslatableError('validation.emailTaken', 'An account with this email already exists');
+  }
+
+  const salt = generateSalt();
+  const user: StoredUser = {
+    id: crypto.randomUUID(),
+    firstName: firstName.trim(),
+    lastName: lastName.trim(),
+    email: normalizedEmail,
+    createdAt: new Date().toISOString(),
+    passwordHash: await hashPassword(password, salt),
+    salt,
+  };
+
+  writeJSON(USERS_KEY, [...users, user]);
+  return toPublicUser(user);
+}
+
+export async function verifyCredentials(email: string, password: string) {
+  const user = loadUsers().find((user) => user.email === normalizeEmail(email));
+
+  // Hash even when the email is unknown so both failures take the same time
+  const passwordHash = await hashPassword(password, user?.salt ?? generateSalt());
+
+  if (!user || !timingSafeEqual(passwordHash, user.passwordHash)) {
+    throw new TranslatableError('auth.invalidCredentials', 'Invalid email or password');
+  }
+
+  return toPublicUser(user);
+}
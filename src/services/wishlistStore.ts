@@ -0,0 +1,96 @@
+import { removeKey, storageKey, writeJSON } from '../lib/storage';
+
+export interface WishlistEntry {
+  readonly productId: number;
+  readonly addedAt: string;
+}
+
+const WISHLIST_SCHEMA_VERSION = 1;
+const WISHLIST_KEY_PREFIX = storageKey('wishlist:');
+
+interface StoredWishlist {
+  version: number;
+  entries: unknown;
+}
+
+// Signed-out visitors share one list per browser until they sign in
+export function wishlistStorageKey(userId: string | null) {
+  return `${WISHLIST_KEY_PREFIX}${userId ?? 'guest'}`;
+}
+
+function isWishlistEntry(value: unknown): value is WishlistEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Partial<Record<keyof WishlistEntry, unknown>>;
+  return Number.isInteger(entry.productId) && typeof entry.addedAt === 'string';
+}
+
+// Unreadable lists start over empty; a bad entry doesn't take the rest with it
+function parseWishlist(raw: string | null): readonly WishlistEntry[] {
+  if (raw === null) return [];
+  try {
+    const stored = JSON.parse(raw) as Partial<StoredWishlist> | null;
+    if (stored?.version !== WISHLIST_SCHEMA_VERSION || !Array.isArray(stored.entries)) return [];
+    return Object.freeze(stored.entries.filter(isWishlistEntry));
+  } catch {
+    return [];
+  }
+}
+
+// useSyncExternalStore needs the same array back until the list really changes
+const snapshots = new Map<string, { raw: string | null; entries: readonly WishlistEntry[] }>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export function loadWishlist(userId: string | null): readonly WishlistEntry[] {
+  const key = wishlistStorageKey(userId);
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(key);
+  } catch {
+    // Storage disabled - behave as if nothing was saved
+  }
+
+  const cached = snapshots.get(key);
+  if (cached && cached.raw === raw) return cached.entries;
+
+  const entries = parseWishlist(raw);
+  snapshots.set(key, { raw, entries });
+  return entries;
+}
+
+export function saveWishlist(userId: string | null, entries: readonly WishlistEntry[]) {
+  writeJSON<StoredWishlist>(wishlistStorageKey(userId), { version: WISHLIST_SCHEMA_VERSION, entries });
+  notify();
+}
+
+// Fires for changes made here and in other tabs
+export function subscribeToWishlists(listener: () => void) {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === null || e.key.startsWith(WISHLIST_KEY_PREFIX)) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+// Favourites saved while signed out move into the account. Desserts on both
+// lists keep the earlier date so the list order doesn't jump around.
+export function mergeGuestWishlist(userId: string) {
+  const guest = loadWishlist(null);
+  if (guest.length === 0) return;
+
+  const merged = new Map(loadWishlist(userId).map((entry) => [entry.productId, entry]));
+  for (const entry of guest) {
+    const existing = merged.get(entry.productId);
+    if (!existing || entry.addedAt < existing.addedAt) merged.set(entry.productId, entry);
+  }
+
+  saveWishlist(userId, [...merged.values()]);
+  removeKey(wishlistStorageKey(null));
+  notify();
+}
@@ -1,24 +1,40 @@
+import { Link } from "react-router-dom";
 import { useCart } from "../../hooks/useCart";
 import { ShoppingCart, X, Leaf } from "lucide-react";
+import ResponsiveImage from "./ResponsiveImage";
+import PromoCodeForm from "./PromoCodeForm";
+import PriceSummary from "./PriceSummary";
+import { formatMoney } from "../../lib/currency";
+import { lineTotal } from "../../lib/discounts";
+import { useTranslation } from "../../hooks/useTranslation";
+import { useToast } from "../../hooks/useToast";
+import type { CartItem } from "../../context/cart";
+import RichText from "./RichText";
 
-interface CartProps {
-  onConfirmOrder: () => void;
-}
+const Cart = () => {
+  const { items, pricing, itemCount, removeItem, restoreItem } = useCart();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
 
-const Cart = ({ onConfirmOrder }: CartProps) => {
-  const { items, total, itemCount, removeItem } = useCart();
+  const handleRemove = (item: CartItem, index: number) => {
+    removeItem(item.id);
+    showToast({
+      message: t("cart.removed", { name: item.name }),
+      action: { label: t("toast.undo"), onClick: () => restoreItem(item, index) },
+    });
+  };
 
   if (itemCount === 0) {
     return (
       <aside className="bg-white p-6 rounded-xl shadow-lg sticky top-20 min-w-80">
         <h2 className="text-xl font-bold text-red-600 mb-6 flex items-center gap-2">
           <ShoppingCart size={20} />
-          Your Cart (0)
+          {t("cart.title", { count: 0 })}
         </h2>
         <div className="text-center py-8">
           <ShoppingCart size={48} className="mx-auto mb-4 text-gray-400" />
           <p className="text-gray-500 text-sm">
-            Your added items will appear here
+            {t("cart.empty")}
           </p>
         </div>
       </aside>
@@ -29,29 +45,35 @@ const Cart = ({ onConfirmOrder }: CartProps) => {
     <aside className="bg-white p-6 rounded-xl shadow-lg sticky top-20 min-w-80">
       <h2 className="text-xl font-bold text-red-600 mb-6 flex items-center gap-2">
         <ShoppingCart size={20} />
-        Your Cart ({itemCount})
+        {t("cart.title", { count: itemCount })}
       </h2>
 
       <div className="mb-6">
-        {items.map((item) => (
-          <div key={item.id} className="flex justify-between items-center py-4 border-b border-gray-200 last:border-b-0">
+        {items.map((item, index) => (
+          <div key={item.id} className="flex justify-between items-center gap-4 py-4 border-b border-gray-200 last:border-b-0">
+            <ResponsiveImage
+              image={item.image}
+              alt={item.name}
+              variant="thumbnail"
+              className="w-12 h-12 rounded-md object-cover"
+            />
             <div className="flex-1">
               <h4 className="font-semibold text-gray-900 mb-1">{item.name}</h4>
               <div className="flex gap-3 text-sm">
                 <span className="text-red-600 font-semibold">{item.quantity}x</span>
                 <span className="text-gray-600">
-                  @ ${item.price.toFixed(2)}
+                  @ {formatMoney(item.price)}
                 </span>
                 <span className="text-gray-800 font-semibold">
-                  ${(item.price * item.quantity).toFixed(2)}
+                  {formatMoney(lineTotal(item))}
                 </span>
               </div>
             </div>
 
             <button
               className="w-6 h-6 border border-red-600 rounded-full flex items-center justify-center hover:bg-red-600 hover:text-white transition-colors"
-              onClick={() => removeItem(item.id)}
-              aria-label={`Remove ${item.name} from cart`}
+              onClick={() => handleRemove(item, index)}
+              aria-label={t("cart.remove", { name: item.name })}
             >
               <X size={16} />
             </button>
@@ -59,24 +81,26 @@ const Cart = ({ onConfirmOrder }: CartProps) => {
         ))}
       </div>
 
-      <div className="flex justify-between items-center py-4 border-t border-gray-200 mb-4">
-        <span>Order Total</span>
-        <strong className="text-xl font-bold text-gray-900">${total.toFixed(2)}</strong>
-      </div>
+      <PromoCodeForm />
+
+      <PriceSummary pricing={pricing} showFreeDeliveryHint />
 
       <div className="flex items-center gap-2 bg-gray-100 p-4 rounded-lg mb-6 text-sm">
         <Leaf size={16} className="text-green-500" />
         <span>
-          This is a <strong>carbon-neutral</strong> delivery
+          <RichText
+            text={t("cart.carbonNeutral")}
+            components={{ strong: (chunk) => <strong>{chunk}</strong> }}
+          />
         </span>
       </div>
 
-      <button 
-        className="w-full bg-red-600 text-white py-3 px-4 rounded-full font-semibold hover:bg-red-700 transition-colors"
-        onClick={onConfirmOrder}
+      <Link
+        to="/checkout"
+        className="block w-full text-center bg-red-600 text-white py-3 px-4 rounded-full font-semibold hover:bg-red-700 transition-colors"
       >
-        Confirm Order
-      </button>
+        {t("cart.checkout")}
+      </Link>
     </aside>
   );
 };
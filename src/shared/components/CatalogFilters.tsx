@@ -0,0 +1,117 @@
+import { Search } from "lucide-react";
+import { SORT_OPTIONS, isSortOption, type SortOption } from "../../lib/catalog";
+import { ALLERGENS, type Allergen } from "../../lib/dietary";
+import { useTranslation } from "../../hooks/useTranslation";
+
+interface CatalogFiltersProps {
+  categories: string[];
+  category: string | null;
+  query: string;
+  sort: SortOption;
+  excludeAllergens: Allergen[];
+  onCategoryChange: (category: string | null) => void;
+  onQueryChange: (query: string) => void;
+  onSortChange: (sort: SortOption) => void;
+  onExcludeAllergensChange: (allergens: Allergen[]) => void;
+}
+
+const CatalogFilters = ({
+  categories,
+  category,
+  query,
+  sort,
+  excludeAllergens,
+  onCategoryChange,
+  onQueryChange,
+  onSortChange,
+  onExcludeAllergensChange,
+}: CatalogFiltersProps) => {
+  const { t } = useTranslation();
+
+  const chipClass = (isActive: boolean) =>
+    `px-4 py-2 rounded-full text-sm font-semibold transition-colors ${
+      isActive
+        ? "bg-red-600 text-white"
+        : "bg-white text-gray-700 border border-gray-300 hover:border-red-600 hover:text-red-600"
+    }`;
+
+  const toggleAllergen = (allergen: Allergen) =>
+    onExcludeAllergensChange(
+      excludeAllergens.includes(allergen)
+        ? excludeAllergens.filter((excluded) => excluded !== allergen)
+        : [...excludeAllergens, allergen]
+    );
+
+  return (
+    <div className="mb-8 space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <div className="relative flex-1 min-w-60">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            placeholder={t("filters.search")}
+            aria-label={t("filters.search")}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors"
+          />
+        </div>
+
+        <select
+          value={sort}
+          onChange={(e) => {
+            if (isSortOption(e.target.value)) onSortChange(e.target.value);
+          }}
+          aria-label={t("filters.sort")}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {t(`sort.${option}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2" role="group" aria-label={t("filters.category")}>
+        <button
+          onClick={() => onCategoryChange(null)}
+          className={chipClass(category === null)}
+          aria-pressed={category === null}
+        >
+          {t("filters.all")}
+        </button>
+        {categories.map((name) => (
+          <button
+            key={name}
+            onClick={() => onCategoryChange(name)}
+            className={chipClass(category === name)}
+            aria-pressed={category === name}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-labelledby="catalog-exclude-allergens">
+        <span id="catalog-exclude-allergens" className="text-sm font-semibold text-gray-700 mr-1">
+          {t("filters.excludeAllergens")}
+        </span>
+        {ALLERGENS.map((allergen) => (
+          <button
+            key={allergen}
+            onClick={() => toggleAllergen(allergen)}
+            className={chipClass(excludeAllergens.includes(allergen))}
+            aria-pressed={excludeAllergens.includes(allergen)}
+          >
+            {t(`allergen.${allergen}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CatalogFilters;
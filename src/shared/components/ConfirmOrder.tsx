@@ -1,58 +1,77 @@
-import { useCart } from "../../hooks/useCart";
+import { Link } from "react-router-dom";
 import { CheckCircle } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import type { Order } from "../../services/orderStore";
+import PriceSummary from "./PriceSummary";
+import { formatMoney } from "../../lib/currency";
+import { formatSlot } from "../../lib/checkout";
+import { useTranslation } from "../../hooks/useTranslation";
 
 interface ConfirmOrderProps {
-  isVisible: boolean;
-  onClose: () => void;
+  order: Order;
 }
 
-const ConfirmOrder = ({ isVisible, onClose }: ConfirmOrderProps) => {
-  const { items, total, clearCart } = useCart();
+// Final screen of the checkout wizard
+const ConfirmOrder = ({ order }: ConfirmOrderProps) => {
+  const { isAuthenticated } = useAuth();
+  const { language, t } = useTranslation();
 
-  const handleStartNewOrder = () => {
-    clearCart();
-    onClose();
-  };
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-8 max-w-md w-full mx-auto">
+      <CheckCircle size={48} className="mx-auto mb-6 text-green-500" />
 
-  if (!isVisible) return null;
+      <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">{t("order.confirmed")}</h1>
+      <p className="text-gray-600 mb-1 text-center">{t("order.enjoy")}</p>
+      <p className="text-sm text-gray-500 mb-1 text-center">{t("order.number", { id: order.id })}</p>
+      {order.details && (
+        <p className="text-sm text-gray-500 mb-6 text-center">
+          {t(`order.slot.${order.details.fulfilment}`, { slot: formatSlot(order.details.slot, language) })}
+        </p>
+      )}
 
-  return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" onClick={onClose}>
-      <div className="bg-white rounded-2xl p-8 max-w-md w-full max-h-96 overflow-y-auto" onClick={(e) => e.stopPropagation()}>
-        <CheckCircle size={48} className="mx-auto mb-6 text-green-500" />
-
-        <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">Order Confirmed</h1>
-        <p className="text-gray-600 mb-6 text-center">We hope you enjoy your food!</p>
-
-        <div className="bg-gray-100 rounded-lg p-4 mb-6">
-          {items.map((item) => (
-            <div key={item.id} className="flex items-center gap-4 py-3 border-b border-gray-200 last:border-b-0">
-              <div className="flex-1">
-                <strong className="block font-semibold text-gray-900 mb-1">{item.name}</strong>
-                <div className="flex gap-3 text-sm text-gray-600">
-                  <span className="text-red-600 font-semibold">{item.quantity}x</span>
-                  <span>@ ${item.price.toFixed(2)}</span>
-                </div>
+      <div className="bg-gray-100 rounded-lg p-4 mb-6">
+        {order.items.map((item) => (
+          <div key={item.productId} className="flex items-center gap-4 py-3 border-b border-gray-200 last:border-b-0">
+            <img
+              src={item.thumbnail}
+              alt={item.name}
+              className="w-12 h-12 rounded-md object-cover"
+              width={64}
+              height={64}
+            />
+            <div className="flex-1">
+              <strong className="block font-semibold text-gray-900 mb-1">{item.name}</strong>
+              <div className="flex gap-3 text-sm text-gray-600">
+                <span className="text-red-600 font-semibold">{item.quantity}x</span>
+                <span>@ {formatMoney(item.unitPrice)}</span>
               </div>
-              <span className="font-semibold text-gray-900">
-                ${(item.price * item.quantity).toFixed(2)}
-              </span>
             </div>
-          ))}
-        </div>
+            <span className="font-semibold text-gray-900">
+              {formatMoney(item.lineTotal)}
+            </span>
+          </div>
+        ))}
+      </div>
 
-        <div className="flex justify-between items-center py-4 mb-6">
-          <span className="text-lg">Order Total</span>
-          <h2 className="text-2xl font-bold text-gray-900">${total.toFixed(2)}</h2>
-        </div>
+      <div className="mb-6">
+        <PriceSummary pricing={order.pricing} />
+      </div>
 
-        <button
-          className="w-full bg-red-600 text-white py-3 px-4 rounded-full font-semibold hover:bg-red-700 transition-colors"
-          onClick={handleStartNewOrder}
+      {isAuthenticated && (
+        <Link
+          to={`/orders/${order.id}`}
+          className="block w-full text-center text-red-600 py-3 px-4 mb-3 rounded-full font-semibold border-2 border-red-600 hover:bg-red-50 transition-colors"
         >
-          Start New Order
-        </button>
-      </div>
+          {t("order.view")}
+        </Link>
+      )}
+
+      <Link
+        to="/"
+        className="block w-full text-center bg-red-600 text-white py-3 px-4 rounded-full font-semibold hover:bg-red-700 transition-colors"
+      >
+        {t("order.startNew")}
+      </Link>
     </div>
   );
 };
@@ -0,0 +1,46 @@
+import { Leaf, TriangleAlert } from "lucide-react";
+import type { Product } from "../../data/products";
+import { useTranslation } from "../../hooks/useTranslation";
+
+interface DietaryBadgesProps {
+  product: Pick<Product, "allergens" | "dietary">;
+  className?: string;
+}
+
+// Dietary tags first since they're what shoppers look for; allergens follow
+// as warnings, and so does a product whose allergens aren't listed yet
+const DietaryBadges = ({ product, className = "" }: DietaryBadgesProps) => {
+  const { t } = useTranslation();
+
+  if (product.allergens?.length === 0 && product.dietary.length === 0) return null;
+
+  return (
+    <ul className={`flex flex-wrap gap-2 ${className}`} aria-label={t("dietary.label")}>
+      {product.dietary.map((tag) => (
+        <li
+          key={tag}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-100 text-green-800 text-xs font-medium"
+        >
+          <Leaf size={12} aria-hidden="true" />
+          {t(`diet.${tag}`)}
+        </li>
+      ))}
+      {product.allergens?.map((allergen) => (
+        <li
+          key={allergen}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium"
+        >
+          <TriangleAlert size={12} aria-hidden="true" />
+          {t("allergen.contains", { allergen: t(`allergen.${allergen}`) })}
+        </li>
+      )) ?? (
+        <li className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">
+          <TriangleAlert size={12} aria-hidden="true" />
+          {t("allergen.unlisted")}
+        </li>
+      )}
+    </ul>
+  );
+};
+
+export default DietaryBadges;
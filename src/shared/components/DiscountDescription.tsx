@@ -0,0 +1,34 @@
+import type { DiscountRule } from "../../lib/discounts";
+import type { Money } from "../../lib/money";
+import { formatMoney } from "../../lib/currency";
+import { useTranslation } from "../../hooks/useTranslation";
+
+interface DiscountDescriptionProps {
+  rule: DiscountRule;
+  minSpend?: Money | null;
+}
+
+// "10% off your order on orders over $25.00", worded for the current language
+const DiscountDescription = ({ rule, minSpend }: DiscountDescriptionProps) => {
+  const { t } = useTranslation();
+
+  let description;
+  switch (rule.kind) {
+    case "percent":
+      description = t("promo.rule.percent", { percent: rule.percent });
+      break;
+    case "fixed":
+      description = t("promo.rule.fixed", { amount: formatMoney(rule.amount) });
+      break;
+    case "category-percent":
+      description = t("promo.rule.category-percent", { percent: rule.percent, category: rule.category });
+      break;
+    case "buy-x-get-y":
+      description = t("promo.rule.buy-x-get-y", { buy: rule.buy, category: rule.category, count: rule.get });
+      break;
+  }
+
+  return <>{minSpend ? t("promo.rule.minSpend", { description, amount: formatMoney(minSpend) }) : description}</>;
+};
+
+export default DiscountDescription;
@@ -1,5 +1,9 @@
 import { useState } from 'react';
 import { Eye, EyeOff, Mail, Lock } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useForm } from '../../hooks/useForm';
+import { EMPTY_LOGIN, loginSchema } from '../../services/authForms';
 
 interface LoginModalProps {
   onClose: () => void;
@@ -7,70 +11,33 @@ interface LoginModalProps {
 }
 
 const LoginModal = ({ onClose, onSwitchToRegister }: LoginModalProps) => {
-  const [formData, setFormData] = useState({
-    email: '',
-    password: ''
-  });
   const [showPassword, setShowPassword] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [errors, setErrors] = useState<{ [key: string]: string }>({});
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-    if (errors[name]) {
-      setErrors(prev => ({ ...prev, [name]: '' }));
-    }
-  };
+  const { login } = useAuth();
+  const { t } = useTranslation();
 
-  const validateForm = () => {
-    const newErrors: { [key: string]: string } = {};
-    
-    if (!formData.email) {
-      newErrors.email = 'Email is required';
-    } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email';
-    }
-    
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    }
-    
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) return;
-    
-    setIsLoading(true);
-    
-    try {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      console.log('Login successful:', formData);
+  const form = useForm({
+    initialValues: EMPTY_LOGIN,
+    schema: loginSchema,
+    failureMessage: 'validation.loginFailed',
+    onSubmit: async ({ email, password }) => {
+      await login(email, password);
       onClose();
-    } catch (error) {
-      setErrors({ general: 'Login failed. Please try again.' });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    },
+  });
 
   return (
     <div className="px-6 pb-6">
-      <form onSubmit={handleSubmit} className="space-y-5">
-        {errors.general && (
-          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm flex items-center gap-2">
+      <form onSubmit={form.handleSubmit} noValidate className="space-y-5">
+        {form.formError && (
+          <div role="alert" className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm flex items-center gap-2">
             <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-            {errors.general}
+            {form.formError}
           </div>
         )}
 
         <div>
-          <label htmlFor="email" className="block text-sm font-semibold text-gray-700 mb-2">
-            Email Address
+          <label htmlFor={form.fieldId('email')} className="block text-sm font-semibold text-gray-700 mb-2">
+            {t('auth.email')}
           </label>
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -78,27 +45,24 @@ const LoginModal = ({ onClose, onSwitchToRegister }: LoginModalProps) => {
             </div>
             <input
               type="email"
-              id="email"
-              name="email"
-              value={formData.email}
-              onChange={handleInputChange}
+              {...form.register('email')}
               className={`w-full pl-12 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all outline-none ${
-                errors.email ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
+                form.error('email') ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
               }`}
-              placeholder="Enter your email"
+              placeholder={t('auth.emailPlaceholder')}
             />
           </div>
-          {errors.email && (
-            <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
-              <div className="w-1 h-1 bg-red-500 rounded-full"></div>
-              {errors.email}
+          {form.error('email') && (
+            <p id={form.errorId('email')} className="mt-2 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+              {form.error('email')}
             </p>
           )}
         </div>
 
         <div>
-          <label htmlFor="password" className="block text-sm font-semibold text-gray-700 mb-2">
-            Password
+          <label htmlFor={form.fieldId('password')} className="block text-sm font-semibold text-gray-700 mb-2">
+            {t('auth.password')}
           </label>
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -106,14 +70,11 @@ const LoginModal = ({ onClose, onSwitchToRegister }: LoginModalProps) => {
             </div>
             <input
               type={showPassword ? 'text' : 'password'}
-              id="password"
-              name="password"
-              value={formData.password}
-              onChange={handleInputChange}
+              {...form.register('password')}
               className={`w-full pl-12 pr-12 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all outline-none ${
-                errors.password ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
+                form.error('password') ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
               }`}
-              placeholder="Enter your password"
+              placeholder={t('auth.passwordPlaceholder')}
             />
             <button
               type="button"
@@ -127,35 +88,35 @@ const LoginModal = ({ onClose, onSwitchToRegister }: LoginModalProps) => {
               )}
             </button>
           </div>
-          {errors.password && (
-            <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
-              <div className="w-1 h-1 bg-red-500 rounded-full"></div>
-              {errors.password}
+          {form.error('password') && (
+            <p id={form.errorId('password')} className="mt-2 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+              {form.error('password')}
             </p>
           )}
         </div>
 
         <button
           type="submit"
-          disabled={isLoading}
+          disabled={form.isSubmitting}
           className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-4 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center shadow-lg hover:shadow-xl"
         >
-          {isLoading ? (
+          {form.isSubmitting ? (
             <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
           ) : (
-            'Sign In'
+            t('auth.signIn')
           )}
         </button>
       </form>
 
       <div className="mt-6 text-center">
         <p className="text-sm text-gray-600">
-          Don't have an account?{' '}
+          {t('auth.noAccount')}{' '}
           <button 
             onClick={onSwitchToRegister}
             className="font-semibold text-blue-600 hover:text-blue-700 transition-colors"
           >
-            Sign up for free
+            {t('auth.signUpFree')}
           </button>
         </p>
       </div>
@@ -1,9 +1,14 @@
 import { Link, useLocation } from "react-router-dom";
-import { User, LogIn, UserPlus } from "lucide-react";
+import { User, LogIn, UserPlus, Globe, Heart } from "lucide-react";
 import { useState } from "react";
 import Modal from "./Modal";
 import LoginModal from "./LoginModal";
 import RegisterModal from "./RegisterModal";
+import { useAuth } from "../../hooks/useAuth";
+import { useTranslation } from "../../hooks/useTranslation";
+import { useWishlist } from "../../hooks/useWishlist";
+import { LANGUAGES, isLanguage } from "../../i18n/translate";
+import { isStaff } from "../../lib/staff";
 
 interface NavLink {
   title: string;
@@ -14,34 +19,30 @@ const NavigationBar = () => {
   const location = useLocation();
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
   const [isRegisterModalOpen, setIsRegisterModalOpen] = useState(false);
-  const [isLoggedIn, setIsLoggedIn] = useState(false); // Mock auth state
+  const { user, logout } = useAuth();
+  const { language, setLanguage, t } = useTranslation();
+  const { entries: wishlist } = useWishlist();
   
   const navLinks: NavLink[] = [
-    { title: "Home", path: "/" },
-    { title: "About", path: "/about" },
-    { title: "Contact", path: "/contact" },
+    { title: t("nav.home"), path: "/" },
+    { title: t("nav.about"), path: "/about" },
+    { title: t("nav.contact"), path: "/contact" },
   ];
 
   const isActive = (path: string) => location.pathname === path;
 
-  const handleLogout = () => {
-    setIsLoggedIn(false);
-    // Add logout logic here
-    console.log('User logged out');
-  };
-
   return (
     <>
       <nav className="bg-white shadow-md sticky top-0 z-50">
         <div className="max-w-6xl mx-auto px-4 flex items-center justify-between h-16">
           <Link to="/" className="text-red-600 text-xl font-bold hover:text-red-700">
-            <h1>Dessert Shop</h1>
+            <h1>{t("nav.brand")}</h1>
           </Link>
           
           <div className="flex items-center gap-8">
             <ul className="flex gap-6">
               {navLinks.map((link) => (
-                <li key={link.title}>
+                <li key={link.path}>
                   <Link 
                     to={link.path} 
                     className={`px-3 py-2 rounded-md font-medium transition-colors ${
@@ -56,23 +57,72 @@ const NavigationBar = () => {
               ))}
             </ul>
 
+            <Link
+              to="/wishlist"
+              aria-label={t("nav.wishlist", { count: wishlist.length })}
+              className={`relative p-2 rounded-md transition-colors ${
+                isActive("/wishlist") ? "text-red-600 bg-red-50" : "text-gray-700 hover:text-red-600 hover:bg-gray-100"
+              }`}
+            >
+              <Heart className="w-5 h-5" />
+              {wishlist.length > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+                  {wishlist.length}
+                </span>
+              )}
+            </Link>
+
+            <label className="flex items-center gap-2 text-gray-700">
+              <Globe className="w-4 h-4" aria-hidden="true" />
+              <span className="sr-only">{t("nav.language")}</span>
+              <select
+                value={language}
+                onChange={(e) => {
+                  if (isLanguage(e.target.value)) setLanguage(e.target.value);
+                }}
+                className="bg-transparent font-medium focus:outline-none focus:ring-2 focus:ring-red-500 rounded-md"
+              >
+                {LANGUAGES.map(({ code, label }) => (
+                  <option key={code} value={code} lang={code}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
             {/* Auth Section */}
             <div className="flex items-center">
-              {isLoggedIn ? (
+              {user ? (
                 <div className="relative group">
                   <button className="flex items-center gap-2 px-3 py-2 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">
                     <User className="w-5 h-5" />
-                    <span className="font-medium text-gray-700">John Doe</span>
+                    <span className="font-medium text-gray-700">{user.firstName} {user.lastName}</span>
                   </button>
                   <div className="absolute right-0 top-full mt-2 w-40 bg-white rounded-md shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-50">
                     <Link to="/profile" className="block px-4 py-3 text-gray-700 hover:bg-gray-100 font-medium">
-                      Profile
+                      {t("nav.profile")}
                     </Link>
                     <Link to="/orders" className="block px-4 py-3 text-gray-700 hover:bg-gray-100 font-medium">
-                      Orders
+                      {t("nav.orders")}
                     </Link>
-                    <button onClick={handleLogout} className="w-full text-left px-4 py-3 text-red-600 hover:bg-red-50 font-medium border-t border-gray-200">
-                      Logout
+                    {isStaff(user) && (
+                      <>
+                        <Link to="/admin/inbox" className="block px-4 py-3 text-gray-700 hover:bg-gray-100 font-medium">
+                          {t("nav.inbox")}
+                        </Link>
+                        <Link to="/admin/orders" className="block px-4 py-3 text-gray-700 hover:bg-gray-100 font-medium">
+                          {t("nav.manageOrders")}
+                        </Link>
+                        <Link to="/admin/reviews" className="block px-4 py-3 text-gray-700 hover:bg-gray-100 font-medium">
+                          {t("nav.reviews")}
+                        </Link>
+                        <Link to="/admin/products" className="block px-4 py-3 text-gray-700 hover:bg-gray-100 font-medium">
+                          {t("nav.products")}
+                        </Link>
+                      </>
+                    )}
+                    <button onClick={logout} className="w-full text-left px-4 py-3 text-red-600 hover:bg-red-50 font-medium border-t border-gray-200">
+                      {t("nav.logout")}
                     </button>
                   </div>
                 </div>
@@ -83,14 +133,14 @@ const NavigationBar = () => {
                     className="flex items-center gap-2 px-3 py-2 text-gray-700 hover:text-red-600 hover:bg-gray-100 rounded-md transition-colors font-medium"
                   >
                     <LogIn className="w-4 h-4" />
-                    Sign In
+                    {t("nav.signIn")}
                   </button>
                   <button 
                     onClick={() => setIsRegisterModalOpen(true)}
                     className="flex items-center gap-2 px-3 py-2 bg-red-600 text-white hover:bg-red-700 rounded-md transition-colors font-medium"
                   >
                     <UserPlus className="w-4 h-4" />
-                    Sign Up
+                    {t("nav.signUp")}
                   </button>
                 </div>
               )}
@@ -103,7 +153,7 @@ const NavigationBar = () => {
       <Modal
         isOpen={isLoginModalOpen}
         onClose={() => setIsLoginModalOpen(false)}
-        title="Sign In"
+        title={t("nav.signIn")}
         size="md"
       >
         <LoginModal
@@ -119,7 +169,7 @@ const NavigationBar = () => {
       <Modal
         isOpen={isRegisterModalOpen}
         onClose={() => setIsRegisterModalOpen(false)}
-        title="Create Account"
+        title={t("nav.createAccount")}
         size="md"
       >
         <RegisterModal
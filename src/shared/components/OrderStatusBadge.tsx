@@ -0,0 +1,25 @@
+import { useTranslation } from "../../hooks/useTranslation";
+import type { OrderStatus } from "../../lib/orderStatus";
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  placed: "bg-gray-100 text-gray-700",
+  accepted: "bg-blue-100 text-blue-700",
+  preparing: "bg-yellow-100 text-yellow-800",
+  ready: "bg-purple-100 text-purple-700",
+  "out-for-delivery": "bg-purple-100 text-purple-700",
+  delivered: "bg-green-100 text-green-700",
+  cancelled: "bg-red-100 text-red-700",
+  refunded: "bg-orange-100 text-orange-700",
+};
+
+const OrderStatusBadge = ({ status }: { status: OrderStatus }) => {
+  const { t } = useTranslation();
+
+  return (
+    <span className={`inline-block px-3 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${STATUS_STYLES[status]}`}>
+      {t(`order.status.${status}`)}
+    </span>
+  );
+};
+
+export default OrderStatusBadge;
@@ -0,0 +1,60 @@
+import { evaluatePassword, type PasswordStrength } from "../../lib/passwordPolicy";
+import { useTranslation } from "../../hooks/useTranslation";
+
+const STRENGTH_COLORS: Record<PasswordStrength, string> = {
+  "very-weak": "bg-red-500",
+  weak: "bg-orange-500",
+  fair: "bg-yellow-500",
+  strong: "bg-green-500",
+  "very-strong": "bg-green-600",
+};
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  // The customer's own details, which make a password easy to guess
+  context?: readonly string[];
+}
+
+// Blocking problems are reported by the field's own error message, so the
+// meter only lists the suggestions for making an accepted password stronger
+const PasswordStrengthMeter = ({ password, context }: PasswordStrengthMeterProps) => {
+  const { t } = useTranslation();
+  const { score, strength, feedback } = evaluatePassword(password, context);
+  const suggestions = feedback.filter((item) => !item.blocking);
+  const label = t(`password.strength.${strength}`);
+
+  return (
+    <div className="mt-2" aria-live="polite">
+      <div className="flex items-center space-x-2">
+        <div
+          role="meter"
+          aria-label={t("password.meter")}
+          aria-valuemin={0}
+          aria-valuemax={4}
+          aria-valuenow={score}
+          aria-valuetext={label}
+          className="flex-1 grid grid-cols-4 gap-1"
+        >
+          {[1, 2, 3, 4].map((segment) => (
+            <div
+              key={segment}
+              className={`h-2 rounded-full transition-colors duration-300 ${
+                score >= segment || (segment === 1 && password) ? STRENGTH_COLORS[strength] : "bg-gray-200"
+              }`}
+            />
+          ))}
+        </div>
+        <span className="text-sm text-gray-600 whitespace-nowrap">{label}</span>
+      </div>
+      {suggestions.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-xs text-gray-500">
+          {suggestions.map((item) => (
+            <li key={item.key}>{t(item.key, item.params)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -0,0 +1,70 @@
+import type { PriceBreakdown } from "../../lib/pricing";
+import { formatMoney } from "../../lib/currency";
+import { useTranslation } from "../../hooks/useTranslation";
+import DiscountDescription from "./DiscountDescription";
+
+interface PriceSummaryProps {
+  pricing: PriceBreakdown;
+  showFreeDeliveryHint?: boolean;
+}
+
+// Shared by the cart, the confirmation screen and order history so every
+// view renders the exact breakdown the pricing module produced
+const PriceSummary = ({ pricing, showFreeDeliveryHint = false }: PriceSummaryProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mb-4">
+      <dl className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <dt className="text-gray-600">{t("pricing.subtotal")}</dt>
+          <dd className="text-gray-900">{formatMoney(pricing.subtotal)}</dd>
+        </div>
+
+        {pricing.discounts.map((discount) => (
+          <div key={discount.code} className="flex justify-between">
+            <dt className="text-gray-600">
+              {discount.code}
+              {discount.rule ? (
+                <>
+                  {" · "}
+                  <DiscountDescription rule={discount.rule} minSpend={discount.minSpend} />
+                </>
+              ) : (
+                discount.legacyDescription && ` · ${discount.legacyDescription}`
+              )}
+            </dt>
+            <dd className="text-green-600 font-semibold">-{formatMoney(discount.amount)}</dd>
+          </div>
+        ))}
+
+        {pricing.taxes.map((tax) => (
+          <div key={tax.name} className="flex justify-between">
+            <dt className="text-gray-600">{tax.name} ({tax.percent}%)</dt>
+            <dd className="text-gray-900">{formatMoney(tax.amount)}</dd>
+          </div>
+        ))}
+
+        <div className="flex justify-between">
+          <dt className="text-gray-600">{t("pricing.delivery")}</dt>
+          <dd className="text-gray-900">
+            {pricing.deliveryFee > 0 ? formatMoney(pricing.deliveryFee) : t("pricing.free")}
+          </dd>
+        </div>
+      </dl>
+
+      {showFreeDeliveryHint && pricing.amountToFreeDelivery !== null && (
+        <p className="mt-2 text-xs text-gray-500">
+          {t("pricing.freeDeliveryHint", { amount: formatMoney(pricing.amountToFreeDelivery) })}
+        </p>
+      )}
+
+      <div className="flex justify-between items-center pt-4">
+        <span>{t("pricing.total")}</span>
+        <strong className="text-xl font-bold text-gray-900">{formatMoney(pricing.total)}</strong>
+      </div>
+    </div>
+  );
+};
+
+export default PriceSummary;
@@ -1,6 +1,16 @@
+import { Link } from "react-router-dom";
 import { useCart } from "../../hooks/useCart";
 import { Plus, Minus, ShoppingCart } from "lucide-react";
 import type { Product } from "../../data/products";
+import DietaryBadges from "./DietaryBadges";
+import ResponsiveImage from "./ResponsiveImage";
+import StarRating from "./StarRating";
+import WishlistButton from "./WishlistButton";
+import { formatMoney } from "../../lib/currency";
+import { useTranslation } from "../../hooks/useTranslation";
+import { useReviews } from "../../hooks/useReviews";
+import { stockLevel } from "../../lib/stock";
+import { formatAverage } from "../../lib/reviews";
 
 interface ProductCardProps {
   product: Product;
@@ -8,10 +18,15 @@ interface ProductCardProps {
 
 const ProductCard = ({ product }: ProductCardProps) => {
   const { addItem, items, updateQuantity } = useCart();
+  const { language, t } = useTranslation();
+  const { ratingFor } = useReviews();
+  const rating = ratingFor(product.id);
 
   const cartItem = items.find((item) => item.id === product.id);
   const isInCart = !!cartItem;
   const quantity = cartItem?.quantity || 0;
+  const level = stockLevel(product.stock);
+  const canIncrement = quantity < product.stock;
 
   const handleAddToCart = () => {
     addItem(product);
@@ -30,50 +45,75 @@ const ProductCard = ({ product }: ProductCardProps) => {
   return (
     <div className="bg-white rounded-xl overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300 hover:-translate-y-1">
       <div className="relative overflow-hidden">
-        <img
-          src={product.image.desktop}
-          alt={product.name}
-          className="w-full h-60 object-cover transition-transform duration-300 hover:scale-105"
-          loading="lazy"
-        />
+        <Link to={`/products/${product.id}`}>
+          <ResponsiveImage
+            image={product.image}
+            alt={product.name}
+            className="w-full h-60 object-cover transition-transform duration-300 hover:scale-105"
+          />
+        </Link>
 
-        <button
-          className={`absolute bottom-4 left-1/2 transform -translate-x-1/2 px-6 py-3 rounded-full font-semibold transition-all duration-200 shadow-lg ${
-            isInCart 
-              ? "bg-red-600 text-white flex items-center justify-between min-w-36" 
-              : "bg-white text-red-600 border-2 border-red-600 hover:bg-red-600 hover:text-white flex items-center gap-2"
-          }`}
-          onClick={isInCart ? undefined : handleAddToCart}
-        >
-          {isInCart ? (
-            <>
-              <span 
-                onClick={handleDecrement}
-                className="w-6 h-6 bg-white bg-opacity-20 rounded-full flex items-center justify-center hover:bg-opacity-30 cursor-pointer"
-              >
-                <Minus size={16} />
-              </span>
-              <span className="font-bold">{quantity}</span>
-              <span 
-                onClick={handleIncrement}
-                className="w-6 h-6 bg-white bg-opacity-20 rounded-full flex items-center justify-center hover:bg-opacity-30 cursor-pointer"
-              >
-                <Plus size={16} />
-              </span>
-            </>
-          ) : (
-            <>
-              <ShoppingCart size={16} />
-              Add to Cart
-            </>
-          )}
-        </button>
+        {level !== "in-stock" && (
+          <span
+            className={`absolute top-4 left-4 px-3 py-1 rounded-full text-xs font-semibold shadow ${
+              level === "sold-out" ? "bg-gray-900 text-white" : "bg-orange-100 text-orange-800"
+            }`}
+          >
+            {level === "sold-out" ? t("product.soldOut") : t("product.lowStock", { count: product.stock })}
+          </span>
+        )}
+
+        <WishlistButton product={product} className="absolute top-4 right-4" />
+
+        {isInCart ? (
+          <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 px-6 py-3 rounded-full font-semibold shadow-lg bg-red-600 text-white flex items-center justify-between min-w-36">
+            <button
+              onClick={handleDecrement}
+              disabled={quantity <= 1}
+              aria-label={t("product.decrease")}
+              className="w-6 h-6 bg-white bg-opacity-20 rounded-full flex items-center justify-center hover:bg-opacity-30 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Minus size={16} />
+            </button>
+            <span className="font-bold" aria-live="polite">{quantity}</span>
+            <button
+              onClick={handleIncrement}
+              disabled={!canIncrement}
+              aria-label={t("product.increase")}
+              className="w-6 h-6 bg-white bg-opacity-20 rounded-full flex items-center justify-center hover:bg-opacity-30 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Plus size={16} />
+            </button>
+          </div>
+        ) : (
+          <button
+            className="absolute bottom-4 left-1/2 transform -translate-x-1/2 px-6 py-3 rounded-full font-semibold transition-all duration-200 shadow-lg bg-white text-red-600 border-2 border-red-600 hover:bg-red-600 hover:text-white flex items-center gap-2 disabled:bg-gray-100 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed"
+            onClick={handleAddToCart}
+            disabled={level === "sold-out"}
+          >
+            <ShoppingCart size={16} />
+            {level === "sold-out" ? t("product.soldOut") : t("product.addToCart")}
+          </button>
+        )}
       </div>
 
       <div className="p-5">
         <p className="text-gray-500 text-sm uppercase tracking-wide font-medium mb-2">{product.category}</p>
-        <h3 className="text-xl font-bold text-gray-900 mb-3 leading-tight">{product.name}</h3>
-        <p className="text-2xl font-extrabold text-red-600">${product.price.toFixed(2)}</p>
+        <h3 className="text-xl font-bold text-gray-900 mb-2 leading-tight">
+          <Link to={`/products/${product.id}`} className="hover:text-red-600 transition-colors">
+            {product.name}
+          </Link>
+        </h3>
+        {rating.average !== null ? (
+          <p className="flex items-center gap-2 text-sm text-gray-600 mb-3">
+            <StarRating value={rating.average} label={t("reviews.average", { average: formatAverage(rating.average, language) })} />
+            <span>{t("reviews.summary", { count: rating.count, average: formatAverage(rating.average, language) })}</span>
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500 mb-3">{t("reviews.none")}</p>
+        )}
+        <DietaryBadges product={product} className="mb-3" />
+        <p className="text-2xl font-extrabold text-red-600">{formatMoney(product.price)}</p>
       </div>
     </div>
   );
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { Pencil, Star, ThumbsUp } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { useForm } from "../../hooks/useForm";
+import { useReviews } from "../../hooks/useReviews";
+import { useToast } from "../../hooks/useToast";
+import { useTranslation } from "../../hooks/useTranslation";
+import { TranslatableError } from "../../lib/errors";
+import {
+  EMPTY_REVIEW,
+  RATINGS,
+  REVIEW_MAX_LENGTH,
+  formatAverage,
+  isRating,
+  reviewSchema,
+  type Review,
+} from "../../lib/reviews";
+import StarRating from "./StarRating";
+
+interface ReviewFormProps {
+  productId: number;
+  existing?: Review;
+  onDone: () => void;
+}
+
+const ReviewForm = ({ productId, existing, onDone }: ReviewFormProps) => {
+  const { submitReview } = useReviews();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+
+  const form = useForm({
+    initialValues: existing ? { rating: String(existing.rating), body: existing.body } : EMPTY_REVIEW,
+    schema: reviewSchema,
+    onSubmit: ({ rating, body }) => {
+      const stars = Number(rating);
+      if (!isRating(stars)) return;
+      submitReview(productId, stars, body);
+      showToast({ message: t("reviews.submitted"), variant: "success" });
+      onDone();
+    },
+  });
+
+  const selected = Number(form.values.rating);
+
+  return (
+    <form onSubmit={form.handleSubmit} noValidate className="bg-orange-50 p-6 rounded-xl space-y-4 mb-6">
+      {form.formError && (
+        <div role="alert" className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {form.formError}
+        </div>
+      )}
+
+      <fieldset aria-describedby={form.error("rating") ? form.errorId("rating") : undefined}>
+        <legend className="block text-sm font-semibold text-gray-700 mb-2">{t("reviews.form.rating")}</legend>
+        <div className="flex gap-1">
+          {RATINGS.map((star) => (
+            <label key={star} className="cursor-pointer">
+              <input
+                type="radio"
+                name={form.fieldId("rating")}
+                value={star}
+                checked={selected === star}
+                onChange={() => form.setValue("rating", String(star))}
+                className="sr-only peer"
+              />
+              <span className="sr-only">{t("reviews.form.stars", { count: star })}</span>
+              <Star
+                size={28}
+                aria-hidden="true"
+                fill={star <= selected ? "currentColor" : "none"}
+                className={`rounded peer-focus-visible:ring-2 peer-focus-visible:ring-red-500 ${
+                  star <= selected ? "text-yellow-500" : "text-gray-300 hover:text-yellow-400"
+                }`}
+              />
+            </label>
+          ))}
+        </div>
+        {form.error("rating") && (
+          <p id={form.errorId("rating")} className="mt-1 text-sm text-red-600">{form.error("rating")}</p>
+        )}
+      </fieldset>
+
+      <div>
+        <label htmlFor={form.fieldId("body")} className="block text-sm font-semibold text-gray-700 mb-2">
+          {t("reviews.form.body")}
+        </label>
+        <textarea
+          rows={4}
+          maxLength={REVIEW_MAX_LENGTH}
+          {...form.register("body")}
+          className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors ${
+            form.error("body") ? "border-red-300 bg-red-50" : "border-gray-300"
+          }`}
+        />
+        {form.error("body") && <p id={form.errorId("body")} className="mt-1 text-sm text-red-600">{form.error("body")}</p>}
+      </div>
+
+      <p className="text-sm text-gray-500">{t("reviews.form.moderation")}</p>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={form.isSubmitting}
+          className="bg-red-600 text-white py-2 px-6 rounded-full font-semibold hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {existing ? t("reviews.form.update") : t("reviews.form.submit")}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="py-2 px-6 rounded-full font-semibold text-gray-700 hover:bg-gray-100 transition-colors"
+        >
+          {t("reviews.form.cancel")}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const ProductReviews = ({ productId }: { productId: number }) => {
+  const { user } = useAuth();
+  const { ratingFor, reviewsFor, ownReview, canReview, toggleHelpful } = useReviews();
+  const { showToast } = useToast();
+  const { language, t } = useTranslation();
+  const [isWriting, setIsWriting] = useState(false);
+
+  const rating = ratingFor(productId);
+  const reviews = reviewsFor(productId);
+  const own = ownReview(productId);
+
+  const handleHelpful = (reviewId: string) => {
+    try {
+      toggleHelpful(reviewId);
+    } catch (error) {
+      showToast({
+        message: error instanceof TranslatableError ? t(error.key, error.params) : t("reviews.error.voteFailed"),
+        variant: "error",
+      });
+    }
+  };
+
+  let prompt;
+  if (!user) {
+    prompt = <p className="text-sm text-gray-600 mb-6">{t("reviews.signIn")}</p>;
+  } else if (!canReview(productId)) {
+    prompt = <p className="text-sm text-gray-600 mb-6">{t("reviews.notEligible")}</p>;
+  } else if (isWriting) {
+    prompt = <ReviewForm productId={productId} existing={own} onDone={() => setIsWriting(false)} />;
+  } else {
+    prompt = (
+      <button
+        onClick={() => setIsWriting(true)}
+        className="inline-flex items-center gap-2 mb-6 py-2 px-6 rounded-full font-semibold border-2 border-red-600 text-red-600 hover:bg-red-600 hover:text-white transition-colors"
+      >
+        <Pencil size={16} />
+        {own ? t("reviews.edit") : t("reviews.write")}
+      </button>
+    );
+  }
+
+  return (
+    <section className="mt-12 bg-white p-8 rounded-xl shadow-lg" aria-labelledby="product-reviews">
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <h2 id="product-reviews" className="text-2xl font-bold text-gray-900">{t("reviews.title")}</h2>
+        {rating.average !== null && (
+          <p className="flex items-center gap-2 text-gray-600">
+            <StarRating
+              value={rating.average}
+              size={20}
+              label={t("reviews.average", { average: formatAverage(rating.average, language) })}
+            />
+            {t("reviews.summary", { count: rating.count, average: formatAverage(rating.average, language) })}
+          </p>
+        )}
+      </div>
+
+      {prompt}
+
+      {reviews.length === 0 ? (
+        <p className="text-gray-600">{t("reviews.empty")}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {reviews.map((review) => {
+            const isOwn = review.userId === user?.id;
+            const voted = !!user && review.helpfulVoters.includes(user.id);
+
+            return (
+              <li key={review.id} className="py-6 first:pt-0">
+                <div className="flex flex-wrap items-center gap-3 mb-2">
+                  <StarRating value={review.rating} label={t("reviews.form.stars", { count: review.rating })} />
+                  <span className="font-semibold text-gray-900">{review.authorName}</span>
+                  <span className="text-sm text-gray-500">{new Date(review.createdAt).toLocaleDateString(language)}</span>
+                  {review.status !== "approved" && (
+                    <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-xs font-medium">
+                      {t(`reviews.status.${review.status}`)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-gray-700 whitespace-pre-line mb-3">{review.body}</p>
+                {review.status === "approved" && (
+                  <button
+                    onClick={() => handleHelpful(review.id)}
+                    disabled={!user || isOwn}
+                    aria-pressed={voted}
+                    className={`inline-flex items-center gap-1 text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                      voted ? "text-red-600" : "text-gray-500 hover:text-red-600 disabled:hover:text-gray-500"
+                    }`}
+                  >
+                    <ThumbsUp size={14} fill={voted ? "currentColor" : "none"} />
+                    {t("reviews.helpful", { count: review.helpfulVoters.length })}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ProductReviews;
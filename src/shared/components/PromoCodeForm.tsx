@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Tag, X } from "lucide-react";
+import { useCart } from "../../hooks/useCart";
+import { findPromotion } from "../../data/promotions";
+import { evaluatePromotion, type Promotion } from "../../lib/discounts";
+import { formatMoney } from "../../lib/currency";
+import { useTranslation } from "../../hooks/useTranslation";
+import type { PromoCodeError } from "../../context/cart";
+import type { TranslationKey } from "../../i18n/catalogs";
+import DiscountDescription from "./DiscountDescription";
+
+const ERROR_MESSAGES: Record<PromoCodeError, TranslationKey> = {
+  "invalid": "promo.invalid",
+  "already-applied": "promo.alreadyApplied",
+  "not-started": "promo.notStarted",
+  "expired": "promo.expired",
+  "min-spend": "promo.minSpend",
+  "not-applicable": "promo.notApplicable",
+};
+
+const PromoCodeForm = () => {
+  const { items, promoCodes, pricing, applyPromoCode, removePromoCode } = useCart();
+  const { t } = useTranslation();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+
+  const errorMessage = (reason: PromoCodeError, promoCode: string) => {
+    const minSpend = findPromotion(promoCode)?.minSpend;
+    return t(ERROR_MESSAGES[reason], {
+      code: promoCode,
+      amount: minSpend ? formatMoney(minSpend) : "",
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    const result = applyPromoCode(code);
+    if (result.ok) {
+      setCode("");
+      setError("");
+    } else {
+      setError(errorMessage(result.error, result.code));
+    }
+  };
+
+  // Codes stay applied when the cart changes, but may stop qualifying
+  const pendingReason = (promotion: Promotion) => {
+    const result = evaluatePromotion(promotion, items);
+    return result.eligible ? null : errorMessage(result.reason, promotion.code);
+  };
+
+  return (
+    <div className="mb-4">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <label htmlFor="promo-code" className="sr-only">{t("promo.label")}</label>
+        <input
+          id="promo-code"
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            if (error) setError("");
+          }}
+          placeholder={t("promo.label")}
+          aria-invalid={!!error}
+          aria-describedby={error ? "promo-code-error" : undefined}
+          className={`flex-1 px-3 py-2 border rounded-lg uppercase text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors ${
+            error ? "border-red-300 bg-red-50" : "border-gray-300"
+          }`}
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 border-2 border-red-600 text-red-600 rounded-lg text-sm font-semibold hover:bg-red-600 hover:text-white transition-colors"
+        >
+          {t("promo.apply")}
+        </button>
+      </form>
+      {error && (
+        <p id="promo-code-error" className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+
+      {promoCodes.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {promoCodes.map((promoCode) => {
+            const promotion = findPromotion(promoCode);
+            if (!promotion) return null;
+
+            const discount = pricing.discounts.find((applied) => applied.code === promoCode);
+            const reason = discount ? null : pendingReason(promotion);
+
+            return (
+              <li key={promoCode} className="flex items-start gap-2 text-sm">
+                <Tag size={14} className={`mt-1 flex-shrink-0 ${discount ? "text-green-600" : "text-gray-400"}`} />
+                <div className="flex-1">
+                  <span className="font-semibold text-gray-900">{promoCode}</span>
+                  <span className="text-gray-600">
+                    {" · "}
+                    <DiscountDescription rule={promotion.rule} minSpend={promotion.minSpend} />
+                  </span>
+                  {reason && <p className="text-xs text-gray-500">{reason}</p>}
+                </div>
+                {discount && (
+                  <span className="text-green-600 font-semibold">-{formatMoney(discount.amount)}</span>
+                )}
+                <button
+                  onClick={() => removePromoCode(promoCode)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={t("promo.remove", { code: promoCode })}
+                >
+                  <X size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PromoCodeForm;
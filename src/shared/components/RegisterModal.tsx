@@ -1,5 +1,11 @@
 import { useState } from 'react';
 import { Eye, EyeOff, Mail, Lock, User } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useForm } from '../../hooks/useForm';
+import { EMPTY_REGISTRATION, registerSchema, registrationContext } from '../../services/authForms';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import RichText from './RichText';
 
 interface RegisterModalProps {
   onClose: () => void;
@@ -7,96 +13,35 @@ interface RegisterModalProps {
 }
 
 const RegisterModal = ({ onClose, onSwitchToLogin }: RegisterModalProps) => {
-  const [formData, setFormData] = useState({
-    firstName: '',
-    lastName: '',
-    email: '',
-    password: '',
-    confirmPassword: ''
-  });
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [errors, setErrors] = useState<{ [key: string]: string }>({});
-  const [acceptTerms, setAcceptTerms] = useState(false);
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-    if (errors[name]) {
-      setErrors(prev => ({ ...prev, [name]: '' }));
-    }
-  };
-
-  const validateForm = () => {
-    const newErrors: { [key: string]: string } = {};
-    
-    if (!formData.firstName.trim()) {
-      newErrors.firstName = 'First name is required';
-    }
-    
-    if (!formData.lastName.trim()) {
-      newErrors.lastName = 'Last name is required';
-    }
-    
-    if (!formData.email) {
-      newErrors.email = 'Email is required';
-    } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email';
-    }
-    
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
-    }
-    
-    if (!formData.confirmPassword) {
-      newErrors.confirmPassword = 'Please confirm your password';
-    } else if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
-    }
-    
-    if (!acceptTerms) {
-      newErrors.terms = 'You must accept the terms and conditions';
-    }
-    
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
+  const { register } = useAuth();
+  const { t } = useTranslation();
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) return;
-    
-    setIsLoading(true);
-    
-    try {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      console.log('Registration successful:', formData);
+  const form = useForm({
+    initialValues: EMPTY_REGISTRATION,
+    schema: registerSchema,
+    failureMessage: 'validation.registrationFailed',
+    onSubmit: async ({ firstName, lastName, email, password }) => {
+      await register({ firstName, lastName, email, password });
       onClose();
-    } catch (error) {
-      setErrors({ general: 'Registration failed. Please try again.' });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    },
+  });
 
   return (
     <div className="px-6 pb-6 max-h-96 overflow-y-auto">
-      <form onSubmit={handleSubmit} className="space-y-5">
-        {errors.general && (
-          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm flex items-center gap-2">
+      <form onSubmit={form.handleSubmit} noValidate className="space-y-5">
+        {form.formError && (
+          <div role="alert" className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm flex items-center gap-2">
             <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-            {errors.general}
+            {form.formError}
           </div>
         )}
 
         <div className="grid grid-cols-2 gap-4">
           <div>
-            <label htmlFor="firstName" className="block text-sm font-semibold text-gray-700 mb-2">
-              First Name
+            <label htmlFor={form.fieldId('firstName')} className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('auth.firstName')}
             </label>
             <div className="relative">
               <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -104,51 +49,45 @@ const RegisterModal = ({ onClose, onSwitchToLogin }: RegisterModalProps) => {
               </div>
               <input
                 type="text"
-                id="firstName"
-                name="firstName"
-                value={formData.firstName}
-                onChange={handleInputChange}
+                {...form.register('firstName')}
                 className={`w-full pl-12 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 transition-all outline-none ${
-                  errors.firstName ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
+                  form.error('firstName') ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
                 }`}
                 placeholder="John"
               />
             </div>
-            {errors.firstName && (
-              <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
-                <div className="w-1 h-1 bg-red-500 rounded-full"></div>
-                {errors.firstName}
+            {form.error('firstName') && (
+              <p id={form.errorId('firstName')} className="mt-2 text-sm text-red-600 flex items-center gap-1">
+                <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+                {form.error('firstName')}
               </p>
             )}
           </div>
 
           <div>
-            <label htmlFor="lastName" className="block text-sm font-semibold text-gray-700 mb-2">
-              Last Name
+            <label htmlFor={form.fieldId('lastName')} className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('auth.lastName')}
             </label>
             <input
               type="text"
-              id="lastName"
-              name="lastName"
-              value={formData.lastName}
-              onChange={handleInputChange}
+              {...form.register('lastName')}
               className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 transition-all outline-none ${
-                errors.lastName ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
+                form.error('lastName') ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
               }`}
               placeholder="Doe"
             />
-            {errors.lastName && (
-              <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
-                <div className="w-1 h-1 bg-red-500 rounded-full"></div>
-                {errors.lastName}
+            {form.error('lastName') && (
+              <p id={form.errorId('lastName')} className="mt-2 text-sm text-red-600 flex items-center gap-1">
+                <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+                {form.error('lastName')}
               </p>
             )}
           </div>
         </div>
 
         <div>
-          <label htmlFor="email" className="block text-sm font-semibold text-gray-700 mb-2">
-            Email Address
+          <label htmlFor={form.fieldId('email')} className="block text-sm font-semibold text-gray-700 mb-2">
+            {t('auth.email')}
           </label>
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -156,27 +95,24 @@ const RegisterModal = ({ onClose, onSwitchToLogin }: RegisterModalProps) => {
             </div>
             <input
               type="email"
-              id="email"
-              name="email"
-              value={formData.email}
-              onChange={handleInputChange}
+              {...form.register('email')}
               className={`w-full pl-12 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 transition-all outline-none ${
-                errors.email ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
+                form.error('email') ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
               }`}
               placeholder="john@example.com"
             />
           </div>
-          {errors.email && (
-            <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
-              <div className="w-1 h-1 bg-red-500 rounded-full"></div>
-              {errors.email}
+          {form.error('email') && (
+            <p id={form.errorId('email')} className="mt-2 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+              {form.error('email')}
             </p>
           )}
         </div>
 
         <div>
-          <label htmlFor="password" className="block text-sm font-semibold text-gray-700 mb-2">
-            Password
+          <label htmlFor={form.fieldId('password')} className="block text-sm font-semibold text-gray-700 mb-2">
+            {t('auth.password')}
           </label>
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -184,14 +120,11 @@ const RegisterModal = ({ onClose, onSwitchToLogin }: RegisterModalProps) => {
             </div>
             <input
               type={showPassword ? 'text' : 'password'}
-              id="password"
-              name="password"
-              value={formData.password}
-              onChange={handleInputChange}
+              {...form.register('password')}
               className={`w-full pl-12 pr-12 py-3 border rounded-xl focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 transition-all outline-none ${
-                errors.password ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
+                form.error('password') ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
               }`}
-              placeholder="Create a password"
+              placeholder={t('auth.createPasswordPlaceholder')}
             />
             <button
               type="button"
@@ -205,17 +138,20 @@ const RegisterModal = ({ onClose, onSwitchToLogin }: RegisterModalProps) => {
               )}
             </button>
           </div>
-          {errors.password && (
-            <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
-              <div className="w-1 h-1 bg-red-500 rounded-full"></div>
-              {errors.password}
+          {form.values.password && (
+            <PasswordStrengthMeter password={form.values.password} context={registrationContext(form.values)} />
+          )}
+          {form.error('password') && (
+            <p id={form.errorId('password')} className="mt-2 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+              {form.error('password')}
             </p>
           )}
         </div>
 
         <div>
-          <label htmlFor="confirmPassword" className="block text-sm font-semibold text-gray-700 mb-2">
-            Confirm Password
+          <label htmlFor={form.fieldId('confirmPassword')} className="block text-sm font-semibold text-gray-700 mb-2">
+            {t('auth.confirmPassword')}
           </label>
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -223,14 +159,11 @@ const RegisterModal = ({ onClose, onSwitchToLogin }: RegisterModalProps) => {
             </div>
             <input
               type={showConfirmPassword ? 'text' : 'password'}
-              id="confirmPassword"
-              name="confirmPassword"
-              value={formData.confirmPassword}
-              onChange={handleInputChange}
+              {...form.register('confirmPassword')}
               className={`w-full pl-12 pr-12 py-3 border rounded-xl focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 transition-all outline-none ${
-                errors.confirmPassword ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
+                form.error('confirmPassword') ? 'border-red-300 bg-red-50/50' : 'border-gray-200 hover:border-gray-300'
               }`}
-              placeholder="Confirm your password"
+              placeholder={t('auth.confirmPasswordPlaceholder')}
             />
             <button
               type="button"
@@ -244,10 +177,10 @@ const RegisterModal = ({ onClose, onSwitchToLogin }: RegisterModalProps) => {
               )}
             </button>
           </div>
-          {errors.confirmPassword && (
-            <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
-              <div className="w-1 h-1 bg-red-500 rounded-full"></div>
-              {errors.confirmPassword}
+          {form.error('confirmPassword') && (
+            <p id={form.errorId('confirmPassword')} className="mt-2 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+              {form.error('confirmPassword')}
             </p>
           )}
         </div>
@@ -255,44 +188,48 @@ const RegisterModal = ({ onClose, onSwitchToLogin }: RegisterModalProps) => {
         <div>
           <label className="flex items-start gap-3">
             <input
-              type="checkbox"
-              checked={acceptTerms}
-              onChange={(e) => setAcceptTerms(e.target.checked)}
+              {...form.registerCheckbox('acceptTerms')}
               className="h-4 w-4 text-purple-600 focus:ring-purple-500/20 border-gray-300 rounded mt-1"
             />
             <span className="text-sm text-gray-600 leading-relaxed">
-              I agree to the <span className="text-purple-600 font-medium">Terms of Service</span> and <span className="text-purple-600 font-medium">Privacy Policy</span>
+              <RichText
+                text={t('auth.terms')}
+                components={{
+                  terms: (chunk) => <span className="text-purple-600 font-medium">{chunk}</span>,
+                  privacy: (chunk) => <span className="text-purple-600 font-medium">{chunk}</span>,
+                }}
+              />
             </span>
           </label>
-          {errors.terms && (
-            <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
-              <div className="w-1 h-1 bg-red-500 rounded-full"></div>
-              {errors.terms}
+          {form.error('acceptTerms') && (
+            <p id={form.errorId('acceptTerms')} className="mt-2 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+              {form.error('acceptTerms')}
             </p>
           )}
         </div>
 
         <button
           type="submit"
-          disabled={isLoading}
+          disabled={form.isSubmitting}
           className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white py-3 px-4 rounded-xl font-semibold hover:from-purple-700 hover:to-pink-700 focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center shadow-lg hover:shadow-xl"
         >
-          {isLoading ? (
+          {form.isSubmitting ? (
             <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
           ) : (
-            'Create Account'
+            t('auth.createAccount')
           )}
         </button>
       </form>
 
       <div className="mt-6 text-center">
         <p className="text-sm text-gray-600">
-          Already have an account?{' '}
+          {t('auth.haveAccount')}{' '}
           <button 
             onClick={onSwitchToLogin}
             className="font-semibold text-purple-600 hover:text-purple-700 transition-colors"
           >
-            Sign in here
+            {t('auth.signInHere')}
           </button>
         </p>
       </div>
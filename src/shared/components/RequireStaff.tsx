@@ -0,0 +1,17 @@
+import { Navigate, Outlet } from "react-router-dom";
+import { useAuth } from "../../hooks/useAuth";
+import { isStaff } from "../../lib/staff";
+
+// Layout route guard for the staff tools; nest it inside <RequireAuth> so
+// anonymous visitors are asked to sign in first
+const RequireStaff = () => {
+  const { user } = useAuth();
+
+  if (!isStaff(user)) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireStaff;
@@ -0,0 +1,43 @@
+import type { ProductImage } from "../../data/products";
+
+interface ResponsiveImageProps {
+  image: ProductImage;
+  alt: string;
+  className?: string;
+  variant?: "responsive" | "thumbnail";
+  loading?: "lazy" | "eager";
+}
+
+// Breakpoints match Tailwind's md (768px) and lg (1024px), so phones only
+// ever download the mobile crop and never the desktop JPEG
+const ResponsiveImage = ({
+  image,
+  alt,
+  className,
+  variant = "responsive",
+  loading = "lazy",
+}: ResponsiveImageProps) => {
+  if (variant === "thumbnail") {
+    return (
+      <img
+        src={image.thumbnail}
+        alt={alt}
+        className={className}
+        loading={loading}
+        width={64}
+        height={64}
+      />
+    );
+  }
+
+  return (
+    // `contents` keeps the wrapper out of layout so sizing classes on the img still apply
+    <picture className="contents">
+      <source media="(min-width: 1024px)" srcSet={image.desktop} />
+      <source media="(min-width: 768px)" srcSet={image.tablet} />
+      <img src={image.mobile} alt={alt} className={className} loading={loading} />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
@@ -0,0 +1,29 @@
+import { Fragment, type ReactNode } from 'react';
+
+interface RichTextProps {
+  text: string;
+  // Renders the text between <name>…</name> in a translated message
+  components: Record<string, (chunk: string) => ReactNode>;
+}
+
+const TAG_PATTERN = /<(\w+)>(.*?)<\/\1>/g;
+
+// Lets translators move links and emphasis around inside a sentence without
+// the markup itself ever being injected as HTML
+const RichText = ({ text, components }: RichTextProps) => {
+  const parts: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const [whole, name, chunk] = match;
+    parts.push(text.slice(lastIndex, match.index));
+    const render = components[name];
+    parts.push(<Fragment key={match.index}>{render ? render(chunk) : chunk}</Fragment>);
+    lastIndex = match.index + whole.length;
+  }
+  parts.push(text.slice(lastIndex));
+
+  return <>{parts}</>;
+};
+
+export default RichText;
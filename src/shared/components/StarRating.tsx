@@ -0,0 +1,30 @@
+import { Star } from "lucide-react";
+import { RATINGS } from "../../lib/reviews";
+
+interface StarRatingProps {
+  // 1-5, fractions allowed; rounded to the nearest half star
+  value: number;
+  size?: number;
+  label: string;
+}
+
+const StarRating = ({ value, size = 16, label }: StarRatingProps) => {
+  const rounded = Math.round(value * 2) / 2;
+
+  return (
+    <span role="img" aria-label={label} className="inline-flex items-center gap-0.5 text-yellow-500">
+      {RATINGS.map((star) => (
+        <span key={star} className="relative inline-flex" aria-hidden="true">
+          <Star size={size} className="text-gray-300" />
+          {rounded >= star - 0.5 && (
+            <span className={`absolute inset-0 overflow-hidden ${rounded === star - 0.5 ? "w-1/2" : ""}`}>
+              <Star size={size} fill="currentColor" className="text-yellow-500" />
+            </span>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default StarRating;
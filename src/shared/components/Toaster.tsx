@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { AlertCircle, CheckCircle, Info, X } from "lucide-react";
+import { useToast } from "../../hooks/useToast";
+import { useTranslation } from "../../hooks/useTranslation";
+import type { FlashState, Toast, ToastVariant } from "../../context/toast";
+
+const VARIANT_STYLES: Record<ToastVariant, string> = {
+  success: "border-green-500",
+  error: "border-red-500",
+  info: "border-gray-400",
+};
+
+const VARIANT_ICONS: Record<ToastVariant, typeof Info> = {
+  success: CheckCircle,
+  error: AlertCircle,
+  info: Info,
+};
+
+const ToastItem = ({ toast, onDismiss }: { toast: Toast; onDismiss: () => void }) => {
+  const { t } = useTranslation();
+  const Icon = VARIANT_ICONS[toast.variant];
+
+  return (
+    <div
+      role={toast.variant === "error" ? "alert" : "status"}
+      className={`flex items-center gap-3 bg-white border-l-4 ${VARIANT_STYLES[toast.variant]} rounded-lg shadow-lg px-4 py-3 min-w-72 max-w-sm`}
+    >
+      <Icon size={18} className="shrink-0 text-gray-600" />
+      <p className="flex-1 text-sm text-gray-800">{toast.message}</p>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action?.onClick();
+            onDismiss();
+          }}
+          className="text-sm font-semibold text-red-600 hover:underline"
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        aria-label={t("toast.dismiss")}
+        className="text-gray-400 hover:text-gray-600"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+const Toaster = () => {
+  const { toasts, showToast, dismissToast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const handledKey = useRef<string | null>(null);
+
+  // Show a flash message handed over by the previous page, then drop it from
+  // the history entry so a refresh or Back doesn't show it again
+  useEffect(() => {
+    const { message, ...rest } = (location.state ?? {}) as FlashState & Record<string, unknown>;
+    if (!message || handledKey.current === location.key) return;
+
+    handledKey.current = location.key;
+    showToast({ message, variant: "success" });
+    navigate(`${location.pathname}${location.search}${location.hash}`, {
+      replace: true,
+      state: Object.keys(rest).length > 0 ? rest : null,
+    });
+  }, [location, navigate, showToast]);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2" aria-live="polite">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} onDismiss={() => dismissToast(toast.id)} />
+      ))}
+    </div>
+  );
+};
+
+export default Toaster;
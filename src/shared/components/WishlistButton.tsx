@@ -0,0 +1,31 @@
+import { Heart } from "lucide-react";
+import type { Product } from "../../data/products";
+import { useTranslation } from "../../hooks/useTranslation";
+import { useWishlist } from "../../hooks/useWishlist";
+
+interface WishlistButtonProps {
+  product: Product;
+  className?: string;
+}
+
+const WishlistButton = ({ product, className = "" }: WishlistButtonProps) => {
+  const { isSaved, toggle } = useWishlist();
+  const { t } = useTranslation();
+  const saved = isSaved(product.id);
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggle(product.id)}
+      aria-pressed={saved}
+      aria-label={t(saved ? "wishlist.remove" : "wishlist.save", { name: product.name })}
+      className={`w-10 h-10 rounded-full bg-white shadow flex items-center justify-center transition-colors ${
+        saved ? "text-red-600" : "text-gray-500 hover:text-red-600"
+      } ${className}`}
+    >
+      <Heart size={20} fill={saved ? "currentColor" : "none"} />
+    </button>
+  );
+};
+
+export default WishlistButton;
@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PRODUCT_SOURCE?: 'static' | 'http';
+  readonly VITE_ORDER_EVENTS?: 'on' | 'off';
+  readonly VITE_CURRENCY?: string;
+  readonly VITE_EXCHANGE_RATE?: string;
+  readonly VITE_LOCALE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}